@@ -0,0 +1,51 @@
+// app/api/auth/nonce/route.ts
+// Sign-in challenge - a one-time message for the wallet to sign
+
+import { NextResponse } from 'next/server';
+import { createSignInChallenge, allowSignInChallenge, clientAddress } from '@/lib/wallet-auth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// POST - Issue a sign-in message for { wallet }
+export async function POST(req: Request) {
+  try {
+    if (!allowSignInChallenge(clientAddress(req))) {
+      return NextResponse.json({
+        success: false,
+        error: 'Too many sign-in requests, please wait a minute',
+      }, { status: 429 });
+    }
+    
+    const { wallet } = await req.json();
+    
+    if (!wallet) {
+      return NextResponse.json({
+        success: false,
+        error: 'Missing wallet address',
+      }, { status: 400 });
+    }
+    
+    let challenge;
+    try {
+      challenge = await createSignInChallenge(wallet, new URL(req.url).origin);
+    } catch {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid wallet address',
+      }, { status: 400 });
+    }
+    
+    return NextResponse.json({
+      success: true,
+      ...challenge,
+    });
+    
+  } catch (e: any) {
+    console.error('[WalletAuth] Nonce error:', e.message);
+    return NextResponse.json({
+      success: false,
+      error: e.message || 'Failed to create sign-in message',
+    }, { status: 500 });
+  }
+}
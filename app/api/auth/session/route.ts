@@ -0,0 +1,81 @@
+// app/api/auth/session/route.ts
+// Wallet sessions - exchange a signed sign-in message for a short-lived bearer token
+
+import { NextResponse } from 'next/server';
+import { completeSignIn, getSessionWallet, endWalletSession } from '@/lib/wallet-auth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// POST - Sign in with { wallet, nonce, signature } (signature is base58 over the nonce's message)
+export async function POST(req: Request) {
+  try {
+    const { wallet, nonce, signature } = await req.json();
+    
+    if (!wallet || !nonce || !signature) {
+      return NextResponse.json({
+        success: false,
+        error: 'Missing required fields: wallet, nonce, signature',
+      }, { status: 400 });
+    }
+    
+    const result = await completeSignIn({ wallet, nonce, signature });
+    
+    if (!result.success) {
+      return NextResponse.json({
+        success: false,
+        error: result.error,
+      }, { status: 401 });
+    }
+    
+    return NextResponse.json({
+      success: true,
+      token: result.token,
+      wallet: result.wallet,
+      expires_at: result.expires_at,
+    });
+    
+  } catch (e: any) {
+    console.error('[WalletAuth] Sign-in error:', e.message);
+    return NextResponse.json({
+      success: false,
+      error: e.message || 'Failed to sign in',
+    }, { status: 500 });
+  }
+}
+
+// GET - Wallet of the current session (Authorization: Bearer <token>)
+export async function GET(req: Request) {
+  try {
+    const wallet = await getSessionWallet(req);
+    
+    return NextResponse.json({
+      success: true,
+      signed_in: !!wallet,
+      wallet,
+    });
+    
+  } catch (e: any) {
+    return NextResponse.json({
+      success: false,
+      error: e.message,
+    }, { status: 500 });
+  }
+}
+
+// DELETE - Sign out
+export async function DELETE(req: Request) {
+  try {
+    await endWalletSession(req);
+    
+    return NextResponse.json({
+      success: true,
+    });
+    
+  } catch (e: any) {
+    return NextResponse.json({
+      success: false,
+      error: e.message,
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+// app/api/escrow/reconcile/route.ts
+// Escrow reconciliation report (JSON or CSV)
+
+import { NextResponse } from 'next/server';
+import {
+  runEscrowReconciliation,
+  getLastReconciliationReport,
+  reconciliationReportToCsv,
+} from '@/lib/escrow-reconcile';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const ADMIN_API_KEY = process.env.ADMIN_API_KEY;
+
+// GET - Latest reconciliation report
+// ?refresh=1 runs a new reconciliation, ?format=csv returns CSV, ?max_signatures=N limits history
+// (capped at RECONCILE_MAX_SIGNATURES)
+export async function GET(req: Request) {
+  try {
+    // Walking escrow history is expensive and the report lists every wallet's balance - admin only
+    if (!ADMIN_API_KEY) {
+      return NextResponse.json({
+        success: false,
+        error: 'Reconciliation API is disabled - ADMIN_API_KEY is not set',
+      }, { status: 503 });
+    }
+    
+    if (req.headers.get('x-admin-key') !== ADMIN_API_KEY) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized',
+      }, { status: 401 });
+    }
+    
+    const { searchParams } = new URL(req.url);
+    const refresh = searchParams.get('refresh') === '1';
+    const format = searchParams.get('format') || 'json';
+    const maxSignatures = parseInt(searchParams.get('max_signatures') || '0') || undefined;
+    
+    let report = refresh ? null : getLastReconciliationReport();
+    if (!report) {
+      report = await runEscrowReconciliation(maxSignatures);
+    }
+    
+    if (format === 'csv') {
+      return new NextResponse(reconciliationReportToCsv(report), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="escrow-reconciliation-${report.generated_at}.csv"`,
+        },
+      });
+    }
+    
+    return NextResponse.json({
+      success: true,
+      ok: report.issues.length === 0,
+      report,
+    });
+    
+  } catch (e: any) {
+    console.error('[Reconcile API] Error:', e.message);
+    return NextResponse.json({
+      success: false,
+      error: e.message || 'Reconciliation failed',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,77 @@
+// app/api/presale/[id]/cancel/route.ts
+// Creator cancels an active presale (e.g. a typo in the token details)
+// Joins stop immediately; participants are refunded without tax, the launch fee is forfeited
+
+import { NextResponse } from 'next/server';
+import { getPresaleById, cancelPresale } from '@/lib/presale-db';
+import { runPresaleRefunds } from '@/lib/presale-refunds';
+import { requireWalletSession } from '@/lib/wallet-auth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const MAX_REASON_LENGTH = 200;
+
+// POST - Cancel the presale (creator only)
+export async function POST(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+    const body = await req.json().catch(() => ({}));
+    const reason = typeof body.reason === 'string' ? body.reason.trim().slice(0, MAX_REASON_LENGTH) : undefined;
+    
+    const presale = await getPresaleById(id);
+    
+    if (!presale) {
+      return NextResponse.json({
+        success: false,
+        error: 'Presale not found',
+      }, { status: 404 });
+    }
+    
+    const auth = await requireWalletSession(req, presale.creator_wallet);
+    if (!auth.success) {
+      return NextResponse.json({
+        success: false,
+        error: auth.error,
+      }, { status: auth.status });
+    }
+    
+    const result = await cancelPresale(id, reason || undefined);
+    
+    if (!result.success || !result.presale) {
+      return NextResponse.json({
+        success: false,
+        error: result.error,
+      }, { status: 400 });
+    }
+    
+    console.log('[Cancel API] Presale cancelled:', id, 'participants:', result.presale.participant_count);
+    
+    // Start refunding now rather than on the worker's next tick
+    if (result.presale.participant_count > 0) {
+      runPresaleRefunds().catch((e) => {
+        console.error('[Cancel API] Refund run failed:', e.message);
+      });
+    }
+    
+    return NextResponse.json({
+      success: true,
+      message: 'Presale cancelled. Participants are being refunded without tax.',
+      presale_id: id,
+      status: result.presale.status,
+      cancelled_at: result.presale.cancelled_at,
+      participants_to_refund: result.presale.participant_count,
+      launch_fee_forfeited: true,
+    });
+    
+  } catch (e: any) {
+    console.error('[Cancel API] Error:', e.message);
+    return NextResponse.json({
+      success: false,
+      error: e.message,
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,155 @@
+// app/api/presale/[id]/deposit-tx/route.ts
+// Build the unsigned deposit transaction for a presale
+// The tx carries a fresh reference key + presale memo, and the server remembers it as a deposit intent
+// Also used to top up: a wallet that already joined may deposit more, up to max_sol_per_wallet combined
+
+import { NextResponse } from 'next/server';
+import { Connection, Keypair, PublicKey, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import {
+  getPresaleById,
+  getParticipantByWallet,
+  checkExpiredPresales,
+  reserveParticipantSlot,
+  createDepositIntent,
+  DEPOSIT_INTENT_TTL_MS,
+} from '@/lib/presale-db';
+import { buildDepositTransaction, depositMemo } from '@/lib/deposit-verify';
+import { solToLamports } from '@/lib/presale-events';
+import { ESCROW_WALLET } from '@/lib/constants';
+import { requireWalletSession } from '@/lib/wallet-auth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const SOLANA_RPC_URL = process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com';
+
+// GET - Unsigned deposit tx for ?wallet=&amount= (amount in SOL)
+export async function GET(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+    const { searchParams } = new URL(req.url);
+    const wallet = searchParams.get('wallet');
+    const amount = parseFloat(searchParams.get('amount') || '');
+    
+    if (!wallet || !Number.isFinite(amount) || amount <= 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'Missing required params: wallet, amount',
+      }, { status: 400 });
+    }
+    
+    let walletPubkey: PublicKey;
+    try {
+      walletPubkey = new PublicKey(wallet);
+    } catch {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid wallet address',
+      }, { status: 400 });
+    }
+    
+    // Intents hold a slot - only the depositing wallet can request one
+    const auth = await requireWalletSession(req, wallet);
+    if (!auth.success) {
+      return NextResponse.json({
+        success: false,
+        error: auth.error,
+      }, { status: auth.status });
+    }
+    
+    await checkExpiredPresales();
+    
+    const presale = await getPresaleById(id);
+    
+    if (!presale) {
+      return NextResponse.json({
+        success: false,
+        error: 'Presale not found',
+      }, { status: 404 });
+    }
+    
+    if (presale.status !== 'active') {
+      return NextResponse.json({
+        success: false,
+        error: `Presale is ${presale.status}, cannot join`,
+      }, { status: 400 });
+    }
+    
+    if (wallet === presale.creator_wallet) {
+      return NextResponse.json({
+        success: false,
+        error: 'Creator cannot join their own presale',
+      }, { status: 400 });
+    }
+    
+    const existingParticipant = await getParticipantByWallet(id, wallet);
+    const topUp = existingParticipant?.confirmed ? existingParticipant : null;
+    
+    if (topUp) {
+      if (solToLamports(topUp.amount_sol) + solToLamports(amount) > solToLamports(presale.max_sol_per_wallet)) {
+        return NextResponse.json({
+          success: false,
+          error: `Top-up would exceed the ${presale.max_sol_per_wallet} SOL maximum per wallet (${topUp.amount_sol} SOL already in)`,
+        }, { status: 400 });
+      }
+    } else if (amount < presale.min_sol_per_wallet || amount > presale.max_sol_per_wallet) {
+      return NextResponse.json({
+        success: false,
+        error: `Contribution must be between ${presale.min_sol_per_wallet} and ${presale.max_sol_per_wallet} SOL`,
+      }, { status: 400 });
+    }
+    
+    // Hold a slot for as long as the intent is valid (a top-up already has one)
+    const reservation = await reserveParticipantSlot(id, wallet, DEPOSIT_INTENT_TTL_MS);
+    if (!reservation.success) {
+      return NextResponse.json({
+        success: false,
+        error: reservation.error,
+      }, { status: 400 });
+    }
+    
+    const connection = new Connection(SOLANA_RPC_URL, 'confirmed');
+    const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+    
+    const lamports = Math.round(amount * LAMPORTS_PER_SOL);
+    const reference = Keypair.generate().publicKey;
+    
+    const transaction = buildDepositTransaction({
+      presale_id: id,
+      wallet: walletPubkey,
+      escrow: new PublicKey(ESCROW_WALLET),
+      lamports,
+      reference,
+      blockhash,
+    });
+    
+    const intent = await createDepositIntent({
+      presale_id: id,
+      wallet,
+      amount_lamports: lamports,
+      reference: reference.toBase58(),
+    });
+    
+    return NextResponse.json({
+      success: true,
+      transaction: transaction.serialize({ requireAllSignatures: false, verifySignatures: false }).toString('base64'),
+      reference: intent.reference,
+      memo: depositMemo(id),
+      amount_lamports: lamports,
+      top_up: !!topUp,
+      expires_at: intent.expires_at,
+      blockhash,
+      last_valid_block_height: lastValidBlockHeight,
+    });
+    
+  } catch (e: any) {
+    console.error('[Presale] Deposit tx error:', e.message);
+    return NextResponse.json({
+      success: false,
+      error: e.message || 'Failed to build deposit transaction',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+// app/api/presale/[id]/events/route.ts
+// Audit ledger for a single presale
+
+import { NextResponse } from 'next/server';
+import { getPresaleById } from '@/lib/presale-db';
+import { getPresaleEvents } from '@/lib/presale-events';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// GET - List every recorded event for this presale (oldest first)
+export async function GET(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+    const { searchParams } = new URL(req.url);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '500'), 1000);
+    const offset = parseInt(searchParams.get('offset') || '0');
+    
+    const presale = await getPresaleById(id);
+    
+    if (!presale) {
+      return NextResponse.json({
+        success: false,
+        error: 'Presale not found',
+      }, { status: 404 });
+    }
+    
+    const events = await getPresaleEvents(id, limit, offset);
+    
+    return NextResponse.json({
+      success: true,
+      presale_id: id,
+      events,
+      pagination: {
+        limit,
+        offset,
+        count: events.length,
+      },
+    });
+    
+  } catch (e: any) {
+    console.error('[Presale Events] Error:', e.message);
+    return NextResponse.json({
+      success: false,
+      error: e.message || 'Failed to load events',
+    }, { status: 500 });
+  }
+}
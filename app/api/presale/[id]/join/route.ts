@@ -1,16 +1,29 @@
 // app/api/presale/[id]/join/route.ts
 // Join a presale - confirm deposit transaction
+// A wallet that already joined can top up with further deposits, up to max_sol_per_wallet combined
 
 import { NextResponse } from 'next/server';
-import { Connection, PublicKey, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { Connection } from '@solana/web3.js';
 import { 
   getPresaleById, 
-  addParticipant,
-  confirmParticipant,
   getParticipantByWallet,
-  updatePresaleStatus,
   checkExpiredPresales,
+  reserveParticipantSlot,
+  releaseParticipantSlot,
+  addConfirmedParticipant,
+  getConsumedDeposit,
+  getDepositIntent,
+  getOrphanedDeposit,
+  getPresaleParticipants,
+  participantHasDeposit,
+  type Presale,
+  type PresaleParticipant,
 } from '@/lib/presale-db';
+import { recordPresaleEvent, solToLamports } from '@/lib/presale-events';
+import { verifyDeposit, DEPOSIT_RETRY_AFTER_MS } from '@/lib/deposit-verify';
+import { settleDepositSignature } from '@/lib/deposit-indexer';
+import { orphanRefundView } from '@/lib/orphan-refunds';
+import { requireWalletSession } from '@/lib/wallet-auth';
 import { ESCROW_WALLET } from '@/lib/constants';
 import { launchPresaleToken } from '@/lib/launch-presale';
 
@@ -19,6 +32,34 @@ export const dynamic = 'force-dynamic';
 
 const SOLANA_RPC_URL = process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com';
 
+// Response for a deposit the escrow indexer already confirmed (the browser's POST arrived second)
+async function alreadyConfirmedResponse(presale: Presale, participant: PresaleParticipant, tx_signature: string) {
+  const participants = await getPresaleParticipants(presale.id);
+  const position = participants.findIndex(p => p.id === participant.id) + 1;
+  const isFull = presale.participant_count >= presale.target_participants;
+  const topUp = participant.tx_signature !== tx_signature;
+  
+  return NextResponse.json({
+    success: true,
+    message: topUp ? 'Contribution topped up!' : 'Successfully joined presale!',
+    top_up: topUp,
+    participant: {
+      wallet: participant.wallet,
+      amount_sol: participant.amount_sol,
+      position: position || presale.participant_count,
+    },
+    presale: {
+      participant_count: presale.participant_count,
+      total_sol: presale.total_sol,
+      progress_percent: Math.round((presale.participant_count / presale.target_participants) * 100),
+      is_full: isFull,
+    },
+    ready_to_launch: isFull,
+    launch_triggered: false,
+    launch: null,
+  });
+}
+
 // POST - Join presale (confirm deposit transaction)
 export async function POST(
   req: Request,
@@ -26,7 +67,7 @@ export async function POST(
 ) {
   try {
     const { id } = params;
-    const { wallet, amount_sol, tx_signature } = await req.json();
+    const { wallet, amount_sol, tx_signature, reference } = await req.json();
     
     // Validate inputs
     if (!wallet || !amount_sol || !tx_signature) {
@@ -36,6 +77,22 @@ export async function POST(
       }, { status: 400 });
     }
     
+    if (typeof amount_sol !== 'number' || !Number.isFinite(amount_sol) || amount_sol <= 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'amount_sol must be a positive number',
+      }, { status: 400 });
+    }
+    
+    // The joining wallet must be signed in
+    const auth = await requireWalletSession(req, wallet);
+    if (!auth.success) {
+      return NextResponse.json({
+        success: false,
+        error: auth.error,
+      }, { status: auth.status });
+    }
+    
     // Check expired presales
     await checkExpiredPresales();
     
@@ -49,189 +106,180 @@ export async function POST(
       }, { status: 404 });
     }
     
-    // Check presale status
-    if (presale.status !== 'active') {
+    // Deposit cannot be credited as claimed - settle it from on-chain data instead of stranding the SOL
+    // (credited to its real sender if it is valid, otherwise queued for refund to that sender)
+    const rejectDeposit = async (error: string, extra: Record<string, unknown> = {}) => {
+      const settlement = await settleDepositSignature(tx_signature);
+      
+      if (settlement?.outcome === 'confirmed' && settlement.wallet === wallet && settlement.presale) {
+        const participant = await getParticipantByWallet(id, wallet);
+        if (participant?.confirmed && participantHasDeposit(participant, tx_signature)) {
+          return alreadyConfirmedResponse(settlement.presale, participant, tx_signature);
+        }
+      }
+      
+      // Only the depositor sees the refund (already-queued deposits are looked up)
+      const orphan = settlement?.orphan || await getOrphanedDeposit(tx_signature);
+      const refund = orphan && orphan.wallet === wallet ? orphanRefundView(orphan) : undefined;
+      
       return NextResponse.json({
         success: false,
-        error: `Presale is ${presale.status}, cannot join`,
+        ...extra,
+        error,
+        ...(refund && { refund }),
       }, { status: 400 });
+    };
+    
+    // Already confirmed by the escrow indexer (checked first - the presale may have filled and launched since)
+    const existingParticipant = await getParticipantByWallet(id, wallet);
+    if (existingParticipant?.confirmed && participantHasDeposit(existingParticipant, tx_signature)) {
+      return alreadyConfirmedResponse(presale, existingParticipant, tx_signature);
+    }
+    
+    // A wallet that already joined is topping up - it keeps its slot
+    const topUp = existingParticipant?.confirmed ? existingParticipant : null;
+    
+    // Check presale status
+    if (presale.status !== 'active') {
+      return rejectDeposit(`Presale is ${presale.status}, cannot join`);
     }
     
-    // Check if expired
+    // Check if expired (closed under the presale lock - at its soft cap it launches instead of failing)
     if (new Date(presale.expires_at) < new Date()) {
-      await updatePresaleStatus(id, 'failed');
-      return NextResponse.json({
-        success: false,
-        error: 'Presale has expired',
-      }, { status: 400 });
+      await checkExpiredPresales();
+      return rejectDeposit('Presale has expired');
     }
     
     // Check if full
-    if (presale.participant_count >= presale.target_participants) {
-      return NextResponse.json({
-        success: false,
-        error: 'Presale is full',
-      }, { status: 400 });
+    if (!topUp && presale.participant_count >= presale.target_participants) {
+      return rejectDeposit('Presale is full');
     }
     
     // Check if wallet is creator (creator cannot join their own presale)
     if (wallet === presale.creator_wallet) {
-      return NextResponse.json({
-        success: false,
-        error: 'Creator cannot join their own presale',
-      }, { status: 400 });
+      return rejectDeposit('Creator cannot join their own presale');
     }
     
-    // Check if wallet already joined
-    const existingParticipant = await getParticipantByWallet(id, wallet);
-    if (existingParticipant && existingParticipant.confirmed) {
-      return NextResponse.json({
-        success: false,
-        error: 'Wallet has already joined this presale',
-      }, { status: 400 });
+    // Validate amount (a top-up is capped on the combined contribution)
+    if (topUp) {
+      if (solToLamports(topUp.amount_sol) + solToLamports(amount_sol) > solToLamports(presale.max_sol_per_wallet)) {
+        return rejectDeposit(`Maximum contribution is ${presale.max_sol_per_wallet} SOL per wallet (${topUp.amount_sol} SOL already in)`);
+      }
+    } else if (amount_sol < presale.min_sol_per_wallet) {
+      return rejectDeposit(`Minimum contribution is ${presale.min_sol_per_wallet} SOL`);
+    } else if (amount_sol > presale.max_sol_per_wallet) {
+      return rejectDeposit(`Maximum contribution is ${presale.max_sol_per_wallet} SOL`);
     }
     
-    // Validate amount
-    if (amount_sol < presale.min_sol_per_wallet) {
-      return NextResponse.json({
-        success: false,
-        error: `Minimum contribution is ${presale.min_sol_per_wallet} SOL`,
-      }, { status: 400 });
+    // Cheap replay check before touching the RPC (re-checked atomically when confirming)
+    const consumed = await getConsumedDeposit(tx_signature);
+    if (consumed?.use === 'refund') {
+      return rejectDeposit('This deposit has been queued for refund');
     }
-    
-    if (amount_sol > presale.max_sol_per_wallet) {
+    if (consumed && (consumed.presale_id !== id || consumed.wallet !== wallet)) {
       return NextResponse.json({
         success: false,
-        error: `Maximum contribution is ${presale.max_sol_per_wallet} SOL`,
-      }, { status: 400 });
+        error: 'Transaction signature has already been used',
+      }, { status: 409 });
     }
     
-    // Verify transaction on-chain
-    console.log('[Presale] Verifying transaction:', tx_signature);
+    // Deposits built by /deposit-tx are verified against the stored intent
+    const intent = reference ? await getDepositIntent(reference) : null;
+    if (reference && (!intent || intent.presale_id !== id || intent.wallet !== wallet)) {
+      return rejectDeposit('Unknown deposit reference for this presale and wallet');
+    }
+    if (intent && intent.amount_lamports !== solToLamports(amount_sol)) {
+      return rejectDeposit('amount_sol does not match the deposit intent');
+    }
     
-    const connection = new Connection(SOLANA_RPC_URL, 'confirmed');
+    // Hold a slot while we verify - the capacity check above is only advisory (a top-up already has one)
+    const reservation = await reserveParticipantSlot(id, wallet);
+    if (!reservation.success) {
+      return rejectDeposit(reservation.error || 'No slot available');
+    }
     
+    let updatedPresale: Presale;
+    let updatedParticipant: PresaleParticipant;
+    let topUpCredited: boolean;
     try {
-      // Wait for transaction confirmation
-      const txInfo = await connection.getTransaction(tx_signature, {
-        commitment: 'confirmed',
-        maxSupportedTransactionVersion: 0,
-      });
-      
-      if (!txInfo) {
-        // Transaction might not be confirmed yet, try waiting
-        console.log('[Presale] Transaction not found, waiting...');
-        await new Promise(resolve => setTimeout(resolve, 3000));
-        
-        const txInfoRetry = await connection.getTransaction(tx_signature, {
-          commitment: 'confirmed',
-          maxSupportedTransactionVersion: 0,
-        });
-        
-        if (!txInfoRetry) {
-          return NextResponse.json({
-            success: false,
-            error: 'Transaction not found. Please wait for confirmation and try again.',
-          }, { status: 400 });
-        }
-      }
+      // Verify transaction on-chain
+      console.log('[Presale] Verifying transaction:', tx_signature);
       
-      // Get transaction details to verify
-      const tx = txInfo || await connection.getTransaction(tx_signature, {
-        commitment: 'confirmed',
-        maxSupportedTransactionVersion: 0,
+      const connection = new Connection(SOLANA_RPC_URL, 'confirmed');
+      const verification = await verifyDeposit(connection, {
+        signature: tx_signature,
+        wallet,
+        escrow_wallet: ESCROW_WALLET,
+        expected_lamports: intent ? intent.amount_lamports : solToLamports(amount_sol),
+        not_before: intent ? intent.created_at : presale.created_at,
+        ...(intent && { not_after: intent.expires_at, reference: intent.reference }),
       });
       
-      if (!tx) {
+      // Fail closed - nothing is recorded until the deposit is verified
+      if (verification.status === 'pending') {
+        console.log('[Presale] Deposit pending:', tx_signature, verification.reason);
         return NextResponse.json({
           success: false,
-          error: 'Could not fetch transaction details',
-        }, { status: 400 });
+          status: 'pending',
+          retryable: true,
+          retry_after_ms: DEPOSIT_RETRY_AFTER_MS,
+          error: 'Deposit not confirmed yet. Please retry shortly.',
+        }, { status: 202 });
       }
       
-      // Check if transaction was successful
-      if (tx.meta?.err) {
-        return NextResponse.json({
-          success: false,
-          error: 'Transaction failed on-chain',
-        }, { status: 400 });
+      if (verification.status === 'rejected') {
+        console.log('[Presale] Deposit rejected:', tx_signature, verification.error);
+        return rejectDeposit(verification.error, { status: 'rejected' });
       }
       
-      // Verify the transaction sent SOL to escrow wallet
-      // Check pre/post balances
-      const escrowPubkey = new PublicKey(ESCROW_WALLET);
-      const accountKeys = tx.transaction.message.staticAccountKeys || 
-                          (tx.transaction.message as any).accountKeys;
-      
-      let escrowIndex = -1;
-      for (let i = 0; i < accountKeys.length; i++) {
-        if (accountKeys[i].toBase58() === escrowPubkey.toBase58()) {
-          escrowIndex = i;
-          break;
-        }
-      }
+      console.log('[Presale] Transaction verified:', verification.lamports, 'lamports');
       
-      if (escrowIndex === -1) {
-        return NextResponse.json({
-          success: false,
-          error: 'Transaction did not send SOL to escrow wallet',
-        }, { status: 400 });
-      }
+      await recordPresaleEvent({
+        presale_id: id,
+        type: 'deposit_verified',
+        actor_wallet: wallet,
+        amount_lamports: verification.lamports,
+        tx_signatures: [tx_signature],
+        details: { slot: verification.slot, ...(intent && { reference: intent.reference }) },
+      });
       
-      // Calculate amount received by escrow
-      const preBal = tx.meta?.preBalances?.[escrowIndex] || 0;
-      const postBal = tx.meta?.postBalances?.[escrowIndex] || 0;
-      const receivedLamports = postBal - preBal;
-      const receivedSol = receivedLamports / LAMPORTS_PER_SOL;
+      // Add and confirm participant atomically (re-checks capacity under the presale lock)
+      const result = await addConfirmedParticipant({
+        presale_id: id,
+        wallet,
+        amount_sol,
+        tx_signature,
+        deposit_lamports: verification.lamports,
+        ...(intent && { intent_reference: intent.reference }),
+      });
       
-      // Allow small tolerance for rounding
-      const tolerance = 0.001;
-      if (Math.abs(receivedSol - amount_sol) > tolerance) {
-        return NextResponse.json({
-          success: false,
-          error: `Amount mismatch. Expected ${amount_sol} SOL, received ${receivedSol.toFixed(4)} SOL`,
-        }, { status: 400 });
+      if (!result.success || !result.presale) {
+        // The deposit indexer may have confirmed this same deposit while we were verifying
+        const indexed = await getParticipantByWallet(id, wallet);
+        const current = await getPresaleById(id);
+        if (indexed?.confirmed && participantHasDeposit(indexed, tx_signature) && current) {
+          return alreadyConfirmedResponse(current, indexed, tx_signature);
+        }
+        
+        return rejectDeposit(result.error || 'Failed to confirm participant');
       }
       
-      console.log('[Presale] Transaction verified:', receivedSol, 'SOL');
-      
-    } catch (verifyError: any) {
-      console.error('[Presale] Verification error:', verifyError.message);
-      // If verification fails, we still add the participant but log the error
-      // In production, you might want to be stricter
+      updatedPresale = result.presale;
+      updatedParticipant = result.participant!;
+      topUpCredited = !!result.top_up;
+    } finally {
+      releaseParticipantSlot(id, wallet);
     }
     
-    // Add participant to database
-    const participant = await addParticipant({
-      presale_id: id,
-      wallet,
-      amount_sol,
-      tx_signature,
-    });
-    
-    if (!participant) {
-      return NextResponse.json({
-        success: false,
-        error: 'Failed to add participant. Wallet may have already joined.',
-      }, { status: 400 });
-    }
-    
-    // Confirm participant
-    const result = await confirmParticipant(id, wallet);
-    
-    if (!result) {
-      return NextResponse.json({
-        success: false,
-        error: 'Failed to confirm participant',
-      }, { status: 500 });
-    }
-    
-    const { presale: updatedPresale } = result;
+    // A top-up keeps the position the wallet joined at
+    const position = topUpCredited
+      ? (await getPresaleParticipants(id)).findIndex(p => p.id === updatedParticipant.id) + 1
+      : updatedPresale.participant_count;
     
     // Check if presale is now full (trigger launch)
     const isFull = updatedPresale.participant_count >= updatedPresale.target_participants;
     
-    console.log('[Presale] Participant confirmed:', wallet, 
+    console.log(topUpCredited ? '[Presale] Participant topped up:' : '[Presale] Participant confirmed:', wallet, 
       '| Count:', updatedPresale.participant_count, '/', updatedPresale.target_participants);
     
     // Auto-launch when full
@@ -259,11 +307,15 @@ export async function POST(
     
     return NextResponse.json({
       success: true,
-      message: launchTriggered ? '🚀 Presale launched!' : 'Successfully joined presale!',
+      message: launchTriggered
+        ? '🚀 Presale launched!'
+        : topUpCredited ? 'Contribution topped up!' : 'Successfully joined presale!',
+      top_up: topUpCredited,
       participant: {
         wallet,
-        amount_sol,
-        position: updatedPresale.participant_count,
+        amount_sol: updatedParticipant.amount_sol, // Combined contribution
+        deposit_sol: amount_sol,
+        position,
       },
       presale: {
         participant_count: updatedPresale.participant_count,
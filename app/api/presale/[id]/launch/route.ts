@@ -1,6 +1,8 @@
 // app/api/presale/[id]/launch/route.ts
-// Launch token when presale is full
-// Uses shared launch function
+// Launch token when presale is full (or at expiry with its soft cap reached - see lib/presale-expiry.ts)
+// Uses shared launch function - POSTing again after a failed launch resumes it from the failed step
+// `dry_run: true` returns a report instead, with nothing sent or saved: the BAGS requests it would make, and a
+// simulation of the txs that exist without sending them - the escrow funding tx, plus any txs an earlier attempt saved
 
 import { NextResponse } from 'next/server';
 import { 
@@ -8,11 +10,15 @@ import {
   checkAutoLaunch,
 } from '@/lib/presale-db';
 import { launchPresaleToken } from '@/lib/launch-presale';
+import { softCapReached } from '@/lib/constants';
+import { requireWalletSession } from '@/lib/wallet-auth';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
-// POST - Launch the token (automatic - no creator signature needed)
+const ADMIN_API_KEY = process.env.ADMIN_API_KEY;
+
+// POST - Launch the token (automatic - no creator signature needed, except to force a launch)
 export async function POST(
   req: Request,
   { params }: { params: { id: string } }
@@ -20,12 +26,46 @@ export async function POST(
   try {
     const { id } = params;
     const body = await req.json().catch(() => ({}));
-    const { force } = body; // Allow force launch for testing
+    const { force, dry_run } = body; // force: launch early at the soft cap; dry_run: simulate only
+    
+    // Launching before the presale fills or expires is a creator action - so is a dry run (it reads the
+    // launcher's balances and the presale's fee shares), which ops may also run with the admin key
+    const isAdmin = !!ADMIN_API_KEY && req.headers.get('x-admin-key') === ADMIN_API_KEY;
+    if (force || (dry_run && !isAdmin)) {
+      const presale = await getPresaleById(id);
+      if (!presale) {
+        return NextResponse.json({
+          success: false,
+          error: 'Presale not found',
+        }, { status: 404 });
+      }
+      
+      const auth = await requireWalletSession(req, presale.creator_wallet);
+      if (!auth.success) {
+        return NextResponse.json({
+          success: false,
+          error: auth.error,
+        }, { status: auth.status });
+      }
+    }
     
-    console.log('[Launch API] Launching presale:', id, 'force:', force);
+    console.log('[Launch API] Launching presale:', id, 'force:', force, 'dry run:', !!dry_run);
     
     // Call the shared launch function
-    const result = await launchPresaleToken(id, force);
+    const result = await launchPresaleToken(id, force, !!dry_run);
+    
+    // A dry run that got as far as simulating reports its steps whether or not they would succeed
+    if (result.dry_run) {
+      return NextResponse.json({
+        success: result.success,
+        dry_run: true,
+        error: result.error,
+        step: result.step,
+        // A clean dry run vouches only for the steps it simulated
+        not_simulated: result.dry_run.not_simulated,
+        report: result.dry_run,
+      });
+    }
     
     if (!result.success) {
       return NextResponse.json({
@@ -34,7 +74,9 @@ export async function POST(
         step: result.step,
         token_mint: result.token_mint,
         meteora_config_key: result.meteora_config_key,
-      }, { status: 400 });
+        can_retry: result.step !== undefined,
+        in_progress: result.in_progress,
+      }, { status: result.in_progress ? 409 : 400 });
     }
     
     return NextResponse.json({
@@ -79,11 +121,23 @@ export async function GET(
       success: true,
       status: presale.status,
       is_full: presale.participant_count >= presale.target_participants,
+      soft_cap: presale.soft_cap || null,
+      // The creator may launch early (force) once it is reached
+      soft_cap_reached: softCapReached(presale.soft_cap, presale.participant_count, presale.total_sol),
       participant_count: presale.participant_count,
       target: presale.target_participants,
       max_wallets: presale.target_participants + 1, // participants + creator
       token_mint: presale.token_mint,
+      meteora_config_key: presale.meteora_config_key,
       can_launch: readyToLaunch,
+      can_retry: presale.status === 'launch_failed',
+      // Steps already done are skipped by a retry (same mint and fee-share config)
+      launch_progress: presale.launch_state && {
+        completed_steps: presale.launch_state.completed_steps,
+        failed_step: presale.launch_state.failed_step,
+        error: presale.launch_state.error,
+        attempts: presale.launch_state.attempts,
+      },
       auto_launch: true, // This presale system uses automatic launches
     });
     
@@ -1,31 +1,35 @@
 // app/api/presale/[id]/refund/route.ts
 // Refund/Withdraw SOL from presale
-// - Active presale: Withdraw with 5% tax
-// - Failed presale: Full refund (no tax)
+// - Active presale: Withdraw taxed at the presale's current withdrawal tax rate (its creator-chosen schedule)
+//   All of the contribution, or part of it (`amount_sol`) as long as the presale minimum stays in
+// - Failed or cancelled presale: Full refund (no tax)
+// - Network fee (with priority fee) is estimated per payout - deducted unless PAYOUT_FEE_PAYER=platform
 
 import { NextResponse } from 'next/server';
 import { 
   Connection, 
   PublicKey, 
   Keypair, 
-  Transaction, 
-  SystemProgram,
   LAMPORTS_PER_SOL,
-  sendAndConfirmTransaction,
 } from '@solana/web3.js';
 import bs58 from 'bs58';
 import { 
   getPresaleById, 
   getParticipantByWallet,
-  markParticipantRefunded,
-  markParticipantWithdrawn,
-  updatePresaleStatus,
+  checkExpiredPresales,
+  withdrawalAmountError,
 } from '@/lib/presale-db';
 import { 
   TAX_WALLET, 
-  PRESALE_CONFIG, 
-  calculateWithdrawalTax 
+  ESCROW_WALLET, 
+  DEFAULT_WITHDRAWAL_TAX,
+  calculateWithdrawalTax,
+  withdrawalTaxBpsAt,
 } from '@/lib/constants';
+import { solToLamports } from '@/lib/presale-events';
+import { payWithdrawal, quoteWithdrawal, type WithdrawalQuote } from '@/lib/escrow-payouts';
+import { requireWalletSession } from '@/lib/wallet-auth';
+import { refundParticipantNow, quoteRefund } from '@/lib/presale-refunds';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -33,6 +37,24 @@ export const dynamic = 'force-dynamic';
 const SOLANA_RPC_URL = process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com';
 const ESCROW_PRIVATE_KEY = process.env.ESCROW_PRIVATE_KEY;
 
+// Withdrawal (taxed) or refund amounts - the same quote for the GET preview and the POST payout
+async function quotePayout(
+  connection: Connection,
+  amountSol: number,
+  taxBps: number | null // Current withdrawal tax rate - null for a refund
+): Promise<WithdrawalQuote> {
+  const escrow = new PublicKey(ESCROW_WALLET);
+  const amountLamports = solToLamports(amountSol);
+  
+  if (taxBps !== null) {
+    const { taxAmount } = calculateWithdrawalTax(amountSol, taxBps);
+    return quoteWithdrawal(connection, escrow, amountLamports, Math.floor(taxAmount * LAMPORTS_PER_SOL));
+  }
+  
+  const refund = await quoteRefund(connection, escrow, amountLamports);
+  return { ...refund, amount_lamports: amountLamports, tax_lamports: 0 };
+}
+
 // GET - Calculate withdrawal/refund amounts before executing
 export async function GET(
   req: Request,
@@ -42,6 +64,7 @@ export async function GET(
     const { id } = params;
     const url = new URL(req.url);
     const wallet = url.searchParams.get('wallet');
+    const amount = url.searchParams.get('amount'); // Optional partial withdrawal (SOL)
     
     if (!wallet) {
       return NextResponse.json({
@@ -50,6 +73,8 @@ export async function GET(
       }, { status: 400 });
     }
     
+    // Close it first if it just expired - at its soft cap it launches instead of refunding
+    await checkExpiredPresales();
     const presale = await getPresaleById(id);
     
     if (!presale) {
@@ -76,8 +101,7 @@ export async function GET(
     }
     
     const isActivePresale = presale.status === 'active' && new Date(presale.expires_at) > new Date();
-    const isFailedPresale = presale.status === 'failed' || 
-      (presale.status === 'active' && new Date(presale.expires_at) < new Date());
+    const isFailedPresale = presale.status === 'failed' || presale.status === 'refunding' || presale.status === 'cancelled';
     
     if (!isActivePresale && !isFailedPresale) {
       return NextResponse.json({
@@ -86,31 +110,37 @@ export async function GET(
       }, { status: 400 });
     }
     
-    // Calculate amounts
-    const amountSol = participant.amount_sol;
-    let taxAmount = 0;
-    let returnAmount = amountSol;
-    const txFeeSol = 0.000005; // ~5000 lamports for tx fee
-    
-    if (isActivePresale) {
-      // Withdrawal with 5% tax
-      const taxCalc = calculateWithdrawalTax(amountSol);
-      taxAmount = taxCalc.taxAmount;
-      returnAmount = taxCalc.returnAmount - txFeeSol;
-    } else {
-      // Full refund (minus tx fee)
-      returnAmount = amountSol - txFeeSol;
+    // Refunds always return everything - only a withdrawal can be partial
+    const amountSol = isActivePresale && amount ? parseFloat(amount) : participant.amount_sol;
+    const amountError = withdrawalAmountError(presale, participant, solToLamports(amountSol));
+    if (amountError) {
+      return NextResponse.json({
+        success: false,
+        error: amountError,
+      }, { status: 400 });
     }
     
+    // Priced exactly as POST will send it (the rate moves over time on a graced, decaying or rising schedule)
+    const taxBps = isActivePresale ? withdrawalTaxBpsAt(presale.withdrawal_tax, presale.created_at, presale.expires_at) : null;
+    const connection = new Connection(SOLANA_RPC_URL, 'confirmed');
+    const quote = await quotePayout(connection, amountSol, taxBps);
+    
     return NextResponse.json({
       success: true,
       presale_status: presale.status,
       is_active: isActivePresale,
       is_failed: isFailedPresale,
-      original_amount: amountSol,
-      tax_percent: isActivePresale ? PRESALE_CONFIG.WITHDRAWAL_TAX_BPS / 100 : 0,
-      tax_amount: taxAmount,
-      return_amount: returnAmount,
+      original_amount: participant.amount_sol,
+      withdraw_amount: amountSol,
+      remaining_amount: (solToLamports(participant.amount_sol) - quote.amount_lamports) / LAMPORTS_PER_SOL,
+      min_remaining_amount: presale.min_sol_per_wallet,
+      tax_percent: (taxBps ?? 0) / 100,
+      tax_schedule: presale.withdrawal_tax || DEFAULT_WITHDRAWAL_TAX,
+      tax_amount: quote.tax_lamports / LAMPORTS_PER_SOL,
+      return_amount: quote.lamports / LAMPORTS_PER_SOL,
+      network_fee: quote.fee.fee_lamports / LAMPORTS_PER_SOL,
+      network_fee_paid_by: quote.fee.paid_by,
+      priority_fee_micro_lamports: quote.fee.priority_fee_micro_lamports,
       tax_wallet: isActivePresale ? TAX_WALLET : null,
     });
     
@@ -129,7 +159,7 @@ export async function POST(
 ) {
   try {
     const { id } = params;
-    const { wallet } = await req.json();
+    const { wallet, amount_sol } = await req.json();
     
     if (!wallet) {
       return NextResponse.json({
@@ -138,7 +168,18 @@ export async function POST(
       }, { status: 400 });
     }
     
+    // Only the participant can withdraw or refund their own deposit
+    const auth = await requireWalletSession(req, wallet);
+    if (!auth.success) {
+      return NextResponse.json({
+        success: false,
+        error: auth.error,
+      }, { status: auth.status });
+    }
+    
     // Get presale
+    // Close it first if it just expired - at its soft cap it launches instead of refunding
+    await checkExpiredPresales();
     const presale = await getPresaleById(id);
     
     if (!presale) {
@@ -151,13 +192,7 @@ export async function POST(
     // Determine if this is an active withdrawal or failed refund
     const now = new Date();
     const isActivePresale = presale.status === 'active' && new Date(presale.expires_at) > now;
-    const isFailedPresale = presale.status === 'failed' || presale.status === 'refunding' ||
-      (presale.status === 'active' && new Date(presale.expires_at) < now);
-    
-    // Update status if just expired
-    if (presale.status === 'active' && new Date(presale.expires_at) < now) {
-      await updatePresaleStatus(id, 'failed');
-    }
+    const isFailedPresale = presale.status === 'failed' || presale.status === 'refunding' || presale.status === 'cancelled';
     
     if (!isActivePresale && !isFailedPresale) {
       return NextResponse.json({
@@ -208,75 +243,77 @@ export async function POST(
     }
     
     const amountSol = participant.amount_sol;
-    const amountLamports = Math.floor(amountSol * LAMPORTS_PER_SOL);
+    
+    // Only a withdrawal can be partial - a refund returns everything
+    const withdrawSol = isActivePresale && amount_sol !== undefined ? parseFloat(amount_sol) : amountSol;
+    const amountError = withdrawalAmountError(presale, participant, solToLamports(withdrawSol));
+    if (amountError) {
+      return NextResponse.json({
+        success: false,
+        error: amountError,
+      }, { status: 400 });
+    }
     
     try {
-      const connection = new Connection(SOLANA_RPC_URL, 'confirmed');
-      const escrowKeypair = Keypair.fromSecretKey(bs58.decode(ESCROW_PRIVATE_KEY));
-      const recipientPubkey = new PublicKey(wallet);
-      
-      // Check escrow balance first
-      const escrowBalance = await connection.getBalance(escrowKeypair.publicKey);
-      
       if (isActivePresale) {
         // ========================================
-        // ACTIVE PRESALE - WITHDRAWAL WITH 5% TAX
+        // ACTIVE PRESALE - WITHDRAWAL WITH SCHEDULED TAX
         // ========================================
-        console.log('[Presale] Processing withdrawal with tax for:', wallet, amountSol, 'SOL');
+        // Recorded as a payout intent before it is sent - a retried request resumes it instead of paying again
+        console.log('[Presale] Processing withdrawal with tax for:', wallet, withdrawSol, 'of', amountSol, 'SOL');
         
-        const { taxAmount, returnAmount } = calculateWithdrawalTax(amountSol);
-        const taxLamports = Math.floor(taxAmount * LAMPORTS_PER_SOL);
-        const returnLamports = Math.floor(returnAmount * LAMPORTS_PER_SOL) - 10000; // Extra buffer for 2 transfers
+        const connection = new Connection(SOLANA_RPC_URL, 'confirmed');
+        const escrowKeypair = Keypair.fromSecretKey(bs58.decode(ESCROW_PRIVATE_KEY));
         
-        if (returnLamports <= 0) {
+        const taxBps = withdrawalTaxBpsAt(presale.withdrawal_tax, presale.created_at, presale.expires_at, now);
+        const quote = await quotePayout(connection, withdrawSol, taxBps);
+        
+        if (quote.lamports <= 0) {
           return NextResponse.json({
             success: false,
             error: 'Withdrawal amount too small after tax and fees',
           }, { status: 400 });
         }
         
-        if (escrowBalance < amountLamports + 10000) {
-          console.error('[Presale] Insufficient escrow balance:', escrowBalance / LAMPORTS_PER_SOL, 'SOL');
+        const payout = await payWithdrawal(connection, escrowKeypair, {
+          presale_id: id,
+          wallet,
+          quote,
+        });
+        
+        if (payout.outcome === 'shortfall') {
           return NextResponse.json({
             success: false,
-            error: 'Insufficient escrow balance. Contact support.',
-          }, { status: 500 });
+            error: 'Escrow balance is temporarily short for this payout. It has been flagged for reconciliation - your deposit is still recorded, please retry shortly.',
+            retryable: true,
+          }, { status: 503 });
         }
         
-        // Create transaction with 2 transfers: 1 to user, 1 to tax wallet
-        const taxPubkey = new PublicKey(TAX_WALLET);
+        if (payout.outcome === 'skipped' || payout.outcome === 'in_flight') {
+          return NextResponse.json({
+            success: false,
+            status: 'pending',
+            retryable: true,
+            error: 'Your withdrawal is already being sent. Please check back shortly.',
+            withdraw_signature: payout.intent?.signature,
+          }, { status: 202 });
+        }
         
-        const transaction = new Transaction()
-          .add(
-            // Send tax to tax wallet
-            SystemProgram.transfer({
-              fromPubkey: escrowKeypair.publicKey,
-              toPubkey: taxPubkey,
-              lamports: taxLamports,
-            })
-          )
-          .add(
-            // Send remainder to user
-            SystemProgram.transfer({
-              fromPubkey: escrowKeypair.publicKey,
-              toPubkey: recipientPubkey,
-              lamports: returnLamports,
-            })
-          );
+        if (payout.outcome !== 'confirmed' || !payout.intent) {
+          return NextResponse.json({
+            success: false,
+            error: `Withdrawal failed: ${payout.error || 'please retry shortly'}`,
+          }, { status: 500 });
+        }
         
-        // Send transaction
-        const signature = await sendAndConfirmTransaction(
-          connection,
-          transaction,
-          [escrowKeypair],
-          { commitment: 'confirmed' }
-        );
+        // A resumed payout pays what it was signed with
+        const signature = payout.intent.signature;
+        const withdrawnLamports = payout.intent.amount_lamports ?? solToLamports(amountSol);
+        const paidTax = payout.intent.tax_lamports / LAMPORTS_PER_SOL;
+        const paidReturn = payout.intent.lamports / LAMPORTS_PER_SOL;
         
         console.log('[Presale] Withdrawal sent:', signature);
-        console.log('[Presale] Tax:', taxAmount, 'SOL | Return:', returnLamports / LAMPORTS_PER_SOL, 'SOL');
-        
-        // Mark as withdrawn
-        await markParticipantWithdrawn(id, wallet, signature, taxAmount);
+        console.log('[Presale] Tax:', paidTax, 'SOL | Return:', paidReturn, 'SOL');
         
         return NextResponse.json({
           success: true,
@@ -284,9 +321,12 @@ export async function POST(
           message: 'Withdrawal successful!',
           withdrawal: {
             original_amount_sol: amountSol,
-            tax_percent: PRESALE_CONFIG.WITHDRAWAL_TAX_BPS / 100,
-            tax_amount_sol: taxAmount,
-            return_amount_sol: returnLamports / LAMPORTS_PER_SOL,
+            withdrawn_amount_sol: withdrawnLamports / LAMPORTS_PER_SOL,
+            remaining_amount_sol: (solToLamports(amountSol) - withdrawnLamports) / LAMPORTS_PER_SOL,
+            partial: withdrawnLamports < solToLamports(amountSol),
+            tax_percent: Math.round((payout.intent.tax_lamports / withdrawnLamports) * 10000) / 100,
+            tax_amount_sol: paidTax,
+            return_amount_sol: paidReturn,
             signature,
             explorer_url: `https://solscan.io/tx/${signature}`,
           },
@@ -296,59 +336,45 @@ export async function POST(
         // ========================================
         // FAILED PRESALE - FULL REFUND (NO TAX)
         // ========================================
+        // Same path as the refund worker, so a refund it already has in flight is never paid twice
         console.log('[Presale] Processing refund for:', wallet, amountSol, 'SOL');
         
-        // Calculate refund amount (subtract small fee for transaction)
-        const refundLamports = amountLamports - 5000; // 5000 lamports for tx fee
+        const refund = await refundParticipantNow(id, wallet);
         
-        if (refundLamports <= 0) {
+        if (refund.outcome === 'shortfall') {
           return NextResponse.json({
             success: false,
-            error: 'Refund amount too small after fees',
-          }, { status: 400 });
+            error: 'Escrow balance is temporarily short for this payout. It has been flagged for reconciliation - your deposit is still recorded, please retry shortly.',
+            retryable: true,
+          }, { status: 503 });
         }
         
-        if (escrowBalance < refundLamports + 5000) {
-          console.error('[Presale] Insufficient escrow balance:', escrowBalance / LAMPORTS_PER_SOL, 'SOL');
+        if (refund.outcome === 'skipped' || refund.outcome === 'in_flight') {
           return NextResponse.json({
             success: false,
-            error: 'Insufficient escrow balance. Contact support.',
-          }, { status: 500 });
+            status: 'pending',
+            retryable: true,
+            error: 'Your refund is already being sent. Please check back shortly.',
+            refund_signature: refund.participant?.refund_signature,
+          }, { status: 202 });
         }
         
-        // Create transfer transaction
-        const transaction = new Transaction().add(
-          SystemProgram.transfer({
-            fromPubkey: escrowKeypair.publicKey,
-            toPubkey: recipientPubkey,
-            lamports: refundLamports,
-          })
-        );
-        
-        // Send transaction
-        const signature = await sendAndConfirmTransaction(
-          connection,
-          transaction,
-          [escrowKeypair],
-          { commitment: 'confirmed' }
-        );
+        if (refund.outcome !== 'confirmed' || !refund.participant) {
+          return NextResponse.json({
+            success: false,
+            error: `Refund failed: ${refund.error || 'please retry shortly'}`,
+          }, { status: 500 });
+        }
         
+        const signature = refund.participant.refund_signature!;
         console.log('[Presale] Refund sent:', signature);
         
-        // Mark as refunded
-        await markParticipantRefunded(id, wallet, signature);
-        
-        // Update presale status to refunding if not already
-        if (presale.status === 'failed') {
-          await updatePresaleStatus(id, 'refunding');
-        }
-        
         return NextResponse.json({
           success: true,
           type: 'refund',
           message: 'Refund sent successfully!',
           refund: {
-            amount_sol: refundLamports / LAMPORTS_PER_SOL,
+            amount_sol: (refund.participant.refund_lamports || 0) / LAMPORTS_PER_SOL,
             signature,
             explorer_url: `https://solscan.io/tx/${signature}`,
           },
@@ -6,9 +6,20 @@ import {
   getPresaleById, 
   getPresaleParticipants,
   getParticipantByWallet,
+  getOrphanedDeposits,
   checkExpiredPresales,
 } from '@/lib/presale-db';
-import { ESCROW_WALLET } from '@/lib/constants';
+import { orphanRefundView } from '@/lib/orphan-refunds';
+import {
+  ESCROW_WALLET,
+  DEFAULT_WITHDRAWAL_TAX,
+  DEFAULT_LAUNCH_BUDGET,
+  withdrawalTaxBpsAt,
+  allocateLaunchBudget,
+  softCapReached,
+} from '@/lib/constants';
+import { solToLamports } from '@/lib/presale-events';
+import { requireWalletSession } from '@/lib/wallet-auth';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -44,6 +55,13 @@ export async function GET(
     
     // Check if expired but not yet marked
     const isExpired = presale.status === 'active' && timeRemainingMs <= 0;
+    const reachedSoftCap = softCapReached(presale.soft_cap, presale.participant_count, presale.total_sol);
+    
+    // Fixed when the launch starts - until then, what the budget would do with the SOL raised so far
+    const allocation = presale.launch_state?.allocation;
+    const returnedLamports = participants
+      .filter(p => p.distribution_status === 'confirmed')
+      .reduce((sum, p) => sum + (p.distribution_return_lamports || 0), 0);
     
     return NextResponse.json({
       success: true,
@@ -59,28 +77,62 @@ export async function GET(
         min_sol: presale.min_sol_per_wallet,
         max_sol: presale.max_sol_per_wallet,
         target_participants: presale.target_participants,
-        status: isExpired ? 'failed' : presale.status,
+        status: isExpired ? (reachedSoftCap ? 'launching' : 'failed') : presale.status,
         created_at: presale.created_at,
         expires_at: presale.expires_at,
         time_remaining_seconds: timeRemainingSeconds,
         total_sol: presale.total_sol,
         participant_count: presale.participant_count,
         progress_percent: Math.round((presale.participant_count / presale.target_participants) * 100),
+        // Minimum to launch unfilled at expiry (null: launches only when full)
+        soft_cap: presale.soft_cap || null,
+        soft_cap_reached: reachedSoftCap,
+        // Early withdrawal tax - the schedule and the rate a withdrawal would pay right now
+        withdrawal_tax: presale.withdrawal_tax || DEFAULT_WITHDRAWAL_TAX,
+        withdrawal_tax_bps: presale.status === 'active' && !isExpired
+          ? withdrawalTaxBpsAt(presale.withdrawal_tax, presale.created_at, presale.expires_at)
+          : 0,
         // Token info (if launched)
         token_mint: presale.token_mint,
         launch_signature: presale.launch_signature,
+        // Launch progress (launching / launch_failed) - a retry resumes after the completed steps
+        launch_progress: presale.launch_state && {
+          completed_steps: presale.launch_state.completed_steps,
+          failed_step: presale.launch_state.failed_step,
+          error: presale.launch_state.error,
+          attempts: presale.launch_state.attempts,
+        },
+        // How the raised SOL is spent at launch, and where each bucket went
+        launch_budget: presale.launch_budget || DEFAULT_LAUNCH_BUDGET,
+        launch_allocation: {
+          ...(allocation || allocateLaunchBudget(presale.launch_budget, solToLamports(presale.total_sol))),
+          fixed: !!allocation,
+          fund_signature: presale.launch_state?.fund_tx?.confirmed ? presale.launch_state.fund_tx.signature : undefined,
+          initial_buy_signature: presale.launch_signature,
+          returned_lamports: returnedLamports,
+        },
+        // Initial-buy tokens and returned SOL shared out to participants (once launched)
+        token_distribution: presale.token_distribution,
+        // Cancellation (if cancelled by the creator)
+        cancelled_at: presale.cancelled_at,
+        cancel_reason: presale.cancel_reason,
+        launch_fee_forfeited: presale.launch_fee_forfeited,
       },
       participants: participants.map(p => ({
         wallet: p.wallet,
         amount_sol: p.amount_sol,
         joined_at: p.joined_at,
+        tokens_amount: p.distribution_amount, // Raw units of their initial-buy share
+        returned_lamports: p.distribution_return_lamports, // Their share of the participant return
+        tokens_status: p.distribution_status,
         // Hide full wallet, show truncated
         wallet_short: `${p.wallet.slice(0, 4)}...${p.wallet.slice(-4)}`,
       })),
       escrow_wallet: ESCROW_WALLET,
       can_join: presale.status === 'active' && !isExpired && presale.participant_count < presale.target_participants,
-      can_refund: presale.status === 'failed' || presale.status === 'refunding',
+      can_refund: presale.status === 'failed' || presale.status === 'refunding' || presale.status === 'cancelled',
       is_full: presale.participant_count >= presale.target_participants,
+      can_retry_launch: presale.status === 'launch_failed',
     });
     
   } catch (e: any) {
@@ -102,7 +154,16 @@ export async function POST(
     const { wallet, action } = await req.json();
     
     if (action === 'check_participation') {
+      const auth = await requireWalletSession(req, wallet);
+      if (!auth.success) {
+        return NextResponse.json({
+          success: false,
+          error: auth.error,
+        }, { status: auth.status });
+      }
+      
       const participant = await getParticipantByWallet(id, wallet);
+      const orphans = await getOrphanedDeposits({ presale_id: id, wallet });
       return NextResponse.json({
         success: true,
         has_joined: !!participant && participant.confirmed,
@@ -112,6 +173,8 @@ export async function POST(
           confirmed: participant.confirmed,
           refunded: participant.refunded,
         } : null,
+        // Deposits that could not be counted and their refund status
+        orphaned_deposits: orphans.map(orphanRefundView),
       });
     }
     
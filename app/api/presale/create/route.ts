@@ -7,8 +7,15 @@ import { createPresale } from '@/lib/presale-db';
 import { 
   PRESALE_CONFIG, 
   LAUNCHER_WALLET, 
-  isValidDuration 
+  isValidDuration,
+  parseWithdrawalTaxSchedule,
+  withdrawalTaxBpsAt,
+  DEFAULT_WITHDRAWAL_TAX,
+  parseLaunchBudget,
+  DEFAULT_LAUNCH_BUDGET,
+  parseSoftCap,
 } from '@/lib/constants';
+import { requireWalletSession } from '@/lib/wallet-auth';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -95,6 +102,9 @@ export async function POST(req: Request) {
       max_sol_per_wallet,
       duration_minutes,
       target_participants, // 1-68
+      withdrawal_tax, // Optional schedule - defaults to the flat platform rate
+      launch_budget, // Optional - how the raised SOL is spent at launch, defaults to DEFAULT_LAUNCH_BUDGET
+      soft_cap, // Optional - minimum to launch unfilled at expiry, defaults to none (launches only when full)
       launch_fee_signature, // Required
     } = body;
     
@@ -106,6 +116,15 @@ export async function POST(req: Request) {
       }, { status: 400 });
     }
     
+    // Presales are created for the signed-in wallet only
+    const auth = await requireWalletSession(req, creator_wallet);
+    if (!auth.success) {
+      return NextResponse.json({
+        success: false,
+        error: auth.error,
+      }, { status: auth.status });
+    }
+    
     // Validate launch fee signature is provided
     if (!launch_fee_signature) {
       return NextResponse.json({
@@ -135,6 +154,41 @@ export async function POST(req: Request) {
       }, { status: 400 });
     }
     
+    // Validate withdrawal tax schedule
+    const withdrawalTax = parseWithdrawalTaxSchedule(withdrawal_tax || DEFAULT_WITHDRAWAL_TAX, duration);
+    if (withdrawalTax.error) {
+      return NextResponse.json({
+        success: false,
+        error: withdrawalTax.error,
+        max_withdrawal_tax_bps: PRESALE_CONFIG.MAX_WITHDRAWAL_TAX_BPS,
+        max_tax_grace_minutes: PRESALE_CONFIG.MAX_TAX_GRACE_MINUTES,
+      }, { status: 400 });
+    }
+    
+    // Validate launch budget (bps per bucket, adding up to 10000)
+    const launchBudget = parseLaunchBudget(launch_budget || DEFAULT_LAUNCH_BUDGET);
+    if (launchBudget.error) {
+      return NextResponse.json({
+        success: false,
+        error: launchBudget.error,
+      }, { status: 400 });
+    }
+    
+    // Validate soft cap (below this presale's target and what it can raise)
+    const minSol = parseFloat(min_sol_per_wallet) || PRESALE_CONFIG.DEFAULT_MIN_SOL;
+    const maxSol = parseFloat(max_sol_per_wallet) || PRESALE_CONFIG.DEFAULT_MAX_SOL;
+    const softCap = parseSoftCap(soft_cap, {
+      target_participants: targetParts,
+      min_sol_per_wallet: minSol,
+      max_sol_per_wallet: maxSol,
+    });
+    if (softCap.error) {
+      return NextResponse.json({
+        success: false,
+        error: softCap.error,
+      }, { status: 400 });
+    }
+    
     // Validate symbol
     if (token_symbol.length > 10) {
       return NextResponse.json({
@@ -169,10 +223,13 @@ export async function POST(req: Request) {
       image_url,
       twitter,
       website,
-      min_sol_per_wallet: parseFloat(min_sol_per_wallet) || PRESALE_CONFIG.DEFAULT_MIN_SOL,
-      max_sol_per_wallet: parseFloat(max_sol_per_wallet) || PRESALE_CONFIG.DEFAULT_MAX_SOL,
+      min_sol_per_wallet: minSol,
+      max_sol_per_wallet: maxSol,
       duration_minutes: duration,
       target_participants: targetParts,
+      withdrawal_tax: withdrawalTax.schedule,
+      launch_budget: launchBudget.budget,
+      soft_cap: softCap.soft_cap,
       launch_fee_signature,
     });
     
@@ -185,7 +242,10 @@ export async function POST(req: Request) {
         max_wallets: targetParts + 1, // participants + creator
         target_participants: targetParts,
         creator_allocation_percent: PRESALE_CONFIG.CREATOR_ALLOCATION_BPS / 100,
-        withdrawal_tax_percent: PRESALE_CONFIG.WITHDRAWAL_TAX_BPS / 100,
+        withdrawal_tax_percent: withdrawalTaxBpsAt(presale.withdrawal_tax, presale.created_at, presale.expires_at) / 100,
+        withdrawal_tax: presale.withdrawal_tax,
+        launch_budget: presale.launch_budget,
+        soft_cap: presale.soft_cap || null,
         duration_options: PRESALE_CONFIG.DURATION_OPTIONS,
         launch_fee_sol: PRESALE_CONFIG.LAUNCH_FEE_SOL,
       },
@@ -211,6 +271,19 @@ export async function GET() {
       default_participants: PRESALE_CONFIG.DEFAULT_PARTICIPANTS,
       creator_allocation_percent: PRESALE_CONFIG.CREATOR_ALLOCATION_BPS / 100,
       withdrawal_tax_percent: PRESALE_CONFIG.WITHDRAWAL_TAX_BPS / 100,
+      min_withdrawal_tax_percent: PRESALE_CONFIG.MIN_WITHDRAWAL_TAX_BPS / 100,
+      max_withdrawal_tax_percent: PRESALE_CONFIG.MAX_WITHDRAWAL_TAX_BPS / 100,
+      max_tax_grace_minutes: PRESALE_CONFIG.MAX_TAX_GRACE_MINUTES,
+      // Launch budget bounds (bps of the SOL raised)
+      default_launch_budget: DEFAULT_LAUNCH_BUDGET,
+      launch_budget_bounds: {
+        initial_buy_bps: [PRESALE_CONFIG.MIN_INITIAL_BUY_BPS, PRESALE_CONFIG.MAX_INITIAL_BUY_BPS],
+        participant_return_bps: [PRESALE_CONFIG.MIN_PARTICIPANT_RETURN_BPS, PRESALE_CONFIG.MAX_PARTICIPANT_RETURN_BPS],
+        platform_fee_bps: [PRESALE_CONFIG.MIN_PLATFORM_FEE_BPS, PRESALE_CONFIG.MAX_PLATFORM_FEE_BPS],
+        network_reserve_bps: [PRESALE_CONFIG.MIN_NETWORK_RESERVE_BPS, PRESALE_CONFIG.MAX_NETWORK_RESERVE_BPS],
+      },
+      // Soft cap: participants below the target, or SOL from one minimum deposit to below a full raise
+      min_soft_cap_participants: PRESALE_CONFIG.MIN_SOFT_CAP_PARTICIPANTS,
       duration_options: PRESALE_CONFIG.DURATION_OPTIONS,
       launch_fee_sol: PRESALE_CONFIG.LAUNCH_FEE_SOL,
       launcher_wallet: LAUNCHER_WALLET,
@@ -0,0 +1,45 @@
+// app/api/presale/events/route.ts
+// Audit ledger for a wallet across all presales
+
+import { NextResponse } from 'next/server';
+import { getWalletEvents } from '@/lib/presale-events';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// GET - List every recorded event for ?wallet= (oldest first)
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const wallet = searchParams.get('wallet');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '500'), 1000);
+    const offset = parseInt(searchParams.get('offset') || '0');
+    
+    if (!wallet) {
+      return NextResponse.json({
+        success: false,
+        error: 'Missing wallet address',
+      }, { status: 400 });
+    }
+    
+    const events = await getWalletEvents(wallet, limit, offset);
+    
+    return NextResponse.json({
+      success: true,
+      wallet,
+      events,
+      pagination: {
+        limit,
+        offset,
+        count: events.length,
+      },
+    });
+    
+  } catch (e: any) {
+    console.error('[Presale Events] Error:', e.message);
+    return NextResponse.json({
+      success: false,
+      error: e.message || 'Failed to load events',
+    }, { status: 500 });
+  }
+}
@@ -2,51 +2,108 @@
 // List presales and finalize launch after creator signature
 
 import { NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
 import { Connection, VersionedTransaction } from '@solana/web3.js';
 import { 
-  getAllPresales, 
-  getActivePresales,
+  queryPresales,
   getPresaleStats,
   checkExpiredPresales,
   getPresaleById,
   updatePresaleStatus,
   forceSavePresaleDb,
+  acquireLaunchLease,
+  releaseLaunchLease,
+  saveLaunchProgress,
+  PRESALE_STATUSES,
+  type PresaleStatus,
+  type LaunchStep,
 } from '@/lib/presale-db';
+import { PRESALE_SORTS, isPresaleSort, type PresaleSort } from '@/lib/presale-query';
+import { recordPresaleEvent } from '@/lib/presale-events';
+import { runTokenDistributions } from '@/lib/token-distribution';
 import { insertToken } from '@/lib/database';
+import { requireWalletSession } from '@/lib/wallet-auth';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 const SOLANA_RPC_URL = process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com';
 
+// Launch steps that must be done before the creator may finalize the launch tx
+const FINALIZE_AFTER_STEPS: LaunchStep[] = ['metadata', 'fee_share', 'config_txs', 'fund'];
+
 // GET - List presales
+// ?filter=all|active|launched|failed|refunding|refunded (comma separated), ?creator=, ?q= (name/symbol search),
+// ?created_after= / ?created_before= (ISO), ?sort=newest|ending_soon|most_filled|most_sol, ?cursor=, ?limit=
+// ?offset= still pages by position for older clients - use it or cursor, not both
 export async function GET(req: Request) {
   try {
     const { searchParams } = new URL(req.url);
-    const filter = searchParams.get('filter') || 'all'; // all, active, launched, failed
-    const limit = parseInt(searchParams.get('limit') || '50');
-    const offset = parseInt(searchParams.get('offset') || '0');
+    const filter = searchParams.get('filter') || 'all';
+    const sortParam = searchParams.get('sort');
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50') || 50, 1), 100);
+    const cursor = searchParams.get('cursor') || undefined;
+    const offsetParam = searchParams.get('offset') || undefined;
+    const offset = offsetParam === undefined ? undefined : parseInt(offsetParam);
+    
+    if (offsetParam !== undefined && !/^\d+$/.test(offsetParam)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid offset. Must be a non-negative integer',
+      }, { status: 400 });
+    }
+    
+    if (offset !== undefined && cursor) {
+      return NextResponse.json({
+        success: false,
+        error: 'Use either cursor or offset, not both',
+      }, { status: 400 });
+    }
+    
+    if (sortParam && !isPresaleSort(sortParam)) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid sort. Must be one of: ${PRESALE_SORTS.join(', ')}`,
+      }, { status: 400 });
+    }
+    
+    const statuses = filter === 'all' ? [] : filter.split(',');
+    const invalidStatus = statuses.find(st => !PRESALE_STATUSES.includes(st as PresaleStatus));
+    if (invalidStatus) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid filter: ${invalidStatus}`,
+      }, { status: 400 });
+    }
     
     // Check expired presales
     await checkExpiredPresales();
     
-    let presales;
-    
-    if (filter === 'active') {
-      presales = await getActivePresales();
-    } else {
-      presales = await getAllPresales(limit, offset);
-      
-      if (filter !== 'all') {
-        presales = presales.filter(p => p.status === filter);
-      }
+    let result;
+    try {
+      result = await queryPresales({
+        status: statuses.length > 0 ? statuses as PresaleStatus[] : undefined,
+        creator_wallet: searchParams.get('creator') || undefined,
+        created_after: searchParams.get('created_after') || undefined,
+        created_before: searchParams.get('created_before') || undefined,
+        search: searchParams.get('q') || undefined,
+        sort: sortParam ? sortParam as PresaleSort : undefined,
+        cursor,
+        limit,
+        offset,
+      });
+    } catch (queryError: any) {
+      return NextResponse.json({
+        success: false,
+        error: queryError.message,
+      }, { status: 400 });
     }
     
     const stats = await getPresaleStats();
     
     return NextResponse.json({
       success: true,
-      presales: presales.map(p => ({
+      presales: result.presales.map(p => ({
         id: p.id,
         token_name: p.token_name,
         token_symbol: p.token_symbol,
@@ -64,8 +121,11 @@ export async function GET(req: Request) {
       stats,
       pagination: {
         limit,
-        offset,
-        total: stats.total,
+        ...(offset !== undefined && { offset }),
+        sort: sortParam || 'newest',
+        total: result.total,
+        next_cursor: result.next_cursor,
+        has_more: result.next_cursor !== null,
       },
     });
     
@@ -107,6 +167,15 @@ export async function POST(req: Request) {
       }, { status: 404 });
     }
     
+    // Only the creator finalizes their launch
+    const auth = await requireWalletSession(req, presale.creator_wallet);
+    if (!auth.success) {
+      return NextResponse.json({
+        success: false,
+        error: auth.error,
+      }, { status: auth.status });
+    }
+    
     if (presale.status === 'launched') {
       return NextResponse.json({
         success: false,
@@ -115,35 +184,110 @@ export async function POST(req: Request) {
       }, { status: 400 });
     }
     
-    // Verify transaction on chain
-    console.log('[Presale] Verifying launch transaction:', signature);
+    // Only a launch that failed at its launch tx can be finalized - every step before it done, and the
+    // signature the one that launch saved (anything else is resumed by retrying the launch instead)
+    const state = presale.launch_state;
+    if (presale.status !== 'launch_failed' || !presale.token_mint || !state) {
+      return NextResponse.json({
+        success: false,
+        error: `Presale is ${presale.status}, nothing to finalize`,
+      }, { status: 409 });
+    }
+    
+    const pending = FINALIZE_AFTER_STEPS.filter(s => !state.completed_steps.includes(s));
+    if (pending.length > 0) {
+      return NextResponse.json({
+        success: false,
+        error: `Launch has not completed: ${pending.join(', ')}`,
+      }, { status: 409 });
+    }
     
-    const connection = new Connection(SOLANA_RPC_URL, 'confirmed');
+    const launchTx = state.launch_tx;
+    if (!launchTx || launchTx.signature !== signature) {
+      return NextResponse.json({
+        success: false,
+        error: 'Signature is not this presale\'s launch transaction',
+      }, { status: 400 });
+    }
+    
+    // Hold the launch lease so a retried launch can't run alongside
+    const holder = `finalize:${randomUUID()}`;
+    const { acquired } = await acquireLaunchLease(presale_id, holder);
+    if (!acquired) {
+      return NextResponse.json({
+        success: false,
+        error: 'A launch is already in progress',
+      }, { status: 409 });
+    }
     
     try {
-      // Wait for confirmation
-      const confirmation = await connection.confirmTransaction(signature, 'confirmed');
+      // A launch may have moved on between the checks above and taking the lease
+      const current = await getPresaleById(presale_id);
+      if (current?.status !== 'launch_failed' || current.launch_state?.launch_tx?.signature !== signature) {
+        return NextResponse.json({
+          success: false,
+          error: 'Launch state changed - reload and try again',
+        }, { status: 409 });
+      }
       
-      if (confirmation.value.err) {
+      // Verify transaction on chain
+      console.log('[Presale] Verifying launch transaction:', signature);
+      
+      const connection = new Connection(SOLANA_RPC_URL, 'confirmed');
+      let status;
+      try {
+        ({ value: [status] } = await connection.getSignatureStatuses([signature], { searchTransactionHistory: true }));
+      } catch (txError: any) {
+        console.error('[Presale] Transaction verification error:', txError.message);
+        return NextResponse.json({
+          success: false,
+          error: 'Could not verify launch transaction - try again',
+        }, { status: 409 });
+      }
+      
+      if (status?.err) {
         return NextResponse.json({
           success: false,
           error: 'Launch transaction failed on-chain',
         }, { status: 400 });
       }
+      if (!status || status.confirmationStatus === 'processed') {
+        return NextResponse.json({
+          success: false,
+          error: 'Launch transaction has not confirmed',
+        }, { status: 409 });
+      }
       
       console.log('[Presale] Launch transaction confirmed!');
       
-    } catch (txError: any) {
-      console.error('[Presale] Transaction verification error:', txError.message);
-      // Continue anyway - the signature might still be valid
+      await saveLaunchProgress(presale_id, holder, {
+        state: { launch_tx: { ...launchTx, confirmed: true } },
+        completed_step: 'launch_tx',
+      });
+      
+      // Update presale status to launched
+      await updatePresaleStatus(presale_id, 'launched', {
+        launch_signature: signature,
+        launched_at: new Date().toISOString(),
+      });
+      await recordPresaleEvent({
+        presale_id,
+        type: 'launched',
+        actor_wallet: presale.creator_wallet,
+        tx_signatures: [signature],
+        details: { token_mint: presale.token_mint, finalized_by: 'creator' },
+      });
+      await forceSavePresaleDb();
+    } finally {
+      await releaseLaunchLease(presale_id, holder).catch(e => {
+        console.error('[Presale] Failed to release launch lease:', e.message);
+      });
     }
     
-    // Update presale status to launched
-    await updatePresaleStatus(presale_id, 'launched', {
-      launch_signature: signature,
-      launched_at: new Date().toISOString(),
+    // Not awaited - the distribution worker retries every transfer until it lands
+    runTokenDistributions().catch((e) => {
+      console.error('[Presale] Token distribution run failed:', e.message);
     });
-    forceSavePresaleDb();
     
     // Register token in our feed
     try {
@@ -5,13 +5,13 @@ import { useRouter, useParams } from 'next/navigation';
 import { useWallet, useConnection } from '@solana/wallet-adapter-react';
 import { WalletMultiButton } from '@solana/wallet-adapter-react-ui';
 import { 
-  PublicKey, 
   Transaction, 
-  SystemProgram, 
-  LAMPORTS_PER_SOL,
   VersionedTransaction,
 } from '@solana/web3.js';
 import bs58 from 'bs58';
+import { getWalletSession, getStoredSessionToken, authHeaders } from '@/lib/wallet-session';
+import { describeWithdrawalTax, describeSoftCap } from '@/lib/constants';
+import type { WithdrawalTaxSchedule, LaunchBudget, LaunchAllocation, SoftCap } from '@/lib/presale-types';
 
 interface Presale {
   id: string;
@@ -31,8 +31,30 @@ interface Presale {
   total_sol: number;
   participant_count: number;
   progress_percent: number;
+  soft_cap: SoftCap | null; // null = launches only when full
+  soft_cap_reached: boolean;
+  withdrawal_tax: WithdrawalTaxSchedule;
+  withdrawal_tax_bps: number;
   token_mint?: string;
   launch_signature?: string;
+  cancel_reason?: string;
+  launch_fee_forfeited?: boolean;
+  launch_budget: LaunchBudget;
+  launch_allocation: LaunchAllocation & {
+    fixed: boolean; // false = projected from the SOL raised so far
+    fund_signature?: string;
+    initial_buy_signature?: string;
+    returned_lamports: number;
+  };
+  token_distribution?: {
+    status: 'distributing' | 'distributed';
+  };
+  launch_progress?: {
+    completed_steps: string[];
+    failed_step?: string;
+    error?: string;
+    attempts: number;
+  };
 }
 
 interface Participant {
@@ -42,12 +64,22 @@ interface Participant {
   joined_at: string;
 }
 
+interface OrphanedDeposit {
+  deposit_signature: string;
+  lamports: number;
+  reason: string;
+  status: 'queued' | 'refunding' | 'refunded' | 'failed';
+  refund_lamports?: number;
+  refund_signature?: string;
+  updated_at: string;
+}
+
 export default function PresaleDetailPage() {
   const router = useRouter();
   const params = useParams();
   const presaleId = params.id as string;
   
-  const { publicKey, signTransaction, connected } = useWallet();
+  const { publicKey, signTransaction, signMessage, connected } = useWallet();
   const { connection } = useConnection();
   
   const [presale, setPresale] = useState<Presale | null>(null);
@@ -61,13 +93,16 @@ export default function PresaleDetailPage() {
   const [joining, setJoining] = useState(false);
   const [refunding, setRefunding] = useState(false);
   const [launching, setLaunching] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   
   const [joinAmount, setJoinAmount] = useState('0.5');
+  const [withdrawAmount, setWithdrawAmount] = useState(''); // Empty withdraws everything
   const [timeRemaining, setTimeRemaining] = useState(0);
   const [hasJoined, setHasJoined] = useState(false);
   const [myParticipation, setMyParticipation] = useState<any>(null);
+  const [myOrphans, setMyOrphans] = useState<OrphanedDeposit[]>([]);
 
   // Fetch presale data
   const fetchPresale = useCallback(async () => {
@@ -101,6 +136,19 @@ export default function PresaleDetailPage() {
         }
       }
       
+      // Deposits from this wallet that could not be counted (refunded automatically)
+      // Only once signed in - a background refresh never prompts the wallet
+      const token = publicKey ? getStoredSessionToken(publicKey.toBase58()) : null;
+      if (publicKey && token) {
+        const checkRes = await fetch(`/api/presale/${presaleId}`, {
+          method: 'POST',
+          headers: authHeaders(token),
+          body: JSON.stringify({ wallet: publicKey.toBase58(), action: 'check_participation' }),
+        });
+        const checkData = await checkRes.json();
+        setMyOrphans(checkData.orphaned_deposits || []);
+      }
+      
     } catch (e: any) {
       setError(e.message || 'Failed to load presale');
       setLoading(false);
@@ -158,9 +206,13 @@ export default function PresaleDetailPage() {
       return;
     }
     
+    // Joined wallets top up - the cap applies to the combined contribution
     const amount = parseFloat(joinAmount);
-    if (!presale || amount < presale.min_sol || amount > presale.max_sol) {
-      setError(`Amount must be between ${presale?.min_sol} and ${presale?.max_sol} SOL`);
+    const current = hasJoined ? myParticipation?.amount_sol || 0 : 0;
+    if (!presale || !(amount > 0) || (!hasJoined && amount < presale.min_sol) || current + amount > presale.max_sol) {
+      setError(hasJoined
+        ? `You can add up to ${presale ? Math.max(0, presale.max_sol - current) : 0} SOL more`
+        : `Amount must be between ${presale?.min_sol} and ${presale?.max_sol} SOL`);
       return;
     }
     
@@ -169,22 +221,21 @@ export default function PresaleDetailPage() {
     setSuccess(null);
     
     try {
-      // Create transaction to send SOL to escrow
-      const escrowPubkey = new PublicKey(escrowWallet);
-      const lamports = Math.floor(amount * LAMPORTS_PER_SOL);
-      
-      const transaction = new Transaction().add(
-        SystemProgram.transfer({
-          fromPubkey: publicKey,
-          toPubkey: escrowPubkey,
-          lamports,
-        })
+      const token = await getWalletSession(publicKey.toBase58(), signMessage);
+      
+      // Server builds the deposit tx (transfer tagged with a reference key + presale memo)
+      const depositRes = await fetch(
+        `/api/presale/${presaleId}/deposit-tx?wallet=${publicKey.toBase58()}&amount=${amount}`,
+        { headers: authHeaders(token) }
       );
+      const depositData = await depositRes.json();
+      if (!depositData.success) {
+        throw new Error(depositData.error || 'Failed to prepare deposit');
+      }
       
-      // Get recent blockhash
-      const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
-      transaction.recentBlockhash = blockhash;
-      transaction.feePayer = publicKey;
+      const transaction = Transaction.from(Buffer.from(depositData.transaction, 'base64'));
+      const blockhash: string = depositData.blockhash;
+      const lastValidBlockHeight: number = depositData.last_valid_block_height;
       
       // Sign transaction
       const signedTx = await signTransaction(transaction);
@@ -204,26 +255,43 @@ export default function PresaleDetailPage() {
       
       console.log('Deposit confirmed:', signature);
       
-      // Confirm with backend
-      const confirmRes = await fetch(`/api/presale/${presaleId}/join`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          wallet: publicKey.toBase58(),
-          amount_sol: amount,
-          tx_signature: signature,
-        }),
-      });
+      // Confirm with backend (retry while the server still reports the deposit as pending)
+      let confirmData: any = null;
+      for (let attempt = 0; attempt < 6; attempt++) {
+        const confirmRes = await fetch(`/api/presale/${presaleId}/join`, {
+          method: 'POST',
+          headers: authHeaders(token),
+          body: JSON.stringify({
+            wallet: publicKey.toBase58(),
+            amount_sol: amount,
+            tx_signature: signature,
+            reference: depositData.reference,
+          }),
+        });
+        
+        confirmData = await confirmRes.json();
+        if (confirmData.status !== 'pending') break;
+        
+        setSuccess('⏳ Waiting for the network to confirm your deposit...');
+        await new Promise(resolve => setTimeout(resolve, confirmData.retry_after_ms || 5000));
+      }
       
-      const confirmData = await confirmRes.json();
+      if (confirmData?.status === 'pending') {
+        throw new Error(`Deposit is still confirming on-chain (tx ${signature}). It has not been counted yet - please try again shortly.`);
+      }
       
       if (!confirmData.success) {
+        if (confirmData.refund) {
+          // SOL reached escrow but could not be counted - it is queued for refund
+          await fetchPresale();
+          throw new Error(`${confirmData.error}. Your deposit was not counted and will be refunded automatically.`);
+        }
         throw new Error(confirmData.error || 'Failed to confirm participation');
       }
       
       setSuccess(`🎉 Successfully joined! You're participant #${confirmData.participant.position}`);
       setHasJoined(true);
-      setMyParticipation({ amount_sol: amount });
+      setMyParticipation({ amount_sol: confirmData.participant.amount_sol });
       
       // Refresh presale data
       await fetchPresale();
@@ -233,6 +301,8 @@ export default function PresaleDetailPage() {
         setSuccess(`🚀 Token launched! Mint: ${confirmData.launch.token_mint?.slice(0, 8)}...`);
       } else if (confirmData.ready_to_launch) {
         setSuccess('🎉 Presale is full! Launching...');
+      } else if (confirmData.top_up) {
+        setSuccess(`✅ Topped up! You now have ${confirmData.participant.amount_sol} SOL in`);
       } else {
         setSuccess(`✅ Joined! Position: #${confirmData.participant.position}`);
       }
@@ -257,20 +327,39 @@ export default function PresaleDetailPage() {
     setSuccess(null);
     
     try {
+      const token = await getWalletSession(publicKey.toBase58(), signMessage);
+      
       const res = await fetch(`/api/presale/${presaleId}/refund`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: authHeaders(token),
         body: JSON.stringify({
           wallet: publicKey.toBase58(),
+          amount_sol: withdrawAmount ? parseFloat(withdrawAmount) : undefined,
         }),
       });
       
       const data = await res.json();
       
+      // Payout already sent by an earlier request - it settles on its own, pressing again never pays twice
+      if (data.status === 'pending') {
+        setSuccess(`⏳ ${data.error}`);
+        await fetchPresale();
+        return;
+      }
+      
       if (!data.success) {
         throw new Error(data.error || 'Failed');
       }
       
+      // Partial withdrawal - still a participant with the rest
+      if (data.type === 'withdrawal' && data.withdrawal.partial) {
+        setSuccess(`✅ Withdrew ${data.withdrawal.withdrawn_amount_sol} SOL! You received ${data.withdrawal.return_amount_sol.toFixed(4)} SOL (${data.withdrawal.tax_percent}% tax: ${data.withdrawal.tax_amount_sol.toFixed(4)} SOL) - ${data.withdrawal.remaining_amount_sol} SOL stays in`);
+        setWithdrawAmount('');
+        setMyParticipation((prev: any) => ({ ...prev, amount_sol: data.withdrawal.remaining_amount_sol }));
+        await fetchPresale();
+        return;
+      }
+      
       // Show appropriate success message
       if (data.type === 'withdrawal') {
         setSuccess(`✅ Withdrawn! You received ${data.withdrawal.return_amount_sol.toFixed(4)} SOL (${data.withdrawal.tax_percent}% tax: ${data.withdrawal.tax_amount_sol.toFixed(4)} SOL)`);
@@ -289,8 +378,49 @@ export default function PresaleDetailPage() {
     }
   };
 
+  // Handle cancel (creator only) - participants are refunded without tax, the launch fee is kept
+  const handleCancel = async () => {
+    if (!publicKey) {
+      setError('Please connect your wallet');
+      return;
+    }
+    
+    if (!window.confirm('Cancel this presale? Every participant is refunded without tax. The launch fee is not refunded.')) {
+      return;
+    }
+    
+    setCancelling(true);
+    setError(null);
+    setSuccess(null);
+    
+    try {
+      const token = await getWalletSession(publicKey.toBase58(), signMessage);
+      
+      const res = await fetch(`/api/presale/${presaleId}/cancel`, {
+        method: 'POST',
+        headers: authHeaders(token),
+        body: JSON.stringify({}),
+      });
+      
+      const data = await res.json();
+      
+      if (!data.success) {
+        throw new Error(data.error || 'Cancel failed');
+      }
+      
+      setSuccess('✅ Presale cancelled. Participants are being refunded.');
+      await fetchPresale();
+      
+    } catch (e: any) {
+      setError(e.message || 'Cancel failed');
+    } finally {
+      setCancelling(false);
+    }
+  };
+
   // Handle launch (creator only)
-  const handleLaunch = async () => {
+  // force: the creator launches early, before the presale fills, once its soft cap is reached
+  const handleLaunch = async (force = false) => {
     if (!publicKey || !signTransaction) {
       setError('Please connect your wallet');
       return;
@@ -300,16 +430,20 @@ export default function PresaleDetailPage() {
     setError(null);
     
     try {
-      // Get launch transaction
+      // Get launch transaction (forcing it is a creator action)
       const launchRes = await fetch(`/api/presale/${presaleId}/launch`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({}),
+        headers: force
+          ? authHeaders(await getWalletSession(publicKey.toBase58(), signMessage))
+          : { 'Content-Type': 'application/json' },
+        body: JSON.stringify(force ? { force: true } : {}),
       });
       
       const launchData = await launchRes.json();
       
       if (!launchData.success && !launchData.partial) {
+        // A failed launch waits in launch_failed - refresh so the retry button shows
+        await fetchPresale();
         throw new Error(launchData.error || 'Launch failed');
       }
       
@@ -328,10 +462,11 @@ export default function PresaleDetailPage() {
         
         await connection.confirmTransaction(signature, 'confirmed');
         
-        // Finalize with backend
+        // Finalize with backend (creator session)
+        const token = await getWalletSession(publicKey.toBase58(), signMessage);
         const finalizeRes = await fetch('/api/presale', {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
+          headers: authHeaders(token),
           body: JSON.stringify({
             action: 'finalize_launch',
             presale_id: presaleId,
@@ -349,6 +484,7 @@ export default function PresaleDetailPage() {
         }
       } else {
         setSuccess(launchData.message || 'Token created! Further steps needed.');
+        await fetchPresale();
       }
       
     } catch (e: any) {
@@ -396,7 +532,14 @@ export default function PresaleDetailPage() {
   const isCreator = publicKey?.toBase58() === presale.creator_wallet;
   const isExpired = timeRemaining <= 0 && presale.status === 'active';
   const isLaunched = presale.status === 'launched';
-  const isFailed = presale.status === 'failed' || isExpired;
+  const isCancelled = presale.status === 'cancelled';
+  // At expiry a presale that reached its soft cap launches with whoever joined - the rest fail
+  const isLaunching = presale.status === 'launching' || (isExpired && presale.soft_cap_reached);
+  const isLaunchFailed = presale.status === 'launch_failed';
+  const isLaunchPending = isLaunching || isLaunchFailed;
+  const isFailed = presale.status === 'failed' || presale.status === 'refunding' ||
+    presale.status === 'refunded' || isCancelled || (isExpired && !presale.soft_cap_reached);
+  const withdrawSol = withdrawAmount ? parseFloat(withdrawAmount) || 0 : myParticipation?.amount_sol || 0;
 
   return (
     <div className="wrap">
@@ -439,31 +582,64 @@ export default function PresaleDetailPage() {
           
           {/* Status Badge */}
           <div className={`status-badge ${presale.status}`}>
-            {isLaunched ? '🚀 LAUNCHED' : isFailed ? '❌ FAILED' : isFull ? '✅ FULL' : '⏳ ACTIVE'}
+            {isLaunched ? '🚀 LAUNCHED' : isLaunching ? '⏳ LAUNCHING' : isLaunchFailed ? '⚠️ LAUNCH FAILED' : isCancelled ? '🚫 CANCELLED' : isFailed ? '❌ FAILED' : isFull ? '✅ FULL' : '⏳ ACTIVE'}
           </div>
         </div>
 
         {/* Countdown / Status */}
-        {!isLaunched && !isFailed && (
+        {!isLaunched && !isFailed && !isLaunchPending && (
           <div className="countdown-box">
             <div className="countdown-label">Time Remaining</div>
             <div className="countdown-value">{formatTime(timeRemaining)}</div>
-            <div className="countdown-sub">Until presale ends</div>
+            <div className="countdown-sub">
+              {presale.soft_cap
+                ? `Until presale ends - launches with ${describeSoftCap(presale.soft_cap)}+${presale.soft_cap_reached ? ' (reached)' : ''}`
+                : 'Until presale ends'}
+            </div>
           </div>
         )}
 
         {isLaunched && (
           <div className="success-banner">
             🎉 Token Launched Successfully!
+            {presale.token_distribution && (
+              <div className="cancel-reason">
+                {presale.token_distribution.status === 'distributed'
+                  ? 'Initial-buy tokens sent to every participant'
+                  : 'Sending initial-buy tokens to participants...'}
+              </div>
+            )}
             <a href={`https://bags.fm/${presale.token_mint}`} target="_blank" rel="noopener">
               Trade on BAGS.FM →
             </a>
           </div>
         )}
 
-        {isFailed && !isLaunched && (
+        {isLaunching && (
+          <div className="launch-banner">
+            ⏳ Launching Token - Joins and Withdrawals Are Closed
+          </div>
+        )}
+
+        {isLaunchFailed && (
+          <div className="launch-banner">
+            ⚠️ Launch Failed{presale.launch_progress?.failed_step && ` at ${presale.launch_progress.failed_step.replace('_', ' ')}`} - A Retry Continues Where It Stopped
+            {presale.launch_progress?.error && <div className="cancel-reason">{presale.launch_progress.error}</div>}
+          </div>
+        )}
+
+        {isCancelled && (
+          <div className="failed-banner">
+            🚫 Presale Cancelled by the Creator - Refunds Are Sent Automatically (No Tax)
+            {presale.cancel_reason && <div className="cancel-reason">{presale.cancel_reason}</div>}
+          </div>
+        )}
+
+        {isFailed && !isCancelled && !isLaunched && (
           <div className="failed-banner">
-            ❌ Presale Failed - Refunds Available
+            {presale.status === 'refunded'
+              ? '❌ Presale Failed - All Participants Refunded'
+              : '❌ Presale Failed - Refunds Are Sent Automatically'}
           </div>
         )}
 
@@ -498,7 +674,41 @@ export default function PresaleDetailPage() {
               <span className="stat-label">Contribution</span>
               <span className="stat-value">{presale.min_sol} - {presale.max_sol} SOL</span>
             </div>
+            <div className="stat">
+              <span className="stat-label">Soft Cap</span>
+              <span className="stat-value">
+                {presale.soft_cap ? `${describeSoftCap(presale.soft_cap)}${presale.soft_cap_reached ? ' ✅' : ''}` : 'None'}
+              </span>
+            </div>
+          </div>
+        </div>
+
+        {/* Launch Budget - where every raised lamport goes */}
+        <div className="participants-section budget-section">
+          <h3>Launch Budget{!presale.launch_allocation.fixed && ' (projected)'}</h3>
+          <div className="participants-list">
+            {[
+              { label: '🚀 Initial buy', bps: presale.launch_budget.initial_buy_bps, lamports: presale.launch_allocation.initial_buy_lamports, signature: presale.launch_allocation.initial_buy_signature },
+              { label: '↩️ Returned to participants', bps: presale.launch_budget.participant_return_bps, lamports: presale.launch_allocation.participant_return_lamports },
+              { label: '🏦 Platform fee', bps: presale.launch_budget.platform_fee_bps, lamports: presale.launch_allocation.platform_fee_lamports, signature: presale.launch_allocation.fund_signature },
+              { label: '⛽ Network-fee reserve', bps: presale.launch_budget.network_reserve_bps, lamports: presale.launch_allocation.network_reserve_lamports },
+            ].map(bucket => (
+              <div key={bucket.label} className="participant">
+                <span className="wallet">
+                  {bucket.label} ({bucket.bps / 100}%)
+                  {bucket.signature && (
+                    <> · <a href={`https://solscan.io/tx/${bucket.signature}`} target="_blank" rel="noopener">tx ↗</a></>
+                  )}
+                </span>
+                <span className="amount">{(bucket.lamports / 1e9).toFixed(4)} SOL</span>
+              </div>
+            ))}
           </div>
+          {presale.token_distribution && presale.launch_allocation.participant_return_lamports > 0 && (
+            <p className="muted">
+              Returned so far: {(presale.launch_allocation.returned_lamports / 1e9).toFixed(4)} of {(presale.launch_allocation.participant_return_lamports / 1e9).toFixed(4)} SOL
+            </p>
+          )}
         </div>
 
         {/* Action Section */}
@@ -545,20 +755,67 @@ export default function PresaleDetailPage() {
           )}
 
           {/* Already Joined */}
-          {hasJoined && !isFailed && !isLaunched && (
+          {hasJoined && !isFailed && !isLaunched && !isLaunchPending && (
             <div className="joined-status">
               <h3>✅ You've Joined!</h3>
               <p>Contribution: {myParticipation?.amount_sol} SOL</p>
               <p className="muted">You'll earn fee share proportional to your contribution</p>
               
+              {/* Top up - same deposit flow, capped at max_sol combined */}
+              {presale.status === 'active' && (myParticipation?.amount_sol || 0) < presale.max_sol && (
+                <div className="topup-section" style={{ marginTop: 16 }}>
+                  <div className="amount-input" style={{ marginBottom: 8 }}>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min={0}
+                      max={presale.max_sol - (myParticipation?.amount_sol || 0)}
+                      value={joinAmount}
+                      onChange={e => setJoinAmount(e.target.value)}
+                      className="form-input"
+                    />
+                    <span className="sol-label">SOL</span>
+                  </div>
+                  <p style={{ fontSize: 11, color: 'var(--muted)', marginBottom: 12 }}>
+                    Add up to {Math.max(0, presale.max_sol - (myParticipation?.amount_sol || 0))} SOL more (max {presale.max_sol} SOL per wallet)
+                  </p>
+                  <button 
+                    className="btn primary"
+                    onClick={handleJoin}
+                    disabled={joining}
+                  >
+                    {joining ? '⏳ Depositing...' : `➕ Top Up (${joinAmount} SOL)`}
+                  </button>
+                </div>
+              )}
+              
               {/* Withdraw option for active presale */}
               {presale.status === 'active' && (
                 <div className="withdraw-section" style={{ marginTop: 16 }}>
+                  <div className="amount-input" style={{ marginBottom: 8 }}>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min={0}
+                      max={myParticipation?.amount_sol}
+                      value={withdrawAmount}
+                      onChange={e => setWithdrawAmount(e.target.value)}
+                      placeholder={`All (${myParticipation?.amount_sol} SOL)`}
+                      className="form-input"
+                    />
+                    <span className="sol-label">SOL</span>
+                  </div>
+                  <p style={{ fontSize: 11, color: 'var(--muted)', marginBottom: 8 }}>
+                    Withdraw part of it and keep your spot - at least {presale.min_sol} SOL must stay in
+                  </p>
                   <p style={{ fontSize: 11, color: '#ff9900', marginBottom: 8 }}>
-                    ⚠️ Early withdrawal: 5% tax ({(myParticipation?.amount_sol * 0.05).toFixed(4)} SOL)
+                    ⚠️ Early withdrawal: {presale.withdrawal_tax_bps / 100}% tax ({(withdrawSol * presale.withdrawal_tax_bps / 10000).toFixed(4)} SOL)
+                  </p>
+                  <p style={{ fontSize: 11, color: 'var(--muted)', marginBottom: 4 }}>
+                    Tax schedule: {describeWithdrawalTax(presale.withdrawal_tax)}
                   </p>
                   <p style={{ fontSize: 11, color: 'var(--muted)', marginBottom: 12 }}>
-                    You'll receive: {(myParticipation?.amount_sol * 0.95).toFixed(4)} SOL
+                    You'll receive: {(withdrawSol * (1 - presale.withdrawal_tax_bps / 10000)).toFixed(4)} SOL
                   </p>
                   <button 
                     className="btn secondary"
@@ -566,7 +823,7 @@ export default function PresaleDetailPage() {
                     disabled={refunding}
                     style={{ background: 'rgba(255, 153, 0, 0.1)', borderColor: 'rgba(255, 153, 0, 0.3)' }}
                   >
-                    {refunding ? '⏳ Processing...' : '💸 Withdraw (5% tax)'}
+                    {refunding ? '⏳ Processing...' : `💸 Withdraw (${presale.withdrawal_tax_bps / 100}% tax)`}
                   </button>
                 </div>
               )}
@@ -586,14 +843,39 @@ export default function PresaleDetailPage() {
             </div>
           )}
 
+          {/* Deposits that could not be counted */}
+          {myOrphans.length > 0 && (
+            <div className="orphan-section">
+              <h3>↩️ Deposit Refunds</h3>
+              <p>These deposits reached escrow but could not be counted. They are refunded automatically, minus the network fee.</p>
+              {myOrphans.map(o => (
+                <div key={o.deposit_signature} className="orphan-row">
+                  <span>{(o.lamports / 1e9).toFixed(4)} SOL</span>
+                  <span className={`orphan-status ${o.status}`}>
+                    {o.status === 'queued' && '⏳ Queued'}
+                    {o.status === 'refunding' && '⏳ Refunding'}
+                    {o.status === 'refunded' && '✅ Refunded'}
+                    {o.status === 'failed' && '⚠️ Needs support'}
+                  </span>
+                  <span className="muted">{o.reason}</span>
+                  {o.refund_signature && (
+                    <a href={`https://solscan.io/tx/${o.refund_signature}`} target="_blank" rel="noopener">
+                      Refund tx ↗
+                    </a>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Launch Button (Creator) */}
-          {isCreator && isFull && !isLaunched && (
+          {isCreator && isFull && !isLaunched && !isFailed && !isLaunchPending && (
             <div className="launch-section">
               <h3>🎉 Presale is Full!</h3>
               <p>All {presale.target_participants} participants have joined. Launch the token!</p>
               <button 
                 className="btn primary large"
-                onClick={handleLaunch}
+                onClick={() => handleLaunch()}
                 disabled={launching}
               >
                 {launching ? '⏳ Launching...' : '🚀 Launch Token Now!'}
@@ -601,8 +883,44 @@ export default function PresaleDetailPage() {
             </div>
           )}
 
+          {/* Launch Early (Creator) - once the soft cap is reached, without waiting for expiry */}
+          {isCreator && !isFull && presale.soft_cap_reached && !isLaunched && !isFailed && !isLaunchPending && (
+            <div className="launch-section">
+              <h3>🎯 Soft Cap Reached</h3>
+              <p>
+                {presale.participant_count}/{presale.target_participants} participants joined. It launches with them at expiry,
+                or you can launch now - no more joins after that.
+              </p>
+              <button 
+                className="btn primary large"
+                onClick={() => handleLaunch(true)}
+                disabled={launching}
+              >
+                {launching ? '⏳ Launching...' : '🚀 Launch Early'}
+              </button>
+            </div>
+          )}
+
+          {/* Retry Launch (Creator) - resumes with the same token mint and fee-share config */}
+          {isCreator && isLaunchFailed && (
+            <div className="launch-section">
+              <h3>⚠️ Launch Did Not Finish</h3>
+              <p>
+                Completed: {presale.launch_progress?.completed_steps.map(s => s.replace('_', ' ')).join(', ') || 'nothing yet'}.
+                Retrying skips these steps and reuses the same token.
+              </p>
+              <button 
+                className="btn primary large"
+                onClick={() => handleLaunch()}
+                disabled={launching}
+              >
+                {launching ? '⏳ Launching...' : '🔁 Retry Launch'}
+              </button>
+            </div>
+          )}
+
           {/* Creator Status */}
-          {isCreator && !isFull && !isLaunched && !isFailed && (
+          {isCreator && !isFull && !isLaunched && !isFailed && !isLaunchPending && (
             <div className="creator-status">
               <h3>👑 You're the Creator</h3>
               <p>Share this presale link to get {presale.target_participants} participants</p>
@@ -610,6 +928,20 @@ export default function PresaleDetailPage() {
             </div>
           )}
 
+          {/* Cancel Button (Creator) */}
+          {isCreator && !isLaunched && !isFailed && !isLaunchPending && (
+            <div className="cancel-section">
+              <p>Made a mistake? Cancelling refunds every participant without tax. The launch fee is not refunded.</p>
+              <button 
+                className="btn secondary"
+                onClick={handleCancel}
+                disabled={cancelling}
+              >
+                {cancelling ? '⏳ Cancelling...' : '🚫 Cancel Presale'}
+              </button>
+            </div>
+          )}
+
           {/* Connect Wallet Prompt */}
           {!connected && canJoin && (
             <div className="connect-prompt">
@@ -749,6 +1081,7 @@ export default function PresaleDetailPage() {
         .status-badge.active { background: rgba(0, 255, 136, 0.2); color: #00ff88; }
         .status-badge.launched { background: rgba(100, 200, 255, 0.2); color: #64c8ff; }
         .status-badge.failed { background: rgba(255, 100, 100, 0.2); color: #ff6464; }
+        .status-badge.launching, .status-badge.launch_failed { background: rgba(255, 170, 0, 0.2); color: #ffaa00; }
         .countdown-box {
           text-align: center;
           background: rgba(0, 255, 136, 0.05);
@@ -772,7 +1105,7 @@ export default function PresaleDetailPage() {
           color: #666;
           font-size: 12px;
         }
-        .success-banner, .failed-banner {
+        .success-banner, .failed-banner, .launch-banner {
           text-align: center;
           padding: 16px;
           border-radius: 12px;
@@ -794,6 +1127,11 @@ export default function PresaleDetailPage() {
           border: 1px solid rgba(255, 100, 100, 0.3);
           color: #ff6464;
         }
+        .launch-banner {
+          background: rgba(255, 170, 0, 0.1);
+          border: 1px solid rgba(255, 170, 0, 0.3);
+          color: #ffaa00;
+        }
         .progress-section {
           background: rgba(0, 0, 0, 0.3);
           border: 1px solid rgba(255, 255, 255, 0.1);
@@ -853,6 +1191,53 @@ export default function PresaleDetailPage() {
           font-size: 14px;
           margin: 0 0 16px 0;
         }
+        .cancel-section {
+          margin-top: 16px;
+          padding-top: 16px;
+          border-top: 1px solid rgba(255, 100, 100, 0.2);
+        }
+        .cancel-section p {
+          color: #888;
+          font-size: 12px;
+          margin: 0 0 12px 0;
+        }
+        .cancel-reason {
+          margin-top: 6px;
+          color: #888;
+          font-size: 13px;
+          font-weight: 400;
+        }
+        .orphan-section {
+          margin-top: 16px;
+          padding-top: 16px;
+          border-top: 1px solid rgba(255, 153, 0, 0.2);
+        }
+        .orphan-section h3 {
+          margin: 0 0 8px 0;
+          font-size: 16px;
+        }
+        .orphan-section p {
+          color: #888;
+          font-size: 12px;
+          margin: 0 0 12px 0;
+        }
+        .orphan-row {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 12px;
+          align-items: center;
+          font-size: 13px;
+          padding: 8px 0;
+        }
+        .orphan-row a {
+          color: #00ff88;
+        }
+        .orphan-status.refunded {
+          color: #00ff88;
+        }
+        .orphan-status.queued, .orphan-status.refunding, .orphan-status.failed {
+          color: #ff9900;
+        }
         .amount-input {
           display: flex;
           gap: 8px;
@@ -962,6 +1347,9 @@ export default function PresaleDetailPage() {
         .participants-section h3 {
           margin: 0 0 16px 0;
         }
+        .budget-section {
+          margin-bottom: 24px;
+        }
         .participants-list {
           display: grid;
           gap: 8px;
@@ -12,8 +12,16 @@ import {
 } from '@solana/web3.js';
 import { 
   PRESALE_CONFIG, 
-  LAUNCHER_WALLET 
+  LAUNCHER_WALLET,
+  describeWithdrawalTax,
+  parseWithdrawalTaxSchedule,
+  parseLaunchBudget,
+  DEFAULT_LAUNCH_BUDGET,
+  parseSoftCap,
+  describeSoftCap,
 } from '@/lib/constants';
+import type { WithdrawalTaxSchedule, LaunchBudget, SoftCap } from '@/lib/presale-types';
+import { getWalletSession, authHeaders } from '@/lib/wallet-session';
 
 type PresaleForm = {
   name: string;
@@ -26,11 +34,61 @@ type PresaleForm = {
   maxSol: string;
   durationMinutes: number;
   targetParticipants: number;
+  taxType: WithdrawalTaxSchedule['type'];
+  taxPercent: string; // flat and grace
+  taxGraceMinutes: string; // grace
+  taxStartPercent: string; // decaying and rising
+  taxEndPercent: string; // decaying and rising
+  budgetBuyPercent: string;
+  budgetFeePercent: string;
+  budgetReservePercent: string;
+  softCapType: SoftCap['type'] | 'none';
+  softCapValue: string; // participants or SOL, by softCapType
 };
 
+// Schedule as the API takes it - rates entered in percent, sent in bps
+function taxScheduleFromForm(form: PresaleForm): WithdrawalTaxSchedule {
+  const bps = (percent: string) => Math.round((parseFloat(percent) || 0) * 100);
+  switch (form.taxType) {
+    case 'flat':
+      return { type: 'flat', tax_bps: bps(form.taxPercent) };
+    case 'grace':
+      return { type: 'grace', grace_minutes: parseInt(form.taxGraceMinutes) || 0, tax_bps: bps(form.taxPercent) };
+    case 'decaying':
+    case 'rising':
+      return { type: form.taxType, start_bps: bps(form.taxStartPercent), end_bps: bps(form.taxEndPercent) };
+  }
+}
+
+// Budget as the API takes it - the participant return is whatever the other buckets leave
+function launchBudgetFromForm(form: PresaleForm): LaunchBudget {
+  const bps = (percent: string) => Math.round((parseFloat(percent) || 0) * 100);
+  const budget = {
+    initial_buy_bps: bps(form.budgetBuyPercent),
+    platform_fee_bps: bps(form.budgetFeePercent),
+    network_reserve_bps: bps(form.budgetReservePercent),
+  };
+  return {
+    ...budget,
+    participant_return_bps: 10000 - budget.initial_buy_bps - budget.platform_fee_bps - budget.network_reserve_bps,
+  };
+}
+
+// Soft cap as the API takes it - undefined for none
+function softCapFromForm(form: PresaleForm): SoftCap | undefined {
+  switch (form.softCapType) {
+    case 'none':
+      return undefined;
+    case 'participants':
+      return { type: 'participants', min_participants: parseInt(form.softCapValue) || 0 };
+    case 'sol':
+      return { type: 'sol', min_sol: parseFloat(form.softCapValue) || 0 };
+  }
+}
+
 export default function CreatePresalePage() {
   const router = useRouter();
-  const { publicKey, signTransaction, connected } = useWallet();
+  const { publicKey, signTransaction, signMessage, connected } = useWallet();
   const { connection } = useConnection();
   
   const [form, setForm] = useState<PresaleForm>({
@@ -44,6 +102,16 @@ export default function CreatePresalePage() {
     maxSol: String(PRESALE_CONFIG.DEFAULT_MAX_SOL),
     durationMinutes: PRESALE_CONFIG.DURATION_OPTIONS[2], // 30 min default
     targetParticipants: PRESALE_CONFIG.DEFAULT_PARTICIPANTS, // 68 default
+    taxType: 'flat',
+    taxPercent: String(PRESALE_CONFIG.WITHDRAWAL_TAX_BPS / 100), // 5% default
+    taxGraceMinutes: '5',
+    taxStartPercent: String(PRESALE_CONFIG.MAX_WITHDRAWAL_TAX_BPS / 100),
+    taxEndPercent: '0',
+    budgetBuyPercent: String(DEFAULT_LAUNCH_BUDGET.initial_buy_bps / 100),
+    budgetFeePercent: String(DEFAULT_LAUNCH_BUDGET.platform_fee_bps / 100),
+    budgetReservePercent: String(DEFAULT_LAUNCH_BUDGET.network_reserve_bps / 100),
+    softCapType: 'none',
+    softCapValue: '',
   });
   
   // Step 1: Pay launch fee, Step 2: Create presale
@@ -62,16 +130,36 @@ export default function CreatePresalePage() {
     return connected && publicKey && signTransaction;
   }, [connected, publicKey, signTransaction]);
 
+  // Checked against the same platform limits as the API
+  const withdrawalTax = useMemo(() => {
+    return parseWithdrawalTaxSchedule(taxScheduleFromForm(form), form.durationMinutes);
+  }, [form]);
+
+  const launchBudget = useMemo(() => {
+    return parseLaunchBudget(launchBudgetFromForm(form));
+  }, [form]);
+
+  const softCap = useMemo(() => {
+    return parseSoftCap(softCapFromForm(form), {
+      target_participants: form.targetParticipants,
+      min_sol_per_wallet: parseFloat(form.minSol) || PRESALE_CONFIG.DEFAULT_MIN_SOL,
+      max_sol_per_wallet: parseFloat(form.maxSol) || PRESALE_CONFIG.DEFAULT_MAX_SOL,
+    });
+  }, [form]);
+
   const canCreate = useMemo(() => {
     return connected && 
            publicKey && 
            launchFeeSignature &&
+           withdrawalTax.schedule &&
+           launchBudget.budget &&
+           !softCap.error &&
            form.name && 
            form.symbol && 
            form.symbol.length <= 10 && 
            form.description && 
            form.imageUrl;
-  }, [connected, publicKey, launchFeeSignature, form]);
+  }, [connected, publicKey, launchFeeSignature, form, withdrawalTax, launchBudget, softCap]);
 
   // Step 1: Pay launch fee
   const handlePayLaunchFee = async () => {
@@ -133,9 +221,12 @@ export default function CreatePresalePage() {
     setError(null);
     
     try {
+      // Presales are created for the signed-in wallet only
+      const token = await getWalletSession(publicKey.toBase58(), signMessage);
+      
       const res = await fetch('/api/presale/create', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: authHeaders(token),
         body: JSON.stringify({
           creator_wallet: publicKey.toBase58(),
           token_name: form.name,
@@ -148,6 +239,9 @@ export default function CreatePresalePage() {
           max_sol_per_wallet: parseFloat(form.maxSol) || PRESALE_CONFIG.DEFAULT_MAX_SOL,
           duration_minutes: form.durationMinutes,
           target_participants: form.targetParticipants,
+          withdrawal_tax: withdrawalTax.schedule,
+          launch_budget: launchBudget.budget,
+          soft_cap: softCap.soft_cap,
           launch_fee_signature: launchFeeSignature,
         }),
       });
@@ -495,7 +589,175 @@ export default function CreatePresalePage() {
                         className="form-input form-input-sm"
                       />
                     </label>
+                    <label className="form-field">
+                      <span className="form-label" style={{ fontSize: 9 }}>Soft Cap</span>
+                      <select
+                        value={form.softCapType}
+                        onChange={e => onChange('softCapType', e.target.value as PresaleForm['softCapType'])}
+                        className="form-input form-input-sm"
+                      >
+                        <option value="none">None</option>
+                        <option value="participants">Min participants</option>
+                        <option value="sol">Min SOL raised</option>
+                      </select>
+                      <span style={{ fontSize: 8, color: 'var(--muted)' }}>Launches at expiry if reached, else refunds</span>
+                    </label>
+                    {form.softCapType !== 'none' && (
+                      <label className="form-field">
+                        <span className="form-label" style={{ fontSize: 9 }}>
+                          {form.softCapType === 'participants' ? 'Min Participants' : 'Min SOL Raised'}
+                        </span>
+                        <input
+                          type="number"
+                          step={form.softCapType === 'participants' ? '1' : '0.01'}
+                          min={form.softCapType === 'participants' ? PRESALE_CONFIG.MIN_SOFT_CAP_PARTICIPANTS : form.minSol}
+                          max={form.softCapType === 'participants' ? form.targetParticipants - 1 : undefined}
+                          value={form.softCapValue}
+                          onChange={e => onChange('softCapValue', e.target.value)}
+                          className="form-input form-input-sm"
+                        />
+                      </label>
+                    )}
+                    <label className="form-field">
+                      <span className="form-label" style={{ fontSize: 9 }}>Withdrawal Tax</span>
+                      <select
+                        value={form.taxType}
+                        onChange={e => onChange('taxType', e.target.value as PresaleForm['taxType'])}
+                        className="form-input form-input-sm"
+                      >
+                        <option value="flat">Flat</option>
+                        <option value="grace">Tax-free at first</option>
+                        <option value="decaying">Decaying to expiry</option>
+                        <option value="rising">Rising to expiry</option>
+                      </select>
+                      <span style={{ fontSize: 8, color: 'var(--muted)' }}>
+                        {PRESALE_CONFIG.MIN_WITHDRAWAL_TAX_BPS / 100}-{PRESALE_CONFIG.MAX_WITHDRAWAL_TAX_BPS / 100}% (early withdrawals only)
+                      </span>
+                    </label>
+                    {(form.taxType === 'flat' || form.taxType === 'grace') && (
+                      <div style={{ display: 'grid', gap: 10, gridTemplateColumns: form.taxType === 'grace' ? '1fr 1fr' : '1fr' }}>
+                        {form.taxType === 'grace' && (
+                          <label className="form-field">
+                            <span className="form-label" style={{ fontSize: 9 }}>Tax-Free Minutes</span>
+                            <input
+                              type="number"
+                              min="1"
+                              max={PRESALE_CONFIG.MAX_TAX_GRACE_MINUTES}
+                              value={form.taxGraceMinutes}
+                              onChange={e => onChange('taxGraceMinutes', e.target.value)}
+                              className="form-input form-input-sm"
+                            />
+                          </label>
+                        )}
+                        <label className="form-field">
+                          <span className="form-label" style={{ fontSize: 9 }}>Tax %</span>
+                          <input
+                            type="number"
+                            step="0.01"
+                            min={PRESALE_CONFIG.MIN_WITHDRAWAL_TAX_BPS / 100}
+                            max={PRESALE_CONFIG.MAX_WITHDRAWAL_TAX_BPS / 100}
+                            value={form.taxPercent}
+                            onChange={e => onChange('taxPercent', e.target.value)}
+                            className="form-input form-input-sm"
+                          />
+                        </label>
+                      </div>
+                    )}
+                    {(form.taxType === 'decaying' || form.taxType === 'rising') && (
+                      <div style={{ display: 'grid', gap: 10, gridTemplateColumns: '1fr 1fr' }}>
+                        <label className="form-field">
+                          <span className="form-label" style={{ fontSize: 9 }}>Start Tax %</span>
+                          <input
+                            type="number"
+                            step="0.01"
+                            min={PRESALE_CONFIG.MIN_WITHDRAWAL_TAX_BPS / 100}
+                            max={PRESALE_CONFIG.MAX_WITHDRAWAL_TAX_BPS / 100}
+                            value={form.taxStartPercent}
+                            onChange={e => onChange('taxStartPercent', e.target.value)}
+                            className="form-input form-input-sm"
+                          />
+                        </label>
+                        <label className="form-field">
+                          <span className="form-label" style={{ fontSize: 9 }}>Tax % at Expiry</span>
+                          <input
+                            type="number"
+                            step="0.01"
+                            min={PRESALE_CONFIG.MIN_WITHDRAWAL_TAX_BPS / 100}
+                            max={PRESALE_CONFIG.MAX_WITHDRAWAL_TAX_BPS / 100}
+                            value={form.taxEndPercent}
+                            onChange={e => onChange('taxEndPercent', e.target.value)}
+                            className="form-input form-input-sm"
+                          />
+                        </label>
+                      </div>
+                    )}
                   </div>
+                  {withdrawalTax.error && (
+                    <span style={{ fontSize: 10, color: '#ff6b6b', marginTop: 6 }}>{withdrawalTax.error}</span>
+                  )}
+                  {softCap.error && (
+                    <span style={{ fontSize: 10, color: '#ff6b6b', marginTop: 6 }}>{softCap.error}</span>
+                  )}
+                </div>
+
+                {/* Launch Budget */}
+                <div className="form-field" style={{ 
+                  background: 'rgba(0, 255, 136, 0.03)', 
+                  border: '1px solid rgba(0, 255, 136, 0.1)',
+                  borderRadius: 10,
+                  padding: 12,
+                }}>
+                  <span className="form-label" style={{ color: '#00ff88' }}>💰 Launch Budget (% of SOL raised)</span>
+                  <div style={{ display: 'grid', gap: 10, gridTemplateColumns: 'repeat(2, 1fr)', marginTop: 10 }}>
+                    <label className="form-field">
+                      <span className="form-label" style={{ fontSize: 9 }}>Initial Buy %</span>
+                      <input
+                        type="number"
+                        step="0.01"
+                        min={PRESALE_CONFIG.MIN_INITIAL_BUY_BPS / 100}
+                        max={PRESALE_CONFIG.MAX_INITIAL_BUY_BPS / 100}
+                        value={form.budgetBuyPercent}
+                        onChange={e => onChange('budgetBuyPercent', e.target.value)}
+                        className="form-input form-input-sm"
+                      />
+                    </label>
+                    <label className="form-field">
+                      <span className="form-label" style={{ fontSize: 9 }}>Platform Fee %</span>
+                      <input
+                        type="number"
+                        step="0.01"
+                        min={PRESALE_CONFIG.MIN_PLATFORM_FEE_BPS / 100}
+                        max={PRESALE_CONFIG.MAX_PLATFORM_FEE_BPS / 100}
+                        value={form.budgetFeePercent}
+                        onChange={e => onChange('budgetFeePercent', e.target.value)}
+                        className="form-input form-input-sm"
+                      />
+                    </label>
+                    <label className="form-field">
+                      <span className="form-label" style={{ fontSize: 9 }}>Network-Fee Reserve %</span>
+                      <input
+                        type="number"
+                        step="0.01"
+                        min={PRESALE_CONFIG.MIN_NETWORK_RESERVE_BPS / 100}
+                        max={PRESALE_CONFIG.MAX_NETWORK_RESERVE_BPS / 100}
+                        value={form.budgetReservePercent}
+                        onChange={e => onChange('budgetReservePercent', e.target.value)}
+                        className="form-input form-input-sm"
+                      />
+                    </label>
+                    <div className="form-field">
+                      <span className="form-label" style={{ fontSize: 9 }}>Returned to Participants</span>
+                      <span style={{ fontSize: 13, padding: '8px 0' }}>
+                        {launchBudgetFromForm(form).participant_return_bps / 100}%
+                      </span>
+                    </div>
+                  </div>
+                  <span style={{ fontSize: 8, color: 'var(--muted)' }}>
+                    The return is sent back pro rata with the tokens; the reserve pays launch and distribution network fees
+                  </span>
+                  {launchBudget.error && (
+                    <span style={{ fontSize: 10, color: '#ff6b6b', marginTop: 6 }}>{launchBudget.error}</span>
+                  )}
                 </div>
 
                 {/* Summary */}
@@ -515,6 +777,14 @@ export default function CreatePresalePage() {
                     <span style={{ color: 'var(--muted)' }}>Auto-Launch</span>
                     <span style={{ color: '#00ff88' }}>When {form.targetParticipants} participants join</span>
                   </div>
+                  <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: 6 }}>
+                    <span style={{ color: 'var(--muted)' }}>At Expiry</span>
+                    <span>
+                      {softCap.soft_cap
+                        ? `Launches with ${describeSoftCap(softCap.soft_cap)}+, else refunds`
+                        : 'Refunds unless full'}
+                    </span>
+                  </div>
                   <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: 6 }}>
                     <span style={{ color: 'var(--muted)' }}>Creator Allocation</span>
                     <span style={{ color: '#ffd700', fontWeight: 600 }}>
@@ -531,7 +801,9 @@ export default function CreatePresalePage() {
                   </div>
                   <div style={{ display: 'flex', justifyContent: 'space-between' }}>
                     <span style={{ color: 'var(--muted)' }}>Withdrawal Tax</span>
-                    <span style={{ color: '#ff9900' }}>{PRESALE_CONFIG.WITHDRAWAL_TAX_BPS / 100}% (active presale only)</span>
+                    <span style={{ color: '#ff9900' }}>
+                      {withdrawalTax.schedule ? describeWithdrawalTax(withdrawalTax.schedule) : '-'} (active presale only)
+                    </span>
                   </div>
                 </div>
 
@@ -21,32 +21,62 @@ interface PresaleSummary {
 
 const ITEMS_PER_PAGE = 12;
 
+const SORT_OPTIONS = [
+  { key: 'most_sol', label: 'Most SOL' },
+  { key: 'newest', label: 'Newest' },
+  { key: 'ending_soon', label: 'Ending Soon' },
+  { key: 'most_filled', label: 'Most Filled' },
+];
+
 export default function PresalesListPage() {
   const [presales, setPresales] = useState<PresaleSummary[]>([]);
   const [filter, setFilter] = useState('all');
+  const [sort, setSort] = useState('most_sol');
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
   const [loading, setLoading] = useState(true);
-  const [stats, setStats] = useState({ total: 0, active: 0, launched: 0, failed: 0 });
-  const [page, setPage] = useState(1);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [stats, setStats] = useState({ total: 0, active: 0, launched: 0, failed: 0, cancelled: 0 });
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [newIds, setNewIds] = useState<Set<string>>(new Set());
   const prevIdsRef = useRef<Set<string>>(new Set());
+  const loadedCountRef = useRef(ITEMS_PER_PAGE);
+
+  // Debounce the search box
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(search.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [search]);
 
   useEffect(() => {
+    loadedCountRef.current = ITEMS_PER_PAGE;
+    prevIdsRef.current = new Set();
+    setLoading(true);
     fetchPresales();
     const interval = setInterval(fetchPresales, 15000);
     return () => clearInterval(interval);
-  }, [filter]);
+  }, [filter, sort, query]);
+
+  const buildUrl = (limit: number, cursor?: string | null) => {
+    // Failed includes presales whose refunds are in progress or done, and ones the creator cancelled
+    const statusFilter = filter === 'failed' ? 'failed,refunding,refunded,cancelled' : filter;
+    const params = new URLSearchParams({ filter: statusFilter, sort, limit: String(limit) });
+    if (query) params.set('q', query);
+    if (cursor) params.set('cursor', cursor);
+    return `/api/presale?${params.toString()}`;
+  };
 
+  // Refresh everything loaded so far (first page + any "show more" pages)
   const fetchPresales = async () => {
     try {
-      const res = await fetch(`/api/presale?filter=${filter}&limit=100`);
+      const res = await fetch(buildUrl(Math.min(loadedCountRef.current, 100)));
       const data = await res.json();
       if (data.success) {
-        let sorted = data.presales || [];
-        // Sort by total_sol (most raised first)
-        sorted.sort((a: PresaleSummary, b: PresaleSummary) => b.total_sol - a.total_sol);
+        const list: PresaleSummary[] = data.presales || [];
         
         // Detect new presales for flash animation
-        const currentIds = new Set<string>(sorted.map((p: PresaleSummary) => p.id));
+        const currentIds = new Set<string>(list.map((p: PresaleSummary) => p.id));
         const newOnes = new Set<string>();
         currentIds.forEach((id: string) => {
           if (!prevIdsRef.current.has(id)) newOnes.add(id);
@@ -57,7 +87,9 @@ export default function PresalesListPage() {
         }
         prevIdsRef.current = currentIds;
         
-        setPresales(sorted);
+        setPresales(list);
+        setNextCursor(data.pagination?.next_cursor || null);
+        setTotal(data.pagination?.total || 0);
         setStats(data.stats);
       }
     } catch (e) {
@@ -67,8 +99,30 @@ export default function PresalesListPage() {
     }
   };
 
-  const totalPages = Math.ceil(presales.length / ITEMS_PER_PAGE);
-  const paginatedPresales = presales.slice((page - 1) * ITEMS_PER_PAGE, page * ITEMS_PER_PAGE);
+  const loadMore = async () => {
+    if (!nextCursor || loadingMore) return;
+    setLoadingMore(true);
+    try {
+      const res = await fetch(buildUrl(ITEMS_PER_PAGE, nextCursor));
+      const data = await res.json();
+      if (data.success) {
+        const more: PresaleSummary[] = data.presales || [];
+        setPresales(prev => {
+          const seen = new Set(prev.map(p => p.id));
+          const merged = [...prev, ...more.filter(p => !seen.has(p.id))];
+          loadedCountRef.current = merged.length;
+          prevIdsRef.current = new Set(merged.map(p => p.id));
+          return merged;
+        });
+        setNextCursor(data.pagination?.next_cursor || null);
+        setTotal(data.pagination?.total || 0);
+      }
+    } catch (e) {
+      console.error('Failed to load more presales:', e);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
 
   const getTimeRemaining = (expiresAt: string, status: string) => {
     if (status !== 'active') return null;
@@ -82,6 +136,7 @@ export default function PresalesListPage() {
   const getStatusColor = (status: string) => {
     if (status === 'active') return '#00ff88';
     if (status === 'launched') return '#a855f7';
+    if (status === 'launching' || status === 'launch_failed') return '#ffaa00';
     return '#ff6b6b';
   };
 
@@ -109,9 +164,9 @@ export default function PresalesListPage() {
             { key: 'all', label: 'TOTAL', value: stats.total, color: '#fff' },
             { key: 'active', label: 'ACTIVE', value: stats.active, color: '#00ff88' },
             { key: 'launched', label: 'LAUNCHED', value: stats.launched, color: '#a855f7' },
-            { key: 'failed', label: 'FAILED', value: stats.failed, color: '#ff6b6b' },
+            { key: 'failed', label: 'FAILED', value: stats.failed + (stats.cancelled || 0), color: '#ff6b6b' },
           ].map(s => (
-            <div key={s.key} className={`stat-card ${filter === s.key ? 'active' : ''}`} onClick={() => { setFilter(s.key); setPage(1); }}>
+            <div key={s.key} className={`stat-card ${filter === s.key ? 'active' : ''}`} onClick={() => setFilter(s.key)}>
               <span className="stat-num" style={{ color: s.color }}>{s.value}</span>
               <span className="stat-label">{s.label}</span>
             </div>
@@ -120,12 +175,25 @@ export default function PresalesListPage() {
 
         <div className="filter-tabs">
           {['all', 'active', 'launched', 'failed'].map(f => (
-            <button key={f} className={`filter-btn ${filter === f ? 'active' : ''}`} onClick={() => { setFilter(f); setPage(1); }}>
+            <button key={f} className={`filter-btn ${filter === f ? 'active' : ''}`} onClick={() => setFilter(f)}>
               {f.charAt(0).toUpperCase() + f.slice(1)}
             </button>
           ))}
         </div>
 
+        <div className="list-controls">
+          <input
+            className="search-input"
+            type="text"
+            placeholder="Search name or symbol..."
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+          />
+          <select className="sort-select" value={sort} onChange={e => setSort(e.target.value)}>
+            {SORT_OPTIONS.map(o => <option key={o.key} value={o.key}>{o.label}</option>)}
+          </select>
+        </div>
+
         {loading ? (
           <div className="loading"><div className="loader"></div><p>Loading...</p></div>
         ) : presales.length === 0 ? (
@@ -137,12 +205,12 @@ export default function PresalesListPage() {
         ) : (
           <>
             <div className="grid">
-              {paginatedPresales.map((presale, idx) => {
+              {presales.map((presale, idx) => {
                 const timeLeft = getTimeRemaining(presale.expires_at, presale.status);
                 const isNew = newIds.has(presale.id);
                 
                 return (
-                  <Link href={`/presale/${presale.id}`} key={presale.id} className={`card ${isNew ? 'flash' : ''}`} style={{ animationDelay: `${idx * 0.05}s` }}>
+                  <Link href={`/presale/${presale.id}`} key={presale.id} className={`card ${isNew ? 'flash' : ''}`} style={{ animationDelay: `${(idx % ITEMS_PER_PAGE) * 0.05}s` }}>
                     <div className="card-header">
                       <img src={presale.image_url || '/bags.gif'} alt={presale.token_name} className="token-img" onError={(e) => { (e.target as HTMLImageElement).src = '/bags.gif'; }} />
                       <div className="token-info">
@@ -150,7 +218,7 @@ export default function PresalesListPage() {
                         <div className="token-name">{presale.token_name}</div>
                       </div>
                       <span className="status-badge" style={{ background: `${getStatusColor(presale.status)}20`, color: getStatusColor(presale.status), borderColor: getStatusColor(presale.status) }}>
-                        {presale.status === 'active' ? '🟢' : presale.status === 'launched' ? '🚀' : '❌'} {presale.status}
+                        {presale.status === 'active' ? '🟢' : presale.status === 'launched' ? '🚀' : presale.status === 'launching' ? '⏳' : presale.status === 'launch_failed' ? '⚠️' : presale.status === 'cancelled' ? '🚫' : '❌'} {presale.status.replace('_', ' ')}
                       </span>
                     </div>
 
@@ -178,13 +246,14 @@ export default function PresalesListPage() {
               })}
             </div>
 
-            {totalPages > 1 && (
-              <div className="pagination">
-                <button onClick={() => setPage(p => Math.max(1, p - 1))} disabled={page === 1}>← Prev</button>
-                <span>Page {page} of {totalPages}</span>
-                <button onClick={() => setPage(p => Math.min(totalPages, p + 1))} disabled={page === totalPages}>Next →</button>
-              </div>
-            )}
+            <div className="pagination">
+              <span>Showing {presales.length} of {total}</span>
+              {nextCursor && (
+                <button onClick={loadMore} disabled={loadingMore}>
+                  {loadingMore ? 'Loading...' : 'Show more ↓'}
+                </button>
+              )}
+            </div>
           </>
         )}
       </main>
@@ -212,6 +281,12 @@ export default function PresalesListPage() {
         .filter-btn:hover { color: #fff; border-color: rgba(255,255,255,0.3); }
         .filter-btn.active { background: #00ff88; color: #000; border-color: #00ff88; font-weight: 600; }
         
+        .list-controls { display: flex; justify-content: center; gap: 8px; margin: -12px 0 28px; }
+        .search-input, .sort-select { padding: 8px 14px; border-radius: 10px; border: 1px solid rgba(255,255,255,0.1); background: rgba(255,255,255,0.03); color: #fff; font-size: 13px; outline: none; }
+        .search-input { width: 260px; }
+        .search-input:focus, .sort-select:focus { border-color: #00ff88; }
+        .sort-select option { background: #0d1117; }
+        
         .loading, .empty { text-align: center; padding: 80px 20px; }
         .loader { width: 40px; height: 40px; border: 3px solid rgba(0,255,136,0.1); border-top-color: #00ff88; border-radius: 50%; animation: spin 1s linear infinite; margin: 0 auto 16px; }
         @keyframes spin { to { transform: rotate(360deg); } }
@@ -0,0 +1,24 @@
+// instrumentation.ts
+// Starts background jobs once per server process
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { startEscrowReconcileJob } = await import('./lib/escrow-reconcile');
+  startEscrowReconcileJob();
+
+  const { startDepositIndexerJob } = await import('./lib/deposit-indexer');
+  startDepositIndexerJob();
+
+  const { startOrphanRefundJob } = await import('./lib/orphan-refunds');
+  startOrphanRefundJob();
+
+  const { startPresaleExpiryJob } = await import('./lib/presale-expiry');
+  startPresaleExpiryJob();
+
+  const { startPresaleRefundJob } = await import('./lib/presale-refunds');
+  startPresaleRefundJob();
+
+  const { startTokenDistributionJob } = await import('./lib/token-distribution');
+  startTokenDistributionJob();
+}
@@ -5,6 +5,8 @@
  * Sensitive values should be set via environment variables.
  */
 
+import type { WithdrawalTaxSchedule, LaunchBudget, LaunchAllocation, SoftCap } from './presale-types';
+
 // ============================================
 // TOKEN CONFIGURATION
 // ============================================
@@ -79,14 +81,36 @@ export const PRESALE_CONFIG = {
   MAX_PARTICIPANTS: 68,
   /** Total wallets = participants + creator = 69 max (nice!) */
   MAX_WALLETS: 69,
+  /** Fewest participants a soft cap may launch with */
+  MIN_SOFT_CAP_PARTICIPANTS: 1,
 
   // ---- Fee Distribution (in basis points) ----
   /** Creator's guaranteed fee share: 5% */
   CREATOR_ALLOCATION_BPS: 500,
   /** Participants' fee share: 95% (split by contribution weight) */
   PARTICIPANT_ALLOCATION_BPS: 9500,
-  /** Withdrawal tax during active presale: 5% */
+  /** Withdrawal tax during active presale: 5% (the default flat schedule) */
   WITHDRAWAL_TAX_BPS: 500,
+  /** Lowest rate a creator's withdrawal tax schedule may charge: 0% */
+  MIN_WITHDRAWAL_TAX_BPS: 0,
+  /** Highest rate a creator's withdrawal tax schedule may charge: 10% */
+  MAX_WITHDRAWAL_TAX_BPS: 1000,
+  /** Longest tax-free opening window a grace schedule may have (in minutes) */
+  MAX_TAX_GRACE_MINUTES: 15,
+
+  // ---- Launch Budget (in basis points of the SOL raised, summing to 10000) ----
+  /** Initial buy: 10%-97% */
+  MIN_INITIAL_BUY_BPS: 1000,
+  MAX_INITIAL_BUY_BPS: 9700,
+  /** Returned to participants with their tokens: 0%-89% */
+  MIN_PARTICIPANT_RETURN_BPS: 0,
+  MAX_PARTICIPANT_RETURN_BPS: 8900,
+  /** Platform fee: 0%-5% (none unless the creator sets one) */
+  MIN_PLATFORM_FEE_BPS: 0,
+  MAX_PLATFORM_FEE_BPS: 500,
+  /** Network-fee reserve for launch txs and participants' token account rent: 2%-10% */
+  MIN_NETWORK_RESERVE_BPS: 200,
+  MAX_NETWORK_RESERVE_BPS: 1000,
 
   // ---- Timing ----
   /** Available presale duration options (in minutes) */
@@ -118,16 +142,182 @@ export function isValidDuration(minutes: number): boolean {
   return PRESALE_CONFIG.DURATION_OPTIONS.includes(minutes as 10 | 20 | 30);
 }
 
+/** Schedule applied to presales created without one (and to presales stored before schedules existed) */
+export const DEFAULT_WITHDRAWAL_TAX: WithdrawalTaxSchedule = {
+  type: 'flat',
+  tax_bps: PRESALE_CONFIG.WITHDRAWAL_TAX_BPS,
+};
+
+/**
+ * Budget applied to presales created without one (and to presales stored before budgets existed)
+ * Takes no platform fee - a fee only applies when the creator sets one
+ */
+export const DEFAULT_LAUNCH_BUDGET: LaunchBudget = {
+  initial_buy_bps: 5000,
+  participant_return_bps: 4700,
+  platform_fee_bps: 0,
+  network_reserve_bps: 300,
+};
+
+function isTaxBps(value: unknown): value is number {
+  return Number.isInteger(value)
+    && (value as number) >= PRESALE_CONFIG.MIN_WITHDRAWAL_TAX_BPS
+    && (value as number) <= PRESALE_CONFIG.MAX_WITHDRAWAL_TAX_BPS;
+}
+
+/**
+ * Check a creator-supplied withdrawal tax schedule against the platform limits
+ * @param input - Schedule as received (untrusted)
+ * @param durationMinutes - Presale duration the schedule runs over
+ * @returns The schedule with only its known fields, or an error message
+ */
+export function parseWithdrawalTaxSchedule(
+  input: unknown,
+  durationMinutes: number
+): { schedule?: WithdrawalTaxSchedule; error?: string } {
+  const raw = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  const range = `${PRESALE_CONFIG.MIN_WITHDRAWAL_TAX_BPS}-${PRESALE_CONFIG.MAX_WITHDRAWAL_TAX_BPS} bps`;
+
+  switch (raw.type) {
+    case 'flat':
+      if (!isTaxBps(raw.tax_bps)) return { error: `Withdrawal tax must be ${range}` };
+      return { schedule: { type: 'flat', tax_bps: raw.tax_bps } };
+
+    case 'grace': {
+      const maxGrace = Math.min(PRESALE_CONFIG.MAX_TAX_GRACE_MINUTES, durationMinutes - 1);
+      if (!isTaxBps(raw.tax_bps)) return { error: `Withdrawal tax must be ${range}` };
+      if (!Number.isInteger(raw.grace_minutes) || (raw.grace_minutes as number) < 1 || (raw.grace_minutes as number) > maxGrace) {
+        return { error: `Tax-free window must be 1-${maxGrace} minutes` };
+      }
+      return { schedule: { type: 'grace', grace_minutes: raw.grace_minutes as number, tax_bps: raw.tax_bps } };
+    }
+
+    case 'decaying':
+    case 'rising':
+      if (!isTaxBps(raw.start_bps) || !isTaxBps(raw.end_bps)) return { error: `Withdrawal tax must be ${range}` };
+      if (raw.type === 'decaying' ? raw.start_bps <= raw.end_bps : raw.start_bps >= raw.end_bps) {
+        return { error: `A ${raw.type} withdrawal tax must ${raw.type === 'decaying' ? 'fall' : 'rise'} towards expiry` };
+      }
+      return { schedule: { type: raw.type, start_bps: raw.start_bps, end_bps: raw.end_bps } };
+
+    default:
+      return { error: 'Withdrawal tax type must be flat, grace, decaying or rising' };
+  }
+}
+
+/**
+ * Withdrawal tax rate a schedule charges at a moment of the presale
+ * @param schedule - The presale's schedule (missing means the flat platform rate)
+ * @param createdAt - Presale start (ISO string)
+ * @param expiresAt - Presale expiry (ISO string)
+ * @returns Tax rate in basis points
+ */
+export function withdrawalTaxBpsAt(
+  schedule: WithdrawalTaxSchedule | undefined,
+  createdAt: string,
+  expiresAt: string,
+  at: Date = new Date()
+): number {
+  const tax = schedule || DEFAULT_WITHDRAWAL_TAX;
+  const start = new Date(createdAt).getTime();
+  const elapsedMs = Math.max(0, at.getTime() - start);
+
+  switch (tax.type) {
+    case 'flat':
+      return tax.tax_bps;
+    case 'grace':
+      return elapsedMs < tax.grace_minutes * 60 * 1000 ? 0 : tax.tax_bps;
+    case 'decaying':
+    case 'rising': {
+      const durationMs = new Date(expiresAt).getTime() - start;
+      const progress = durationMs > 0 ? Math.min(1, elapsedMs / durationMs) : 1;
+      return Math.round(tax.start_bps + (tax.end_bps - tax.start_bps) * progress);
+    }
+  }
+}
+
+/**
+ * Check a creator-supplied launch budget against the platform limits
+ * @param input - Budget as received (untrusted)
+ * @returns The budget with only its known fields, or an error message
+ */
+export function parseLaunchBudget(input: unknown): { budget?: LaunchBudget; error?: string } {
+  const raw = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  const buckets: [keyof LaunchBudget, string, number, number][] = [
+    ['initial_buy_bps', 'Initial buy', PRESALE_CONFIG.MIN_INITIAL_BUY_BPS, PRESALE_CONFIG.MAX_INITIAL_BUY_BPS],
+    ['participant_return_bps', 'Participant return', PRESALE_CONFIG.MIN_PARTICIPANT_RETURN_BPS, PRESALE_CONFIG.MAX_PARTICIPANT_RETURN_BPS],
+    ['platform_fee_bps', 'Platform fee', PRESALE_CONFIG.MIN_PLATFORM_FEE_BPS, PRESALE_CONFIG.MAX_PLATFORM_FEE_BPS],
+    ['network_reserve_bps', 'Network-fee reserve', PRESALE_CONFIG.MIN_NETWORK_RESERVE_BPS, PRESALE_CONFIG.MAX_NETWORK_RESERVE_BPS],
+  ];
+
+  const budget = {} as LaunchBudget;
+  for (const [key, label, min, max] of buckets) {
+    const value = raw[key];
+    if (!Number.isInteger(value) || (value as number) < min || (value as number) > max) {
+      return { error: `${label} must be ${min}-${max} bps` };
+    }
+    budget[key] = value as number;
+  }
+
+  const total = budget.initial_buy_bps + budget.participant_return_bps + budget.platform_fee_bps + budget.network_reserve_bps;
+  if (total !== 10000) {
+    return { error: `Launch budget must add up to 100% of the SOL raised (got ${total / 100}%)` };
+  }
+  return { budget };
+}
+
+/**
+ * Split the SOL a presale raised into its launch budget's buckets
+ * @param budget - The presale's budget (missing means DEFAULT_LAUNCH_BUDGET)
+ * @param totalLamports - Everything the presale raised
+ * @returns Lamports per bucket - the participant return takes the rounding remainder, so they add up to the total
+ */
+export function allocateLaunchBudget(budget: LaunchBudget | undefined, totalLamports: number): LaunchAllocation {
+  const b = budget || DEFAULT_LAUNCH_BUDGET;
+  const share = (bps: number) => Math.floor((totalLamports * bps) / 10000);
+
+  const initialBuy = share(b.initial_buy_bps);
+  const platformFee = share(b.platform_fee_bps);
+  const networkReserve = share(b.network_reserve_bps);
+  return {
+    total_lamports: totalLamports,
+    initial_buy_lamports: initialBuy,
+    participant_return_lamports: totalLamports - initialBuy - platformFee - networkReserve,
+    platform_fee_lamports: platformFee,
+    network_reserve_lamports: networkReserve,
+  };
+}
+
+/**
+ * Describe a withdrawal tax schedule for display (e.g. "8% → 2% by expiry")
+ */
+export function describeWithdrawalTax(schedule: WithdrawalTaxSchedule | undefined): string {
+  const tax = schedule || DEFAULT_WITHDRAWAL_TAX;
+  switch (tax.type) {
+    case 'flat':
+      return `${tax.tax_bps / 100}%`;
+    case 'grace':
+      return `0% for ${tax.grace_minutes} min, then ${tax.tax_bps / 100}%`;
+    case 'decaying':
+    case 'rising':
+      return `${tax.start_bps / 100}% → ${tax.end_bps / 100}% by expiry`;
+  }
+}
+
 /**
  * Calculate withdrawal tax for early withdrawals during active presale
  * @param amountSol - Amount being withdrawn
+ * @param taxBps - Rate in basis points (the presale's current rate - see withdrawalTaxBpsAt)
  * @returns Object with taxAmount and returnAmount
  */
-export function calculateWithdrawalTax(amountSol: number): {
+export function calculateWithdrawalTax(
+  amountSol: number,
+  taxBps: number = PRESALE_CONFIG.WITHDRAWAL_TAX_BPS
+): {
   taxAmount: number;
   returnAmount: number;
 } {
-  const taxAmount = amountSol * (PRESALE_CONFIG.WITHDRAWAL_TAX_BPS / 10000);
+  const taxAmount = amountSol * (taxBps / 10000);
   const returnAmount = amountSol - taxAmount;
   return { taxAmount, returnAmount };
 }
@@ -172,3 +362,62 @@ export function calculateParticipantShare(
 export function bpsToPercent(bps: number): string {
   return `${(bps / 100).toFixed(2)}%`;
 }
+
+/**
+ * Check a creator-supplied soft cap against the presale's own limits
+ * @param input - Soft cap as received (untrusted) - missing means none
+ * @param presale - Target and per-wallet limits the soft cap must sit below
+ * @returns The soft cap with only its known fields (undefined for none), or an error message
+ */
+export function parseSoftCap(
+  input: unknown,
+  presale: { target_participants: number; min_sol_per_wallet: number; max_sol_per_wallet: number }
+): { soft_cap?: SoftCap; error?: string } {
+  if (input === undefined || input === null) return {};
+  const raw = (typeof input === 'object' ? input : {}) as Record<string, unknown>;
+
+  switch (raw.type) {
+    case 'participants': {
+      const min = PRESALE_CONFIG.MIN_SOFT_CAP_PARTICIPANTS;
+      const max = presale.target_participants - 1;
+      if (max < min) return { error: `A soft cap needs a target of at least ${min + 1} participants` };
+      if (!Number.isInteger(raw.min_participants) || (raw.min_participants as number) < min || (raw.min_participants as number) > max) {
+        return { error: `Soft cap must be ${min}-${max} participants` };
+      }
+      return { soft_cap: { type: 'participants', min_participants: raw.min_participants as number } };
+    }
+
+    case 'sol': {
+      // Reachable by one wallet at the minimum, and below what a full presale can raise
+      const min = presale.min_sol_per_wallet;
+      const max = presale.target_participants * presale.max_sol_per_wallet;
+      if (typeof raw.min_sol !== 'number' || !Number.isFinite(raw.min_sol) || raw.min_sol < min || raw.min_sol >= max) {
+        return { error: `Soft cap must be at least ${min} SOL and below ${max} SOL` };
+      }
+      return { soft_cap: { type: 'sol', min_sol: raw.min_sol } };
+    }
+
+    default:
+      return { error: 'Soft cap type must be participants or sol' };
+  }
+}
+
+/**
+ * Whether a presale has reached its soft cap
+ * @param softCap - The presale's soft cap (missing means none - never reached)
+ * @returns True when it may launch without filling
+ */
+export function softCapReached(softCap: SoftCap | undefined, participantCount: number, totalSol: number): boolean {
+  if (!softCap) return false;
+  if (softCap.type === 'participants') return participantCount >= softCap.min_participants;
+  // Compare in lamports - total_sol is a running float sum
+  return Math.round(totalSol * 1e9) >= Math.round(softCap.min_sol * 1e9);
+}
+
+/**
+ * Describe a soft cap for display (e.g. "40 participants" or "2.5 SOL")
+ */
+export function describeSoftCap(softCap: SoftCap | undefined): string {
+  if (!softCap) return 'None';
+  return softCap.type === 'participants' ? `${softCap.min_participants} participants` : `${softCap.min_sol} SOL`;
+}
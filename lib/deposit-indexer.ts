@@ -0,0 +1,371 @@
+// lib/deposit-indexer.ts
+// Escrow deposit indexer - follows new ESCROW_WALLET signatures and confirms memo-tagged deposits
+// The join route is only a fast path; a closed tab between send and POST /join no longer strands SOL
+
+import {
+  Connection,
+  PublicKey,
+  LAMPORTS_PER_SOL,
+  type ConfirmedSignatureInfo,
+  type ParsedTransactionWithMeta,
+} from '@solana/web3.js';
+import { getPresaleStorage } from './presale-storage';
+import {
+  getPresaleById,
+  getConsumedDeposit,
+  checkExpiredPresales,
+  reserveParticipantSlot,
+  releaseParticipantSlot,
+  addConfirmedParticipant,
+  queueOrphanedDeposit,
+  getDepositIntent,
+  type DepositIntent,
+  type OrphanedDeposit,
+  type Presale,
+} from './presale-db';
+import { recordPresaleEvent } from './presale-events';
+import {
+  parseDepositMemo,
+  findTaggedDeposit,
+  candidateReferences,
+  checkDepositTransaction,
+} from './deposit-verify';
+import { launchPresaleToken } from './launch-presale';
+import { ESCROW_WALLET } from './constants';
+
+const INDEXER_RPC_URL = process.env.DEPOSIT_INDEXER_RPC_URL ||
+  process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com';
+
+// Stored in the presale database so restarts resume where they left off
+const INDEXER_CURSOR = 'escrow_deposit_indexer';
+// Comma-separated signatures a backlog walk continues below, newest first (see fetchNewSignatures)
+const INDEXER_BACKFILL_CURSOR = 'escrow_deposit_indexer_backfill';
+// JSON list of tagged deposits whose tx could not be fetched yet
+const INDEXER_RETRY_CURSOR = 'escrow_deposit_indexer_retry';
+
+// First run with no cursor only looks this far back
+const INDEXER_INITIAL_LOOKBACK = 100;
+const INDEXER_PAGE_SIZE = 1000;
+const INDEXER_MAX_PAGES = 20;
+// Unfetchable deposits are retried every run - past this many attempts each failure is logged as an error
+const INDEXER_RETRY_ALERT_ATTEMPTS = 10;
+
+export interface DepositIndexerResult {
+  scanned: number;
+  confirmed: number;
+  skipped: number;
+  orphaned: number; // Tagged deposits that could not be added (full, ended, over the max...) - queued for refund
+  retrying: number; // Tagged deposits whose tx could not be fetched - tried again next run
+  cursor: string | null;
+}
+
+interface RetryEntry {
+  signature: string;
+  attempts: number;
+  last_error: string;
+}
+
+let running: Promise<DepositIndexerResult> | null = null;
+
+// Signatures after the cursor, oldest first, walking at most INDEXER_MAX_PAGES pages per run
+// A bigger backlog takes several runs: a walk that runs out of pages leaves an anchor and the next run continues
+// below it, so the oldest segment is always indexed first and the cursor never skips a signature
+// Returns the anchors to store once the signatures are indexed
+async function fetchNewSignatures(
+  connection: Connection,
+  escrow: PublicKey,
+  until: string | null,
+  anchors: string[]
+): Promise<{ signatures: ConfirmedSignatureInfo[]; anchors: string[] }> {
+  if (!until) {
+    const page = await connection.getSignaturesForAddress(escrow, { limit: INDEXER_INITIAL_LOOKBACK }, 'confirmed');
+    return { signatures: page.reverse(), anchors };
+  }
+
+  const signatures: ConfirmedSignatureInfo[] = [];
+  let before: string | undefined = anchors[anchors.length - 1];
+
+  for (let pages = 0; pages < INDEXER_MAX_PAGES; pages++) {
+    const page = await connection.getSignaturesForAddress(escrow, {
+      before,
+      until,
+      limit: INDEXER_PAGE_SIZE,
+    }, 'confirmed');
+    signatures.push(...page);
+    // Back at the cursor - once these are indexed, the oldest anchor is done with
+    if (page.length < INDEXER_PAGE_SIZE) return { signatures: signatures.reverse(), anchors: anchors.slice(0, -1) };
+    before = page[page.length - 1].signature;
+  }
+
+  // Not back to the cursor yet - continue below the second-oldest signature seen, so the walk that reaches
+  // the cursor includes the oldest one and the cursor ends up right below this anchor
+  console.warn('[DepositIndexer] Backlog exceeds', INDEXER_MAX_PAGES * INDEXER_PAGE_SIZE,
+    'signatures, continuing it over the next runs');
+  return { signatures: [], anchors: [...anchors, signatures[signatures.length - 2].signature] };
+}
+
+async function getRetries(): Promise<RetryEntry[]> {
+  const stored = await getPresaleStorage().getCursor(INDEXER_RETRY_CURSOR);
+  return stored ? JSON.parse(stored) : [];
+}
+
+async function setRetries(retries: RetryEntry[]): Promise<void> {
+  await getPresaleStorage().setCursor(INDEXER_RETRY_CURSOR, JSON.stringify(retries));
+}
+
+// Deposit intent whose reference key this tx carries, if it was built by /deposit-tx
+async function findDepositIntent(tx: ParsedTransactionWithMeta): Promise<DepositIntent | null> {
+  for (const reference of candidateReferences(tx)) {
+    const intent = await getDepositIntent(reference);
+    if (intent) return intent;
+  }
+  return null;
+}
+
+type IndexOutcome = 'confirmed' | 'skipped' | 'orphaned';
+
+export interface DepositSettlement {
+  outcome: IndexOutcome;
+  wallet?: string; // Sender the deposit was credited to (confirmed)
+  presale?: Presale; // Presale after the deposit was credited (confirmed)
+  orphan?: OrphanedDeposit; // Refund queue entry (orphaned)
+}
+
+// Credit a memo-tagged deposit to the signer that sent it, or queue it for refund
+// Decided from on-chain data only, so a caller's claims about wallet or amount cannot redirect anyone's SOL
+async function settleDeposit(
+  connection: Connection,
+  signature: string,
+  escrow: string
+): Promise<DepositSettlement> {
+  if (await getConsumedDeposit(signature)) return { outcome: 'skipped' };
+
+  // RPC errors propagate - the caller retries this signature later
+  const tx = await connection.getParsedTransaction(signature, {
+    commitment: 'confirmed',
+    maxSupportedTransactionVersion: 0,
+  });
+  if (!tx) throw new Error(`Transaction ${signature} not visible yet`);
+
+  const deposit = findTaggedDeposit(tx, escrow);
+  if (!deposit) return { outcome: 'skipped' };
+
+  const { presale_id: presaleId, wallet, lamports } = deposit;
+  const amountSol = lamports / LAMPORTS_PER_SOL;
+
+  // SOL is in escrow but cannot be credited - hand it to the refund queue
+  const orphan = async (reason: string): Promise<DepositSettlement> => {
+    const queued = await queueOrphanedDeposit({ signature, presale_id: presaleId, wallet, lamports, reason });
+    // null: a concurrent join credited it first
+    if (!queued) return { outcome: 'skipped' };
+    console.warn('[DepositIndexer] Orphaned deposit:', signature, reason);
+    return { outcome: 'orphaned', orphan: queued };
+  };
+
+  const presale = await getPresaleById(presaleId);
+  if (!presale) return orphan('Presale not found');
+
+  // Intent-tagged deposits must match what was issued and land before the intent expired
+  const intent = await findDepositIntent(tx);
+  if (intent && (intent.presale_id !== presaleId || intent.wallet !== wallet)) {
+    return orphan('Deposit does not match its deposit intent');
+  }
+
+  const check = checkDepositTransaction(tx, {
+    signature,
+    wallet,
+    escrow_wallet: escrow,
+    expected_lamports: intent ? intent.amount_lamports : lamports,
+    not_before: intent ? intent.created_at : presale.created_at,
+    ...(intent && { not_after: intent.expires_at, reference: intent.reference }),
+  });
+  if (check.status === 'rejected') return orphan(check.error);
+
+  // Same path as the join route: reserve, then add and confirm under the presale lock
+  const reservation = await reserveParticipantSlot(presaleId, wallet);
+  if (!reservation.success) return orphan(reservation.error || 'No slot available');
+
+  let result: Awaited<ReturnType<typeof addConfirmedParticipant>>;
+  try {
+    await recordPresaleEvent({
+      presale_id: presaleId,
+      type: 'deposit_verified',
+      actor_wallet: wallet,
+      amount_lamports: lamports,
+      tx_signatures: [signature],
+      details: { slot: tx.slot, source: 'indexer', ...(intent && { reference: intent.reference }) },
+    });
+
+    result = await addConfirmedParticipant({
+      presale_id: presaleId,
+      wallet,
+      amount_sol: amountSol,
+      tx_signature: signature,
+      deposit_lamports: lamports,
+      ...(intent && { intent_reference: intent.reference }),
+    });
+  } finally {
+    releaseParticipantSlot(presaleId, wallet);
+  }
+
+  if (!result.success || !result.presale) {
+    return orphan(result.error || 'Failed to confirm participant');
+  }
+
+  console.log('[DepositIndexer]', result.top_up ? 'Topped up' : 'Confirmed', wallet, amountSol, 'SOL in', presaleId);
+
+  // Auto-launch when full, as the join route does
+  let updated = result.presale;
+  if (updated.status === 'active' && updated.participant_count >= updated.target_participants) {
+    try {
+      const launch = await launchPresaleToken(presaleId, false);
+      if (!launch.success) console.error('[DepositIndexer] Auto-launch failed:', launch.error);
+      updated = (await getPresaleById(presaleId)) || updated;
+    } catch (e: any) {
+      console.error('[DepositIndexer] Auto-launch error:', e.message);
+    }
+  }
+
+  return { outcome: 'confirmed', wallet, presale: updated };
+}
+
+// A tx that cannot be fetched goes on the retry list instead of holding the cursor back
+async function indexSignature(
+  connection: Connection,
+  info: ConfirmedSignatureInfo,
+  escrow: string,
+  retries: RetryEntry[]
+): Promise<IndexOutcome | 'retrying'> {
+  if (info.err) return 'skipped';
+
+  // getSignaturesForAddress already returns memos, so untagged txs never cost a fetch
+  if (!parseDepositMemo(info.memo)) return 'skipped';
+
+  try {
+    const settlement = await settleDeposit(connection, info.signature, escrow);
+    return settlement.outcome;
+  } catch (e: any) {
+    console.warn('[DepositIndexer] Will retry', info.signature, e.message);
+    retries.push({ signature: info.signature, attempts: 1, last_error: e.message });
+    return 'retrying';
+  }
+}
+
+// Retry tagged deposits whose tx could not be fetched on an earlier run - kept until they settle
+async function retryDeposits(
+  connection: Connection,
+  escrow: string,
+  retries: RetryEntry[],
+  result: DepositIndexerResult
+): Promise<RetryEntry[]> {
+  const remaining: RetryEntry[] = [];
+
+  for (const entry of retries) {
+    try {
+      const settlement = await settleDeposit(connection, entry.signature, escrow);
+      result[settlement.outcome]++;
+    } catch (e: any) {
+      remaining.push({ ...entry, attempts: entry.attempts + 1, last_error: e.message });
+      if (entry.attempts + 1 >= INDEXER_RETRY_ALERT_ATTEMPTS) {
+        console.error('[DepositIndexer] Still cannot fetch', entry.signature, 'after', entry.attempts + 1, 'attempts:', e.message);
+      }
+    }
+  }
+  return remaining;
+}
+
+// Settle one deposit now - used by the join route when it cannot credit a deposit as claimed
+// Returns null if the tx is not visible yet (the scheduled indexer will pick it up)
+export async function settleDepositSignature(signature: string): Promise<DepositSettlement | null> {
+  try {
+    const connection = new Connection(INDEXER_RPC_URL, 'confirmed');
+    return await settleDeposit(connection, signature, ESCROW_WALLET);
+  } catch (e: any) {
+    console.error('[DepositIndexer] Could not settle', signature, e.message);
+    return null;
+  }
+}
+
+async function indexDeposits(): Promise<DepositIndexerResult> {
+  const storage = getPresaleStorage();
+  const connection = new Connection(INDEXER_RPC_URL, 'confirmed');
+  const escrow = new PublicKey(ESCROW_WALLET);
+
+  const result: DepositIndexerResult = {
+    scanned: 0,
+    confirmed: 0,
+    skipped: 0,
+    orphaned: 0,
+    retrying: 0,
+    cursor: await storage.getCursor(INDEXER_CURSOR),
+  };
+
+  const storedAnchors = (await storage.getCursor(INDEXER_BACKFILL_CURSOR)) || '';
+  const fetched = await fetchNewSignatures(
+    connection, escrow, result.cursor, storedAnchors ? storedAnchors.split(',') : []
+  );
+  const retries = await getRetries();
+
+  try {
+    if (fetched.signatures.length > 0 || retries.length > 0) {
+      await checkExpiredPresales();
+
+      const pending = await retryDeposits(connection, escrow.toBase58(), retries, result);
+      if (retries.length > 0) await setRetries(pending);
+
+      for (const info of fetched.signatures) {
+        const outcome = await indexSignature(connection, info, escrow.toBase58(), pending);
+        result.scanned++;
+        result[outcome]++;
+        if (outcome === 'retrying') await setRetries(pending);
+
+        // Advance only past signatures that are handled or on the retry list
+        await storage.setCursor(INDEXER_CURSOR, info.signature);
+        result.cursor = info.signature;
+      }
+      result.retrying = pending.length;
+    }
+
+    // Saved once the segment below the oldest anchor is indexed (or a new anchor was left for the next run)
+    if (fetched.anchors.join(',') !== storedAnchors) {
+      await storage.setCursor(INDEXER_BACKFILL_CURSOR, fetched.anchors.join(','));
+    }
+  } finally {
+    await storage.flush();
+  }
+
+  if (result.confirmed > 0 || result.orphaned > 0 || result.retrying > 0) {
+    console.log('[DepositIndexer] Scanned', result.scanned, '| confirmed', result.confirmed, '| orphaned', result.orphaned,
+      '| retrying', result.retrying);
+  }
+  return result;
+}
+
+// Run the indexer once (concurrent callers share the same run)
+export async function runDepositIndexer(): Promise<DepositIndexerResult> {
+  if (running) return running;
+
+  running = indexDeposits().finally(() => {
+    running = null;
+  });
+
+  return running;
+}
+
+// ============ SCHEDULED JOB ============
+
+let jobTimer: NodeJS.Timeout | null = null;
+
+// Poll every DEPOSIT_INDEXER_INTERVAL_SECONDS (default 20, 0 disables)
+export function startDepositIndexerJob(): void {
+  const seconds = parseInt(process.env.DEPOSIT_INDEXER_INTERVAL_SECONDS || '20');
+  if (!seconds || jobTimer) return;
+
+  console.log('[DepositIndexer] Following', ESCROW_WALLET, 'every', seconds, 'seconds');
+  jobTimer = setInterval(() => {
+    runDepositIndexer().catch((e) => {
+      console.error('[DepositIndexer] Run failed:', e.message);
+    });
+  }, seconds * 1000);
+  jobTimer.unref?.();
+}
@@ -0,0 +1,243 @@
+// lib/deposit-verify.ts
+// Strict on-chain verification of presale deposits
+// A deposit counts only if the claimed wallet signed the tx and moved the SOL itself via SystemProgram.transfer
+
+import {
+  Connection,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+  type ParsedInstruction,
+  type ParsedTransactionWithMeta,
+  type PartiallyDecodedInstruction,
+} from '@solana/web3.js';
+
+// Rounding slack between the client's SOL amount and the lamports it sent
+const DEPOSIT_TOLERANCE_LAMPORTS = 1000;
+
+// Clock skew allowed between the presale's created_at and the deposit's block time
+const BLOCK_TIME_SKEW_SECONDS = 120;
+
+// How long a client should wait before retrying a pending deposit
+export const DEPOSIT_RETRY_AFTER_MS = 5000;
+
+// SPL Memo program - deposits carry a memo naming their presale so the indexer can match them
+export const MEMO_PROGRAM_ID = new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
+const DEPOSIT_MEMO_PREFIX = 'bags69:presale:';
+const DEPOSIT_MEMO_PATTERN = /bags69:presale:([A-Za-z0-9]+)/;
+
+export type DepositVerification =
+  | { status: 'verified'; lamports: number; slot: number; block_time: number | null }
+  // Not decided yet (tx not visible, RPC down) - nothing was recorded, the client should retry
+  | { status: 'pending'; reason: string }
+  // The tx will never be a valid deposit for this wallet
+  | { status: 'rejected'; error: string };
+
+export interface DepositClaim {
+  signature: string;
+  wallet: string;
+  escrow_wallet: string;
+  expected_lamports: number;
+  not_before?: string; // ISO timestamp - deposits must land after this (presale creation)
+  not_after?: string; // ISO timestamp - deposit intent expiry
+  reference?: string; // Deposit intent reference key the tx must carry
+}
+
+function isParsedInstruction(ix: ParsedInstruction | PartiallyDecodedInstruction): ix is ParsedInstruction {
+  return 'parsed' in ix;
+}
+
+// ============ DEPOSIT MEMO ============
+
+export function depositMemo(presaleId: string): string {
+  return `${DEPOSIT_MEMO_PREFIX}${presaleId}`;
+}
+
+// Memo instruction to add alongside the SystemProgram.transfer of a deposit
+export function createDepositMemoInstruction(presaleId: string): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: MEMO_PROGRAM_ID,
+    keys: [],
+    data: Buffer.from(depositMemo(presaleId), 'utf-8'),
+  });
+}
+
+// Presale id from a memo string - accepts the "[len] memo; [len] memo" form getSignaturesForAddress returns
+export function parseDepositMemo(memo: string | null | undefined): string | null {
+  if (!memo) return null;
+  const match = memo.match(DEPOSIT_MEMO_PATTERN);
+  return match ? match[1] : null;
+}
+
+// Presale id named by the tx's top-level memo instruction, if any
+export function findDepositMemo(tx: ParsedTransactionWithMeta): string | null {
+  for (const ix of tx.transaction.message.instructions) {
+    if (!isParsedInstruction(ix) || !ix.programId.equals(MEMO_PROGRAM_ID)) continue;
+    const presaleId = parseDepositMemo(typeof ix.parsed === 'string' ? ix.parsed : null);
+    if (presaleId) return presaleId;
+  }
+  return null;
+}
+
+// Unsigned deposit tx: transfer (tagged with the intent's reference key) + presale memo
+export function buildDepositTransaction(data: {
+  presale_id: string;
+  wallet: PublicKey;
+  escrow: PublicKey;
+  lamports: number;
+  reference: PublicKey;
+  blockhash: string;
+}): Transaction {
+  const transfer = SystemProgram.transfer({
+    fromPubkey: data.wallet,
+    toPubkey: data.escrow,
+    lamports: data.lamports,
+  });
+  // Read-only extra key - lets the tx be found with getSignaturesForAddress(reference)
+  transfer.keys.push({ pubkey: data.reference, isSigner: false, isWritable: false });
+
+  const transaction = new Transaction().add(transfer, createDepositMemoInstruction(data.presale_id));
+  transaction.recentBlockhash = data.blockhash;
+  transaction.feePayer = data.wallet;
+  return transaction;
+}
+
+// ============ TRANSFER CHECKS ============
+
+// Sum every top-level SystemProgram.transfer from `source` to `destination`
+export function sumSystemTransfers(
+  tx: ParsedTransactionWithMeta,
+  source: string,
+  destination: string
+): number {
+  let lamports = 0;
+  for (const ix of tx.transaction.message.instructions) {
+    if (!isParsedInstruction(ix)) continue;
+    if (!ix.programId.equals(SystemProgram.programId)) continue;
+    if (ix.parsed?.type !== 'transfer') continue;
+
+    const info = ix.parsed.info || {};
+    if (info.source === source && info.destination === destination) {
+      lamports += Number(info.lamports) || 0;
+    }
+  }
+  return lamports;
+}
+
+export function isSigner(tx: ParsedTransactionWithMeta, wallet: string): boolean {
+  return tx.transaction.message.accountKeys.some(k => k.signer && k.pubkey.toBase58() === wallet);
+}
+
+// The single signer that sent SOL to escrow in this tx (null if none or ambiguous)
+export function findDepositor(tx: ParsedTransactionWithMeta, escrow: string): string | null {
+  const senders = new Set<string>();
+  for (const key of tx.transaction.message.accountKeys) {
+    const wallet = key.pubkey.toBase58();
+    if (wallet !== escrow && isSigner(tx, wallet) && sumSystemTransfers(tx, wallet, escrow) > 0) {
+      senders.add(wallet);
+    }
+  }
+  return senders.size === 1 ? Array.from(senders)[0] : null;
+}
+
+// Memo-tagged deposit into escrow: which presale, who sent it, how much
+export function findTaggedDeposit(
+  tx: ParsedTransactionWithMeta,
+  escrow: string
+): { presale_id: string; wallet: string; lamports: number } | null {
+  if (tx.meta?.err) return null;
+
+  const presale_id = findDepositMemo(tx);
+  const wallet = findDepositor(tx, escrow);
+  if (!presale_id || !wallet) return null;
+
+  return { presale_id, wallet, lamports: sumSystemTransfers(tx, wallet, escrow) };
+}
+
+// Non-signer keys that could be a deposit intent reference
+export function candidateReferences(tx: ParsedTransactionWithMeta): string[] {
+  return tx.transaction.message.accountKeys
+    .filter(k => !k.signer && !k.writable)
+    .map(k => k.pubkey.toBase58())
+    .filter(key => key !== SystemProgram.programId.toBase58() && key !== MEMO_PROGRAM_ID.toBase58());
+}
+
+// ============ VERIFICATION ============
+
+// Check a deposit transaction against what the caller claims it is
+export function checkDepositTransaction(tx: ParsedTransactionWithMeta, claim: DepositClaim): DepositVerification {
+  if (tx.meta?.err) {
+    return { status: 'rejected', error: 'Transaction failed on-chain' };
+  }
+
+  if (!isSigner(tx, claim.wallet)) {
+    return { status: 'rejected', error: 'Transaction was not signed by the joining wallet' };
+  }
+
+  if (claim.not_before && tx.blockTime) {
+    const notBefore = Math.floor(new Date(claim.not_before).getTime() / 1000) - BLOCK_TIME_SKEW_SECONDS;
+    if (tx.blockTime < notBefore) {
+      return { status: 'rejected', error: 'Transaction predates this presale' };
+    }
+  }
+
+  if (claim.not_after && tx.blockTime) {
+    const notAfter = Math.floor(new Date(claim.not_after).getTime() / 1000) + BLOCK_TIME_SKEW_SECONDS;
+    if (tx.blockTime > notAfter) {
+      return { status: 'rejected', error: 'Deposit intent expired before the transaction landed' };
+    }
+  }
+
+  if (claim.reference && !tx.transaction.message.accountKeys.some(k => k.pubkey.toBase58() === claim.reference)) {
+    return { status: 'rejected', error: 'Transaction does not carry the deposit reference' };
+  }
+
+  const lamports = sumSystemTransfers(tx, claim.wallet, claim.escrow_wallet);
+  if (lamports === 0) {
+    return { status: 'rejected', error: 'Transaction does not transfer SOL from the joining wallet to the escrow wallet' };
+  }
+
+  if (Math.abs(lamports - claim.expected_lamports) > DEPOSIT_TOLERANCE_LAMPORTS) {
+    return {
+      status: 'rejected',
+      error: `Amount mismatch. Expected ${claim.expected_lamports} lamports, transferred ${lamports} lamports`,
+    };
+  }
+
+  return { status: 'verified', lamports, slot: tx.slot, block_time: tx.blockTime ?? null };
+}
+
+// Fetch and verify a deposit - fails closed: RPC errors and unseen txs are pending, never verified
+export async function verifyDeposit(
+  connection: Connection,
+  claim: DepositClaim,
+  attempts = 2,
+  retryDelayMs = 3000
+): Promise<DepositVerification> {
+  try {
+    new PublicKey(claim.wallet);
+  } catch {
+    return { status: 'rejected', error: 'Invalid wallet address' };
+  }
+
+  let lastReason = 'Transaction not found yet';
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    if (attempt > 0) await new Promise(resolve => setTimeout(resolve, retryDelayMs));
+
+    try {
+      const tx = await connection.getParsedTransaction(claim.signature, {
+        commitment: 'confirmed',
+        maxSupportedTransactionVersion: 0,
+      });
+
+      if (tx) return checkDepositTransaction(tx, claim);
+      lastReason = 'Transaction not found yet';
+    } catch (e: any) {
+      console.error('[DepositVerify] RPC error for', claim.signature, e.message);
+      lastReason = `RPC error: ${e.message}`;
+    }
+  }
+
+  return { status: 'pending', reason: lastReason };
+}
@@ -0,0 +1,211 @@
+// lib/escrow-payouts.test.ts
+// A withdrawal is recorded as a payout intent before its tx is sent, so however many requests arrive it pays once
+
+import { test, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import bs58 from 'bs58';
+import { Connection, Keypair, PublicKey, SystemProgram, Transaction } from '@solana/web3.js';
+
+// The storage backend is read when first loaded - point it at a scratch file before importing
+const dir = mkdtempSync(join(tmpdir(), 'escrow-payouts-test-'));
+process.env.PRESALE_STORAGE = 'json';
+process.env.PRESALE_DB_PATH = join(dir, 'presales.json');
+
+const escrow = Keypair.generate();
+
+// A fake chain: every sent tx lands, and a blockhash expires 1000 blocks after it was handed out
+const chain = {
+  blockHeight: 0,
+  statuses: new Map<string, { err: unknown; confirmationStatus: 'confirmed'; slot: number }>(),
+  sent: [] as string[],
+  onSend: async (_signature: string) => {},
+};
+const rpc = Connection.prototype as any;
+rpc.getBalance = async () => 100_000_000_000;
+rpc.getRecentPrioritizationFees = async () => [];
+rpc.getFeeForMessage = async () => ({ context: { slot: 1 }, value: 5000 });
+rpc.getLatestBlockhash = async () => ({
+  blockhash: Keypair.generate().publicKey.toBase58(),
+  lastValidBlockHeight: chain.blockHeight + 1000,
+});
+rpc.sendRawTransaction = async (raw: Buffer) => {
+  const signature = bs58.encode(Transaction.from(raw).signature!);
+  chain.sent.push(signature);
+  await chain.onSend(signature);
+  chain.statuses.set(signature, { err: null, confirmationStatus: 'confirmed', slot: 1 });
+  return signature;
+};
+rpc.getSignatureStatuses = async (signatures: string[]) => ({
+  context: { slot: 1 },
+  value: signatures.map(s => chain.statuses.get(s) || null),
+});
+Object.defineProperty(rpc, 'getBlockHeight', { get() { return async () => chain.blockHeight; }, set() {} });
+
+const connection = new Connection('http://127.0.0.1:8899');
+
+let db: typeof import('./presale-db');
+let payouts: typeof import('./escrow-payouts');
+let storage: ReturnType<typeof import('./presale-storage').getPresaleStorage>;
+
+before(async () => {
+  db = await import('./presale-db');
+  payouts = await import('./escrow-payouts');
+  storage = (await import('./presale-storage')).getPresaleStorage();
+});
+
+beforeEach(() => {
+  chain.blockHeight = 0;
+  chain.sent = [];
+  chain.onSend = async () => {};
+});
+
+after(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+// An active presale with one participant who deposited 0.05 SOL
+async function createParticipant() {
+  const wallet = Keypair.generate().publicKey.toBase58();
+  const presale = await db.createPresale({
+    creator_wallet: Keypair.generate().publicKey.toBase58(),
+    token_name: 'Test',
+    token_symbol: 'TEST',
+    description: 'Test presale',
+    image_url: 'https://example.com/test.png',
+    target_participants: 30,
+    launch_fee_signature: `fee-${wallet}`,
+  });
+  const joined = await db.addConfirmedParticipant({
+    presale_id: presale.id,
+    wallet,
+    amount_sol: 0.05,
+    tx_signature: `${presale.id}-deposit`,
+    deposit_lamports: 50_000_000,
+  });
+  assert.ok(joined.success, joined.error);
+  return { presale, wallet };
+}
+
+async function participantOf(presale_id: string) {
+  const [participant] = await storage.listParticipants({ presale_id });
+  return participant;
+}
+
+async function quote(amount_lamports: number) {
+  return payouts.quoteWithdrawal(connection, escrow.publicKey, amount_lamports, amount_lamports / 10);
+}
+
+// What a request that died right after recording its payout leaves behind
+async function recordPayout(presale_id: string, wallet: string, amount_lamports: number) {
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+  const tx = new Transaction({ feePayer: escrow.publicKey, blockhash, lastValidBlockHeight }).add(
+    SystemProgram.transfer({ fromPubkey: escrow.publicKey, toPubkey: new PublicKey(wallet), lamports: amount_lamports })
+  );
+  tx.sign(escrow);
+
+  const intent = await db.beginPayoutIntent({
+    presale_id,
+    wallet,
+    amount_lamports,
+    lamports: amount_lamports,
+    tax_lamports: 0,
+    fee_lamports: 5000,
+    signature: bs58.encode(tx.signature!),
+    blockhash,
+    last_valid_block_height: lastValidBlockHeight,
+    transaction: tx.serialize().toString('base64'),
+  });
+  assert.ok(intent);
+  return intent;
+}
+
+test('a withdrawal is recorded before it is sent and closed once it lands', async () => {
+  const { presale, wallet } = await createParticipant();
+
+  let openAtSend: string[] = [];
+  chain.onSend = async () => {
+    openAtSend = (await db.getOpenPayoutIntents(presale.id)).map(i => i.signature);
+  };
+
+  const result = await payouts.payWithdrawal(connection, escrow, { presale_id: presale.id, wallet, quote: await quote(50_000_000) });
+  assert.equal(result.outcome, 'confirmed');
+  assert.deepEqual(openAtSend, [result.intent!.signature]);
+  assert.equal(result.intent!.status, 'confirmed');
+  assert.deepEqual(await db.getOpenPayoutIntents(presale.id), []);
+
+  const participant = await participantOf(presale.id);
+  assert.equal(participant.withdrawn, true);
+  assert.equal(participant.withdraw_signature, result.intent!.signature);
+  assert.equal((await db.getPresaleById(presale.id))?.participant_count, 0);
+});
+
+test('a partial withdrawal keeps the participant in with the rest', async () => {
+  const { presale, wallet } = await createParticipant();
+
+  const result = await payouts.payWithdrawal(connection, escrow, { presale_id: presale.id, wallet, quote: await quote(20_000_000) });
+  assert.equal(result.outcome, 'confirmed');
+
+  const participant = await participantOf(presale.id);
+  assert.equal(participant.withdrawn, false);
+  assert.equal(participant.amount_sol, 0.03);
+  assert.equal(participant.withdrawn_sol, 0.02);
+});
+
+test('a retried request resends the recorded payout instead of signing a new one', async () => {
+  const { presale, wallet } = await createParticipant();
+  const recorded = await recordPayout(presale.id, wallet, 50_000_000);
+
+  // The retry asks for less - the recorded tx is what may be on chain, so it is what gets paid
+  const result = await payouts.payWithdrawal(connection, escrow, { presale_id: presale.id, wallet, quote: await quote(20_000_000) });
+  assert.equal(result.outcome, 'confirmed');
+  assert.deepEqual(chain.sent, [recorded.signature]);
+
+  const participant = await participantOf(presale.id);
+  assert.equal(participant.withdrawn, true);
+  assert.equal(participant.withdraw_signature, recorded.signature);
+});
+
+test('a recorded payout that landed is completed without sending anything', async () => {
+  const { presale, wallet } = await createParticipant();
+  const recorded = await recordPayout(presale.id, wallet, 50_000_000);
+  chain.statuses.set(recorded.signature, { err: null, confirmationStatus: 'confirmed', slot: 1 });
+
+  const result = await payouts.payWithdrawal(connection, escrow, { presale_id: presale.id, wallet, quote: await quote(50_000_000) });
+  assert.equal(result.outcome, 'confirmed');
+  assert.equal(result.intent!.signature, recorded.signature);
+  assert.deepEqual(chain.sent, []);
+});
+
+test('an expired payout is closed and the request builds a new tx', async () => {
+  const { presale, wallet } = await createParticipant();
+  const recorded = await recordPayout(presale.id, wallet, 50_000_000);
+
+  // Past the recorded tx's last valid height - it can never land, so the retry signs a new one
+  chain.blockHeight = 1001;
+  const result = await payouts.payWithdrawal(connection, escrow, { presale_id: presale.id, wallet, quote: await quote(50_000_000) });
+  assert.equal(result.outcome, 'confirmed');
+  assert.notEqual(result.intent!.signature, recorded.signature);
+  assert.deepEqual(chain.sent, [result.intent!.signature]);
+  const [closed] = await storage.listPayoutIntents({ presale_id: presale.id, status: 'expired' });
+  assert.equal(closed?.signature, recorded.signature);
+
+  const participant = await participantOf(presale.id);
+  assert.equal(participant.withdraw_signature, result.intent!.signature);
+});
+
+test('settling open payouts completes the landed ones and leaves the rest open', async () => {
+  const first = await createParticipant();
+  const second = await createParticipant();
+  const landed = await recordPayout(first.presale.id, first.wallet, 50_000_000);
+  const pending = await recordPayout(second.presale.id, second.wallet, 50_000_000);
+  chain.statuses.set(landed.signature, { err: null, confirmationStatus: 'confirmed', slot: 1 });
+
+  assert.equal(await payouts.settlePayoutIntents(connection), 1);
+  assert.deepEqual(chain.sent, []);
+  assert.deepEqual((await db.getOpenPayoutIntents()).map(i => i.signature), [pending.signature]);
+  assert.equal((await participantOf(first.presale.id)).withdrawn, true);
+  assert.equal((await participantOf(second.presale.id)).withdrawn, false);
+});
@@ -0,0 +1,259 @@
+// lib/escrow-payouts.ts
+// Two-phase withdrawal payouts - the signed tx is recorded as a payout intent before it is sent
+// A retry first checks whether that signature landed and resends the same bytes while its blockhash is valid,
+// so a withdrawal is paid at most once however many requests arrive (sending goes through tx-sender)
+
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  LAMPORTS_PER_SOL,
+} from '@solana/web3.js';
+import bs58 from 'bs58';
+import {
+  beginPayoutIntent,
+  getOpenPayoutIntent,
+  getOpenPayoutIntents,
+  updatePayoutIntent,
+  markParticipantWithdrawn,
+  type PayoutIntent,
+} from './presale-db';
+import { flagEscrowShortfall } from './escrow-reconcile';
+import {
+  estimatePayoutFee,
+  payoutBudgetInstructions,
+  payoutFeeShare,
+  type PayoutFee,
+} from './payout-fees';
+import { sendTransaction } from './tx-sender';
+import { TAX_WALLET, ESCROW_WALLET } from './constants';
+
+export type PayoutOutcome =
+  | 'confirmed' // Landed - participant marked withdrawn
+  | 'failed' // Tx rejected, failed on chain or expired - nothing moved, a new request builds a new tx
+  | 'in_flight' // Sent, outcome unknown - resent or settled on a later request
+  | 'skipped' // Another payout or a refund already holds the participant
+  | 'shortfall'; // Escrow cannot cover the payout - flagged for reconciliation
+
+// Amounts a withdrawal pays - quoted identically for the preview and the payout
+export interface WithdrawalQuote {
+  amount_lamports: number; // Contribution withdrawn - less than all of it for a partial withdrawal
+  lamports: number; // To the wallet
+  tax_lamports: number; // To TAX_WALLET
+  fee: PayoutFee;
+}
+
+export interface PayoutResult {
+  outcome: PayoutOutcome;
+  intent?: PayoutIntent;
+  error?: string;
+}
+
+type PayoutState = 'landed' | 'failed' | 'expired' | 'pending';
+
+// Where a recorded payout tx stands on chain
+async function checkPayout(
+  connection: Connection,
+  intent: PayoutIntent
+): Promise<{ state: PayoutState; error?: string }> {
+  const { value: [status] } = await connection.getSignatureStatuses(
+    [intent.signature],
+    { searchTransactionHistory: true }
+  );
+
+  if (status && !status.err && status.confirmationStatus !== 'processed') return { state: 'landed' };
+  if (status?.err) return { state: 'failed', error: `Payout tx failed: ${JSON.stringify(status.err)}` };
+
+  if (!status) {
+    const height = await connection.getBlockHeight('confirmed');
+    if (height > intent.last_valid_block_height) {
+      // Blockhash expired without the tx landing - it can never land now
+      return { state: 'expired', error: 'Payout tx expired before landing' };
+    }
+  }
+
+  return { state: 'pending' };
+}
+
+async function completePayout(intent: PayoutIntent): Promise<PayoutIntent> {
+  // false only if an earlier run already marked it - the intent still needs closing
+  await markParticipantWithdrawn(
+    intent.presale_id,
+    intent.wallet,
+    intent.signature,
+    intent.tax_lamports / LAMPORTS_PER_SOL,
+    intent.amount_lamports
+  );
+
+  const confirmed: PayoutIntent = { ...intent, status: 'confirmed', error: undefined };
+  await updatePayoutIntent(confirmed);
+
+  console.log('[EscrowPayouts] Withdrawal landed:', intent.wallet, intent.signature);
+  return confirmed;
+}
+
+// Send (or resend) the recorded tx - the bytes never change, so it can only land once
+async function sendPayout(connection: Connection, intent: PayoutIntent, resend: boolean): Promise<PayoutResult> {
+  const sent = await sendTransaction(connection, {
+    serialized: Buffer.from(intent.transaction, 'base64'),
+    signature: intent.signature,
+    blockhash: intent.blockhash,
+    last_valid_block_height: intent.last_valid_block_height,
+  }, {
+    // Even a rejected resend may have an earlier copy in flight - only the chain can say it failed
+    skipPreflight: resend,
+  });
+
+  switch (sent.outcome) {
+    case 'confirmed':
+      return { outcome: 'confirmed', intent: await completePayout(intent) };
+
+    case 'failed':
+    case 'expired': {
+      // Nothing moved - a new request builds a new tx
+      const closed: PayoutIntent = { ...intent, status: sent.outcome, error: sent.error };
+      await updatePayoutIntent(closed);
+      return { outcome: 'failed', intent: closed, error: sent.error };
+    }
+
+    case 'insufficient_funds': {
+      const closed: PayoutIntent = { ...intent, status: 'failed', error: sent.error };
+      await updatePayoutIntent(closed);
+      flagEscrowShortfall({
+        presale_id: intent.presale_id,
+        wallet: intent.wallet,
+        needed_lamports: intent.lamports + intent.tax_lamports + (intent.fee_lamports || 0),
+        balance_lamports: await connection.getBalance(new PublicKey(ESCROW_WALLET), 'confirmed'),
+      });
+      return { outcome: 'shortfall', intent: closed, error: sent.error };
+    }
+
+    case 'unknown':
+      // Stays 'sent' until settlePayoutIntents or a retried request sees it land or expire
+      console.error('[EscrowPayouts] Outcome unknown for', intent.signature, sent.error);
+      return { outcome: 'in_flight', intent, error: sent.error };
+  }
+}
+
+// Resolve a recorded payout - returns null once it can never land (a new tx may be built)
+async function resumePayout(connection: Connection, intent: PayoutIntent): Promise<PayoutResult | null> {
+  const check = await checkPayout(connection, intent);
+
+  if (check.state === 'landed') {
+    return { outcome: 'confirmed', intent: await completePayout(intent) };
+  }
+
+  if (check.state === 'failed' || check.state === 'expired') {
+    await updatePayoutIntent({ ...intent, status: check.state, error: check.error });
+    return null;
+  }
+
+  return sendPayout(connection, intent, true);
+}
+
+// ============ WITHDRAWALS ============
+
+// Split a withdrawal of `amount_lamports` (all or part of a contribution) into what the wallet receives, the tax and the network fee
+export async function quoteWithdrawal(
+  connection: Connection,
+  escrow: PublicKey,
+  amount_lamports: number,
+  tax_lamports: number
+): Promise<WithdrawalQuote> {
+  const fee = await estimatePayoutFee(connection, escrow, tax_lamports > 0 ? 2 : 1);
+  return {
+    amount_lamports,
+    lamports: amount_lamports - tax_lamports - payoutFeeShare(fee, 1),
+    tax_lamports,
+    fee,
+  };
+}
+
+// Pay a quoted withdrawal from escrow: the wallet's share and the tax in one tx
+// An open payout for the wallet is finished first, at the amounts it was signed with
+export async function payWithdrawal(
+  connection: Connection,
+  escrowKeypair: Keypair,
+  data: {
+    presale_id: string;
+    wallet: string;
+    quote: WithdrawalQuote;
+  }
+): Promise<PayoutResult> {
+  const open = await getOpenPayoutIntent(data.presale_id, data.wallet);
+  if (open) {
+    const resumed = await resumePayout(connection, open);
+    if (resumed) return resumed;
+  }
+
+  const { amount_lamports, lamports, tax_lamports, fee } = data.quote;
+  const needed = lamports + tax_lamports + fee.fee_lamports;
+  const balance = await connection.getBalance(escrowKeypair.publicKey, 'confirmed');
+  if (balance < needed) {
+    flagEscrowShortfall({
+      presale_id: data.presale_id,
+      wallet: data.wallet,
+      needed_lamports: needed,
+      balance_lamports: balance,
+    });
+    return { outcome: 'shortfall' };
+  }
+
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+  const transaction = new Transaction({
+    feePayer: escrowKeypair.publicKey,
+    blockhash,
+    lastValidBlockHeight,
+  }).add(...payoutBudgetInstructions(fee));
+  if (tax_lamports > 0) {
+    transaction.add(SystemProgram.transfer({
+      fromPubkey: escrowKeypair.publicKey,
+      toPubkey: new PublicKey(TAX_WALLET),
+      lamports: tax_lamports,
+    }));
+  }
+  transaction.add(SystemProgram.transfer({
+    fromPubkey: escrowKeypair.publicKey,
+    toPubkey: new PublicKey(data.wallet),
+    lamports,
+  }));
+  transaction.sign(escrowKeypair);
+
+  // The signature exists before the tx is sent - record it first so no retry can pay twice
+  const intent = await beginPayoutIntent({
+    presale_id: data.presale_id,
+    wallet: data.wallet,
+    amount_lamports,
+    lamports,
+    tax_lamports,
+    fee_lamports: fee.fee_lamports,
+    signature: bs58.encode(transaction.signature!),
+    blockhash,
+    last_valid_block_height: lastValidBlockHeight,
+    transaction: transaction.serialize().toString('base64'),
+  });
+  if (!intent) {
+    return { outcome: 'skipped', intent: (await getOpenPayoutIntent(data.presale_id, data.wallet)) || undefined };
+  }
+
+  return sendPayout(connection, intent, false);
+}
+
+// Settle payouts left open by requests that never came back (no resend - only land or expire)
+// The refund worker runs this first, so a withdrawal that landed is never also refunded
+export async function settlePayoutIntents(connection: Connection, presale_id?: string): Promise<number> {
+  let settled = 0;
+
+  for (const intent of await getOpenPayoutIntents(presale_id)) {
+    const check = await checkPayout(connection, intent);
+    if (check.state === 'pending') continue;
+
+    if (check.state === 'landed') await completePayout(intent);
+    else await updatePayoutIntent({ ...intent, status: check.state, error: check.error });
+    settled++;
+  }
+
+  return settled;
+}
@@ -0,0 +1,139 @@
+// lib/escrow-reconcile.test.ts
+// Escrow liabilities follow the SOL: a launch stops owing participants once its fund step has moved their deposits
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Connection } from '@solana/web3.js';
+
+// The storage backend reads its location when first loaded - point it at a scratch file before importing
+const dir = mkdtempSync(join(tmpdir(), 'escrow-reconcile-test-'));
+process.env.PRESALE_STORAGE = 'json';
+process.env.PRESALE_DB_PATH = join(dir, 'presales.json');
+
+// Escrow and launcher share a wallet (the default), so a funded launch still holds the participant return
+let escrowBalance = 0;
+const rpc = Connection.prototype as any;
+rpc.getBalance = async () => escrowBalance;
+rpc.getSignaturesForAddress = async () => [];
+rpc.getParsedTransactions = async () => [];
+rpc.getSignatureStatuses = async (signatures: string[]) => ({ context: { slot: 1 }, value: signatures.map(() => null) });
+
+let db: typeof import('./presale-db');
+let reconcile: typeof import('./escrow-reconcile');
+
+before(async () => {
+  db = await import('./presale-db');
+  reconcile = await import('./escrow-reconcile');
+});
+
+after(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+let walletNum = 0;
+function wallet(): string {
+  return `Wallet${++walletNum}`.padEnd(44, '1');
+}
+
+// A full presale: two participants of 0.05 SOL
+async function createFilledPresale() {
+  const presale = await db.createPresale({
+    creator_wallet: wallet(),
+    token_name: 'Test',
+    token_symbol: 'TEST',
+    description: 'Test presale',
+    image_url: 'https://example.com/test.png',
+    target_participants: 2,
+    launch_fee_signature: `fee-${walletNum}`,
+  });
+  for (let i = 0; i < 2; i++) {
+    const joined = await db.addConfirmedParticipant({
+      presale_id: presale.id,
+      wallet: wallet(),
+      amount_sol: 0.05,
+      tx_signature: `${presale.id}-deposit-${i}`,
+      deposit_lamports: 50_000_000,
+    });
+    assert.ok(joined.success, joined.error);
+  }
+  return presale;
+}
+
+// A full presale whose launch stopped at `failedStep`, after completing `completed`
+async function createFailedLaunch(completed: ('metadata' | 'fee_share' | 'config_txs' | 'fund')[], failedStep: 'fund' | 'launch_tx') {
+  const presale = await createFilledPresale();
+
+  await db.acquireLaunchLease(presale.id, 'holder');
+  const begun = await db.beginPresaleLaunch(presale.id, 'holder');
+  assert.ok(begun.success, begun.error);
+  for (const step of completed) {
+    await db.saveLaunchProgress(presale.id, 'holder', { completed_step: step });
+  }
+  await db.failPresaleLaunch(presale.id, 'holder', failedStep, 'BAGS unavailable');
+  await db.releaseLaunchLease(presale.id, 'holder');
+
+  return (await db.getPresaleById(presale.id))!;
+}
+
+test('a launch that failed after funding owes only its participant return', async () => {
+  const funded = await createFailedLaunch(['metadata', 'fee_share', 'config_txs', 'fund'], 'launch_tx');
+  const unfunded = await createFailedLaunch(['metadata', 'fee_share', 'config_txs'], 'fund');
+  assert.equal(funded.status, 'launch_failed');
+
+  // Escrow holds the unfunded presale's deposits and the funded one's participant return - nothing more
+  const participantReturn = funded.launch_state!.allocation!.participant_return_lamports;
+  escrowBalance = 100_000_000 + participantReturn;
+  const report = await reconcile.runEscrowReconciliation();
+
+  assert.deepEqual(report.liabilities.find(l => l.presale_id === funded.id), {
+    presale_id: funded.id,
+    status: 'launch_failed',
+    participants: 2,
+    owed_lamports: 0,
+    launch_budget_lamports: participantReturn,
+  });
+
+  // Until the fund step lands, every deposit is still in escrow
+  const unfundedLiability = report.liabilities.find(l => l.presale_id === unfunded.id);
+  assert.equal(unfundedLiability?.owed_lamports, 100_000_000);
+  assert.equal(unfundedLiability?.launch_budget_lamports, 0);
+
+  assert.equal(report.surplus_lamports, 0);
+  assert.deepEqual(report.issues.filter(i => i.kind === 'balance_shortfall'), []);
+});
+
+test('a partial withdrawal that never landed is flagged', async () => {
+  const presale = await createFilledPresale();
+  const [participant] = await db.getPresaleParticipants(presale.id);
+
+  // Recorded as landed, but the chain has never seen it - the participant is still active with the rest
+  const intent = await db.beginPayoutIntent({
+    signature: `${presale.id}-partial-withdrawal`,
+    presale_id: presale.id,
+    wallet: participant.wallet,
+    amount_lamports: 20_000_000,
+    lamports: 17_995_000,
+    tax_lamports: 2_000_000,
+    fee_lamports: 5000,
+    blockhash: 'blockhash',
+    last_valid_block_height: 100,
+    transaction: 'signed',
+  });
+  assert.ok(intent);
+  await db.updatePayoutIntent({ ...intent, status: 'confirmed' });
+  assert.ok(await db.markParticipantWithdrawn(presale.id, participant.wallet, intent.signature, 0.002, 20_000_000));
+
+  const report = await reconcile.runEscrowReconciliation();
+
+  assert.deepEqual(report.issues.filter(i => i.signature === intent.signature), [{
+    kind: 'missing_refund',
+    presale_id: presale.id,
+    wallet: participant.wallet,
+    signature: intent.signature,
+    lamports: 19_995_000,
+    detail: 'Withdrawal transaction not found on-chain',
+  }]);
+});
@@ -0,0 +1,454 @@
+// lib/escrow-reconcile.ts
+// Escrow reconciliation - checks ESCROW_WALLET's on-chain history and balance against presale-db
+// Flags unmatched deposits, missing refunds and balance shortfalls (orphaned deposits count as owed until refunded)
+
+import {
+  Connection,
+  PublicKey,
+  type ParsedInstruction,
+  type ParsedTransactionWithMeta,
+  type PartiallyDecodedInstruction,
+} from '@solana/web3.js';
+import { getPresaleStorage } from './presale-storage';
+import { getPresaleEvents, solToLamports } from './presale-events';
+import { ESCROW_WALLET, LAUNCHER_WALLET } from './constants';
+import type { Presale, PresaleStatus } from './presale-types';
+
+// Reconciliation can walk a lot of history - point it at a dedicated RPC if the main one is rate limited
+const RECONCILE_RPC_URL = process.env.RECONCILE_RPC_URL ||
+  process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com';
+const RECONCILE_MAX_SIGNATURES = parseInt(process.env.RECONCILE_MAX_SIGNATURES || '1000');
+const RECONCILE_BATCH_SIZE = 25;
+
+// Escrow owes participants of these presales until they are refunded or withdrawn
+// (a launch in progress or waiting for a retry has not spent their deposits yet - unless its fund step is done)
+const LIABLE_STATUSES: PresaleStatus[] = ['active', 'launching', 'launch_failed', 'failed', 'refunding', 'cancelled'];
+
+export interface EscrowTransfer {
+  signature: string;
+  block_time: number | null;
+  source: string;
+  destination: string;
+  lamports: number;
+}
+
+export interface PresaleLiability {
+  presale_id: string;
+  status: PresaleStatus;
+  participants: number;
+  owed_lamports: number; // Confirmed, not refunded, not withdrawn deposits
+  launch_budget_lamports: number; // Raised SOL not spent by the launch
+}
+
+export interface ReconciliationIssue {
+  kind: 'unmatched_deposit' | 'missing_refund' | 'balance_shortfall';
+  presale_id?: string;
+  wallet?: string;
+  signature?: string;
+  lamports: number;
+  detail: string;
+}
+
+export interface EscrowReconciliationReport {
+  generated_at: string;
+  escrow_wallet: string;
+  balance_lamports: number;
+  liability_lamports: number;
+  orphan_liability_lamports: number; // Orphaned deposits not yet refunded (included in liability_lamports)
+  surplus_lamports: number; // Negative means a shortfall
+  liabilities: PresaleLiability[];
+  scanned: {
+    signatures: number;
+    transfers_in: number;
+    transfers_out: number;
+    matched_deposits: number;
+    orphaned_deposits: number;
+    newest_signature?: string;
+    oldest_signature?: string;
+    oldest_block_time?: number | null;
+  };
+  issues: ReconciliationIssue[];
+}
+
+let lastReport: EscrowReconciliationReport | null = null;
+let running: Promise<EscrowReconciliationReport> | null = null;
+
+// ============ ON-CHAIN HISTORY ============
+
+// Pull SystemProgram transfers (top-level and inner) touching the escrow wallet
+function extractTransfers(
+  signature: string,
+  tx: ParsedTransactionWithMeta,
+  escrow: string
+): EscrowTransfer[] {
+  if (tx.meta?.err) return [];
+
+  const instructions: (ParsedInstruction | PartiallyDecodedInstruction)[] = [
+    ...tx.transaction.message.instructions,
+    ...(tx.meta?.innerInstructions || []).flatMap(inner => inner.instructions),
+  ];
+
+  const transfers: EscrowTransfer[] = [];
+  for (const ix of instructions) {
+    if (!('parsed' in ix) || ix.program !== 'system') continue;
+    if (ix.parsed?.type !== 'transfer' && ix.parsed?.type !== 'transferWithSeed') continue;
+
+    const { source, destination, lamports } = ix.parsed.info;
+    if (source !== escrow && destination !== escrow) continue;
+
+    transfers.push({
+      signature,
+      block_time: tx.blockTime ?? null,
+      source,
+      destination,
+      lamports: Number(lamports),
+    });
+  }
+  return transfers;
+}
+
+async function fetchEscrowTransfers(
+  connection: Connection,
+  escrow: PublicKey,
+  maxSignatures: number
+): Promise<{ transfers: EscrowTransfer[]; signatures: { signature: string; blockTime?: number | null }[] }> {
+  const signatures: { signature: string; blockTime?: number | null }[] = [];
+  let before: string | undefined;
+
+  while (signatures.length < maxSignatures) {
+    const page = await connection.getSignaturesForAddress(escrow, {
+      before,
+      limit: Math.min(1000, maxSignatures - signatures.length),
+    }, 'confirmed');
+    if (page.length === 0) break;
+
+    signatures.push(...page);
+    before = page[page.length - 1].signature;
+  }
+
+  const transfers: EscrowTransfer[] = [];
+  for (let i = 0; i < signatures.length; i += RECONCILE_BATCH_SIZE) {
+    const batch = signatures.slice(i, i + RECONCILE_BATCH_SIZE).map(s => s.signature);
+    const txs = await connection.getParsedTransactions(batch, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0,
+    });
+
+    txs.forEach((tx, j) => {
+      if (tx) transfers.push(...extractTransfers(batch[j], tx, escrow.toBase58()));
+    });
+  }
+
+  return { transfers, signatures };
+}
+
+// ============ LIABILITIES ============
+
+async function computeLiabilities(): Promise<PresaleLiability[]> {
+  const storage = getPresaleStorage();
+  const liabilities: PresaleLiability[] = [];
+
+  // Launches past their fund step have spent the deposits like a launched presale
+  const funded: Presale[] = [];
+
+  for (const status of LIABLE_STATUSES) {
+    for (const presale of await storage.listPresales({ status })) {
+      if (presale.launch_state?.completed_steps.includes('fund')) {
+        funded.push(presale);
+        continue;
+      }
+
+      const participants = await storage.listParticipants({ presale_id: presale.id, confirmed: true, active: true });
+      const owed = participants.reduce((sum, p) => sum + solToLamports(p.amount_sol), 0);
+      if (owed === 0) continue;
+
+      liabilities.push({
+        presale_id: presale.id,
+        status,
+        participants: participants.length,
+        owed_lamports: owed,
+        launch_budget_lamports: 0,
+      });
+    }
+  }
+
+  // Launched (or funded) presales: whatever the launch did not spend is still sitting in escrow
+  for (const presale of [...await storage.listPresales({ status: 'launched' }), ...funded]) {
+    const allocation = presale.launch_state?.allocation;
+    let unspent: number;
+
+    if (allocation) {
+      // The fund step moved every bucket out of escrow - unless escrow is the launcher, which still holds
+      // the participant return until the distribution worker sends it
+      if (ESCROW_WALLET !== LAUNCHER_WALLET) continue;
+      const participants = await storage.listParticipants({ presale_id: presale.id, active: true });
+      const returned = participants
+        .filter(p => p.distribution_status === 'confirmed')
+        .reduce((sum, p) => sum + (p.distribution_return_lamports || 0), 0);
+      unspent = allocation.participant_return_lamports - returned;
+    } else {
+      // Launched before launch budgets - only the initial buy was spent
+      const events = await getPresaleEvents(presale.id);
+      const launched = events.filter(e => e.type === 'launched').pop();
+      const spent = Number(launched?.details?.initial_buy_lamports);
+      if (!launched || !Number.isFinite(spent)) continue;
+      unspent = solToLamports(presale.total_sol) - spent;
+    }
+    if (unspent <= 0) continue;
+
+    liabilities.push({
+      presale_id: presale.id,
+      status: presale.status,
+      participants: presale.participant_count,
+      owed_lamports: 0,
+      launch_budget_lamports: unspent,
+    });
+  }
+
+  return liabilities;
+}
+
+// ============ RECONCILIATION ============
+
+async function reconcile(maxSignatures: number): Promise<EscrowReconciliationReport> {
+  const storage = getPresaleStorage();
+  const connection = new Connection(RECONCILE_RPC_URL, 'confirmed');
+  const escrowPubkey = new PublicKey(ESCROW_WALLET);
+  const escrow = escrowPubkey.toBase58();
+
+  console.log('[Reconcile] Starting escrow reconciliation for', escrow);
+
+  const [balance, liabilities, history] = await Promise.all([
+    connection.getBalance(escrowPubkey, 'confirmed'),
+    computeLiabilities(),
+    fetchEscrowTransfers(connection, escrowPubkey, maxSignatures),
+  ]);
+
+  const issues: ReconciliationIssue[] = [];
+
+  // Launch fees also land here when escrow and launcher share a wallet
+  const launchFeeSignatures = new Set(
+    (await storage.listPresales()).map(p => p.launch_fee_signature).filter(Boolean)
+  );
+
+  // Every deposit into escrow should belong to a participant record
+  const inflows = history.transfers.filter(t => t.destination === escrow && t.source !== escrow);
+  const outflows = history.transfers.filter(t => t.source === escrow && t.destination !== escrow);
+  let matchedDeposits = 0;
+  let orphanedDeposits = 0;
+
+  // Deposits that could not be credited are owed back via the refund queue
+  const orphans = await storage.listOrphanedDeposits();
+  const orphansBySignature = new Map(orphans.map(o => [o.signature, o]));
+
+  for (const transfer of inflows) {
+    if (launchFeeSignatures.has(transfer.signature)) continue;
+
+    const orphan = orphansBySignature.get(transfer.signature);
+    if (orphan && orphan.wallet === transfer.source) {
+      orphanedDeposits++;
+      continue;
+    }
+
+    const [participant] = await storage.listParticipants({ signature: transfer.signature });
+    if (participant && participant.wallet === transfer.source) {
+      matchedDeposits++;
+      continue;
+    }
+
+    issues.push({
+      kind: 'unmatched_deposit',
+      presale_id: participant?.presale_id,
+      wallet: transfer.source,
+      signature: transfer.signature,
+      lamports: transfer.lamports,
+      detail: participant
+        ? `Deposit recorded for ${participant.wallet} but sent by ${transfer.source}`
+        : 'No participant record for this deposit',
+    });
+  }
+
+  // Every refund / withdrawal we recorded must have landed on-chain - each withdrawal has its own payout
+  // intent, so a partial one is checked even though the participant is still active
+  const payoutSignatures = (await storage.listPayoutIntents({ status: 'confirmed' })).map(intent => ({
+    presale_id: intent.presale_id,
+    wallet: intent.wallet,
+    signature: intent.signature,
+    lamports: intent.lamports + intent.tax_lamports,
+    label: 'Withdrawal',
+  }));
+  const checked = new Set(payoutSignatures.map(p => p.signature));
+
+  // Refunds, and withdrawals recorded before payout intents existed (only the latest is kept on the participant)
+  for (const p of await storage.listParticipants({})) {
+    if (p.refunded && p.refund_signature) {
+      payoutSignatures.push({
+        presale_id: p.presale_id,
+        wallet: p.wallet,
+        signature: p.refund_signature,
+        lamports: p.refund_lamports ?? solToLamports(p.amount_sol),
+        label: 'Refund',
+      });
+    }
+    if (p.withdraw_signature && !checked.has(p.withdraw_signature)) {
+      payoutSignatures.push({
+        presale_id: p.presale_id,
+        wallet: p.wallet,
+        signature: p.withdraw_signature,
+        lamports: solToLamports(p.withdrawn ? p.amount_sol : p.withdrawn_sol || 0),
+        label: 'Withdrawal',
+      });
+    }
+  }
+
+  for (const orphan of orphans) {
+    if (orphan.status !== 'refunded' || !orphan.refund_signature) continue;
+    payoutSignatures.push({
+      presale_id: orphan.presale_id,
+      wallet: orphan.wallet,
+      signature: orphan.refund_signature,
+      lamports: orphan.refund_lamports || orphan.lamports,
+      label: 'Orphan refund',
+    });
+  }
+
+  for (let i = 0; i < payoutSignatures.length; i += 256) {
+    const batch = payoutSignatures.slice(i, i + 256);
+    const { value: statuses } = await connection.getSignatureStatuses(
+      batch.map(b => b.signature),
+      { searchTransactionHistory: true }
+    );
+
+    statuses.forEach((status, j) => {
+      if (status && !status.err) return;
+      const { label, ...payout } = batch[j];
+      issues.push({
+        kind: 'missing_refund',
+        ...payout,
+        detail: status?.err
+          ? `${label} transaction failed on-chain`
+          : `${label} transaction not found on-chain`,
+      });
+    });
+  }
+
+  const orphanLiability = orphans
+    .filter(o => o.status !== 'refunded')
+    .reduce((sum, o) => sum + o.lamports, 0);
+  const liabilityLamports = liabilities.reduce(
+    (sum, l) => sum + l.owed_lamports + l.launch_budget_lamports, 0
+  ) + orphanLiability;
+  const surplus = balance - liabilityLamports;
+
+  if (surplus < 0) {
+    issues.push({
+      kind: 'balance_shortfall',
+      lamports: -surplus,
+      detail: `Escrow holds ${balance} lamports but owes ${liabilityLamports}`,
+    });
+  }
+
+  const oldest = history.signatures[history.signatures.length - 1];
+  const report: EscrowReconciliationReport = {
+    generated_at: new Date().toISOString(),
+    escrow_wallet: escrow,
+    balance_lamports: balance,
+    liability_lamports: liabilityLamports,
+    orphan_liability_lamports: orphanLiability,
+    surplus_lamports: surplus,
+    liabilities,
+    scanned: {
+      signatures: history.signatures.length,
+      transfers_in: inflows.length,
+      transfers_out: outflows.length,
+      matched_deposits: matchedDeposits,
+      orphaned_deposits: orphanedDeposits,
+      newest_signature: history.signatures[0]?.signature,
+      oldest_signature: oldest?.signature,
+      oldest_block_time: oldest?.blockTime,
+    },
+    issues,
+  };
+
+  console.log('[Reconcile] Done:', issues.length, 'issues | balance', balance, '| liability', liabilityLamports);
+  return report;
+}
+
+// Run a reconciliation (concurrent callers share the same run)
+// maxSignatures can only narrow the history walk - RECONCILE_MAX_SIGNATURES is the ceiling
+export async function runEscrowReconciliation(
+  maxSignatures: number = RECONCILE_MAX_SIGNATURES
+): Promise<EscrowReconciliationReport> {
+  if (running) return running;
+
+  running = reconcile(Math.max(1, Math.min(maxSignatures, RECONCILE_MAX_SIGNATURES)))
+    .then(report => {
+      lastReport = report;
+      return report;
+    })
+    .finally(() => {
+      running = null;
+    });
+
+  return running;
+}
+
+// Most recent report, if one has run in this process
+export function getLastReconciliationReport(): EscrowReconciliationReport | null {
+  return lastReport;
+}
+
+// Called when a payout finds escrow short - kicks off a reconciliation in the background
+export function flagEscrowShortfall(context: {
+  presale_id: string;
+  wallet: string;
+  needed_lamports: number;
+  balance_lamports: number;
+}): void {
+  console.error('[Reconcile] Escrow shortfall on payout:', context);
+  runEscrowReconciliation().catch((e) => {
+    console.error('[Reconcile] Background reconciliation failed:', e.message);
+  });
+}
+
+// ============ CSV OUTPUT ============
+
+function csvField(value: unknown): string {
+  const str = value === undefined || value === null ? '' : String(value);
+  return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+export function reconciliationReportToCsv(report: EscrowReconciliationReport): string {
+  const rows: unknown[][] = [
+    ['kind', 'presale_id', 'wallet', 'signature', 'lamports', 'detail'],
+    ['summary', '', report.escrow_wallet, '', report.balance_lamports, 'balance'],
+    ['summary', '', report.escrow_wallet, '', report.liability_lamports, 'liability'],
+    ['summary', '', report.escrow_wallet, '', report.orphan_liability_lamports, 'orphan liability'],
+    ['summary', '', report.escrow_wallet, '', report.surplus_lamports, 'surplus'],
+    ...report.liabilities.map(l => [
+      'liability', l.presale_id, '', '', l.owed_lamports + l.launch_budget_lamports,
+      `${l.status}: ${l.participants} participants, ${l.owed_lamports} owed, ${l.launch_budget_lamports} launch budget`,
+    ]),
+    ...report.issues.map(i => [i.kind, i.presale_id, i.wallet, i.signature, i.lamports, i.detail]),
+  ];
+
+  return rows.map(row => row.map(csvField).join(',')).join('\n') + '\n';
+}
+
+// ============ SCHEDULED JOB ============
+
+let jobTimer: NodeJS.Timeout | null = null;
+
+// Re-run reconciliation every RECONCILE_INTERVAL_MINUTES (disabled when unset)
+export function startEscrowReconcileJob(): void {
+  const minutes = parseInt(process.env.RECONCILE_INTERVAL_MINUTES || '0');
+  if (!minutes || jobTimer) return;
+
+  console.log('[Reconcile] Scheduling escrow reconciliation every', minutes, 'minutes');
+  jobTimer = setInterval(() => {
+    runEscrowReconciliation().catch((e) => {
+      console.error('[Reconcile] Scheduled reconciliation failed:', e.message);
+    });
+  }, minutes * 60 * 1000);
+  jobTimer.unref?.();
+}
@@ -1,24 +1,53 @@
 // lib/launch-presale.ts
 // Core launch logic that can be called from both join and launch routes
+// Resumable: each step's output is persisted on the presale, and a failed launch waits in launch_failed for a retry
+// Dry run: the same steps are built and simulated, nothing is signed, sent or persisted
 
-import { Connection, Keypair, VersionedTransaction, Transaction, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { Connection, Keypair, PublicKey, SystemProgram, VersionedTransaction, Transaction } from '@solana/web3.js';
 import bs58 from 'bs58';
+import { randomUUID } from 'crypto';
 import { 
   getPresaleById, 
   getPresaleParticipants,
   calculateFeeShares,
   updatePresaleStatus,
   forceSavePresaleDb,
+  beginPresaleLaunch,
+  saveLaunchProgress,
+  failPresaleLaunch,
+  acquireLaunchLease,
+  getLaunchLease,
+  releaseLaunchLease,
+  LAUNCH_LEASE_TTL_MS,
+  type Presale,
+  type LaunchStep,
+  type LaunchTx,
+  type LaunchAllocation,
 } from './presale-db';
+import { recordPresaleEvent, solToLamports } from './presale-events';
+import { runTokenDistributions } from './token-distribution';
+import { estimatePayoutFee, payoutBudgetInstructions } from './payout-fees';
+import { sendTransaction } from './tx-sender';
+import { settlePayoutIntents } from './escrow-payouts';
 import { 
   PARTNER_WALLET, 
   PARTNER_CONFIG_KEY,
+  ESCROW_WALLET,
+  TREASURY_WALLET,
+  allocateLaunchBudget,
+  softCapReached,
+  describeSoftCap,
 } from './constants';
 
 const BAGS_API_BASE = 'https://public-api-v2.bags.fm/api/v1';
 const BAGS_API_KEY = process.env.BAGS_API_KEY;
 const SOLANA_RPC_URL = process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com';
 const LAUNCHER_PRIVATE_KEY = process.env.LAUNCHER_PRIVATE_KEY;
+const ESCROW_PRIVATE_KEY = process.env.ESCROW_PRIVATE_KEY;
+
+// A caller that loses the launch race waits this long for the winner's result before reporting it in progress
+const LAUNCH_WAIT_MS = 60 * 1000;
+const LAUNCH_POLL_MS = 2000;
 
 // Helper to deserialize transaction (handles both legacy and versioned)
 // IMPORTANT: BAGS API returns base58 encoded transactions, not base64!
@@ -34,28 +63,165 @@ function deserializeTransaction(encodedData: string): VersionedTransaction | Tra
   }
 }
 
-// Helper to sign and send transaction
-async function signAndSendTransaction(
-  connection: Connection,
-  txData: string,
-  signer: Keypair
-): Promise<string> {
-  const tx = deserializeTransaction(txData);
+// Sign a BAGS tx, optionally on a fresh blockhash - only allowed when the launcher is its sole signer
+function signLaunchTx(
+  unsigned: string,
+  signer: Keypair,
+  blockhash?: string
+): Pick<LaunchTx, 'signed' | 'signature' | 'blockhash'> {
+  const tx = deserializeTransaction(unsigned);
   
   if (tx instanceof VersionedTransaction) {
+    if (blockhash) {
+      if (tx.message.header.numRequiredSignatures !== 1) throw new Error('Expired tx has other signers, cannot re-sign');
+      tx.message.recentBlockhash = blockhash;
+    }
     tx.sign([signer]);
-  } else {
-    tx.partialSign(signer);
+    return {
+      signed: bs58.encode(tx.serialize()),
+      signature: bs58.encode(tx.signatures[0]),
+      blockhash: tx.message.recentBlockhash,
+    };
   }
   
-  const rawTx = tx.serialize();
-  const signature = await connection.sendRawTransaction(rawTx, {
-    skipPreflight: true,
-    preflightCommitment: 'confirmed',
+  if (blockhash) {
+    if (tx.signatures.length !== 1) throw new Error('Expired tx has other signers, cannot re-sign');
+    tx.recentBlockhash = blockhash;
+  }
+  tx.partialSign(signer);
+  return {
+    signed: bs58.encode(tx.serialize()),
+    signature: bs58.encode(tx.signature!),
+    blockhash: tx.recentBlockhash!,
+  };
+}
+
+type LaunchTxState = 'landed' | 'failed' | 'expired' | 'pending';
+
+// Where a saved launch tx stands on chain - one never signed counts as expired
+async function checkLaunchTx(
+  connection: Connection,
+  tx: LaunchTx
+): Promise<{ state: LaunchTxState; error?: string }> {
+  if (!tx.signature || !tx.blockhash) return { state: 'expired' };
+  
+  const { value: [status] } = await connection.getSignatureStatuses(
+    [tx.signature],
+    { searchTransactionHistory: true }
+  );
+  
+  if (status && !status.err && status.confirmationStatus !== 'processed') return { state: 'landed' };
+  if (status?.err) return { state: 'failed', error: `Tx ${tx.signature} failed: ${JSON.stringify(status.err)}` };
+  
+  if (!status) {
+    const { value: valid } = await connection.isBlockhashValid(tx.blockhash, { commitment: 'confirmed' });
+    if (!valid) return { state: 'expired' };
+  }
+  
+  return { state: 'pending' };
+}
+
+// Land a BAGS tx at most once: a saved copy that landed is kept, one still in flight is resent as-is,
+// and only one that can no longer land is signed again (on a fresh blockhash when `refreshBlockhash`)
+// `save` runs before every send, so a retry always knows the signature that may be on chain
+// The send itself is rebroadcast until the tx lands or its blockhash expires (see tx-sender)
+async function landLaunchTx(
+  connection: Connection,
+  tx: LaunchTx,
+  signer: Keypair,
+  save: (tx: LaunchTx) => Promise<void>,
+  refreshBlockhash: boolean
+): Promise<LaunchTx> {
+  const check = await checkLaunchTx(connection, tx);
+  
+  if (check.state === 'landed') {
+    const landed: LaunchTx = { ...tx, confirmed: true };
+    await save(landed);
+    return landed;
+  }
+  if (check.state === 'failed') throw new Error(check.error);
+  
+  let current = tx;
+  if (check.state === 'expired') {
+    if (tx.signature && !refreshBlockhash) throw new Error(`Tx ${tx.signature} expired before landing`);
+    
+    const blockhash = tx.signature
+      ? (await connection.getLatestBlockhash('confirmed')).blockhash
+      : undefined;
+    current = { unsigned: tx.unsigned, ...signLaunchTx(tx.unsigned, signer, blockhash) };
+    await save(current);
+  }
+  
+  const sent = await sendTransaction(connection, {
+    serialized: bs58.decode(current.signed!),
+    signature: current.signature!,
+    blockhash: current.blockhash!,
+  }, {
+    // A saved copy may already be in flight - only a freshly signed tx goes through preflight
+    skipPreflight: current === tx,
   });
+  if (sent.outcome !== 'confirmed') {
+    throw new Error(sent.outcome === 'insufficient_funds' ? `Insufficient funds: ${sent.error}` : sent.error);
+  }
+  
+  const landed: LaunchTx = { ...current, confirmed: true };
+  await save(landed);
+  return landed;
+}
+
+// The escrow signer - the launcher itself when deposits are held in the launcher wallet
+function loadEscrowKeypair(launcherKeypair: Keypair): Keypair {
+  if (launcherKeypair.publicKey.toBase58() === ESCROW_WALLET) return launcherKeypair;
+  if (!ESCROW_PRIVATE_KEY) throw new Error('ESCROW_PRIVATE_KEY is not set');
   
-  await connection.confirmTransaction(signature, 'confirmed');
-  return signature;
+  const escrowKeypair = Keypair.fromSecretKey(bs58.decode(ESCROW_PRIVATE_KEY));
+  if (escrowKeypair.publicKey.toBase58() !== ESCROW_WALLET) {
+    throw new Error('ESCROW_PRIVATE_KEY does not match ESCROW_WALLET');
+  }
+  return escrowKeypair;
+}
+
+// Unsigned escrow tx paying out a launch allocation: the platform fee to the treasury, and the initial buy,
+// participant return and network reserve to the launcher - less this tx's own fee, which the reserve covers
+// Null when there is nothing to move (no platform fee, and deposits already held in the launcher wallet)
+async function buildFundTx(
+  connection: Connection,
+  escrow: PublicKey,
+  launcher: PublicKey,
+  allocation: LaunchAllocation
+): Promise<string | null> {
+  const toLauncher = escrow.equals(launcher)
+    ? 0
+    : allocation.initial_buy_lamports + allocation.participant_return_lamports + allocation.network_reserve_lamports;
+  const transfers = (allocation.platform_fee_lamports > 0 ? 1 : 0) + (toLauncher > 0 ? 1 : 0);
+  if (transfers === 0) return null;
+  const fee = await estimatePayoutFee(connection, escrow, transfers);
+  
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+  const transaction = new Transaction({ feePayer: escrow, blockhash, lastValidBlockHeight })
+    .add(...payoutBudgetInstructions(fee));
+  if (allocation.platform_fee_lamports > 0) {
+    transaction.add(SystemProgram.transfer({
+      fromPubkey: escrow,
+      toPubkey: new PublicKey(TREASURY_WALLET),
+      lamports: allocation.platform_fee_lamports,
+    }));
+  }
+  if (toLauncher > 0) {
+    transaction.add(SystemProgram.transfer({
+      fromPubkey: escrow,
+      toPubkey: launcher,
+      lamports: toLauncher - fee.fee_lamports,
+    }));
+  }
+  
+  return bs58.encode(transaction.serialize({ requireAllSignatures: false, verifySignatures: false }));
+}
+
+// BAGS returns a tx as a bare base58 string or wrapped in an object, depending on the endpoint
+function extractTxBase58(txData: any): string | null {
+  if (typeof txData === 'string') return txData;
+  return txData?.transaction || txData?.serializedTransaction || txData?.tx || null;
 }
 
 function parseBagsResponse(data: any): { success: boolean; data?: any; error?: string } {
@@ -76,9 +242,225 @@ export interface LaunchResult {
   bags_url?: string;
   explorer_url?: string;
   step?: string;
+  in_progress?: boolean; // Another caller's launch was still running when we stopped waiting for it
+  dry_run?: LaunchDryRun; // Set instead of launching when called with dryRun
+}
+
+// One simulated tx in a dry-run report
+export interface DryRunTx {
+  label: string;
+  signers: string[]; // Required signers, fee payer first
+  accounts: string[]; // Static account keys (lookup-table accounts are not resolved)
+  compute_units?: number;
+  error?: string;
+  logs?: string[]; // Tail of the program logs, only when the simulation failed
+  sol_changes: { account: string; lamports: number }[]; // Balance changes the simulation predicts
+}
+
+export interface DryRunStep {
+  step: LaunchStep;
+  // done = completed by an earlier attempt, a real launch skips it; not_simulated = a BAGS request only shown in `request`
+  status: 'ok' | 'done' | 'not_simulated' | 'error';
+  request?: { path: string; body: any }; // The BAGS request this step makes (<placeholders> for values BAGS returns)
+  transactions: DryRunTx[];
+  detail?: string;
+  error?: string;
+}
+
+export interface LaunchDryRun {
+  presale_id: string;
+  fee_shares: { wallet: string; bps: number }[];
+  allocation: LaunchAllocation;
+  steps: DryRunStep[];
+  not_simulated: LaunchStep[]; // Steps still ahead that nothing here checked - success says nothing about them
+}
+
+// Why a presale cannot start (or resume) a launch right now - null if it can
+function launchableError(presale: Presale, force: boolean): string | null {
+  // Cancelled or failed presales are refunding their participants
+  if (!['active', 'launching', 'launch_failed'].includes(presale.status)) {
+    return `Presale is ${presale.status}, cannot launch`;
+  }
+  
+  // A launching or launch_failed presale was already cleared to launch - only a fresh one must be full
+  if (presale.status !== 'active' || presale.participant_count >= presale.target_participants) return null;
+  
+  // Unfilled, it launches once it has reached its soft cap - at expiry, or earlier when its creator forces it
+  const reached = softCapReached(presale.soft_cap, presale.participant_count, presale.total_sol);
+  const expired = new Date(presale.expires_at) <= new Date();
+  if (reached && (expired || force)) return null;
+  
+  const notFull = `Presale not full. ${presale.participant_count}/${presale.target_participants} participants.`;
+  if (!force) return notFull;
+  return presale.soft_cap
+    ? `${notFull} Soft cap of ${describeSoftCap(presale.soft_cap)} not reached.`
+    : `${notFull} It has no soft cap, so it launches only when full.`;
+}
+
+function launchedResult(presale: Presale): LaunchResult {
+  return {
+    success: true,
+    token_mint: presale.token_mint,
+    launch_signature: presale.launch_signature,
+    meteora_config_key: presale.meteora_config_key,
+    bags_url: `https://bags.fm/token/${presale.token_mint}`,
+    explorer_url: `https://solscan.io/tx/${presale.launch_signature}`,
+  };
+}
+
+// Requests in this process share one run per presale; the durable lease extends that across processes
+const launchesInFlight = new Map<string, Promise<LaunchResult>>();
+
+// Single-flight: whoever triggers it (auto-launch on join, the indexer, the launch route), only one launch runs
+// per presale - the rest get its result, or the finished launch if it already landed
+// `dryRun` reports what the launch would do instead (see dryRunLaunch) - it needs no lease, as it changes nothing
+export async function launchPresaleToken(
+  presaleId: string,
+  force: boolean = false,
+  dryRun: boolean = false
+): Promise<LaunchResult> {
+  if (dryRun) return dryRunLaunch(presaleId, force);
+  
+  const running = launchesInFlight.get(presaleId);
+  if (running) return running;
+  
+  const launch = leasedLaunch(presaleId, force).finally(() => launchesInFlight.delete(presaleId));
+  launchesInFlight.set(presaleId, launch);
+  return launch;
 }
 
-export async function launchPresaleToken(presaleId: string, force: boolean = false): Promise<LaunchResult> {
+// Run the launch while holding the presale's launch lease, renewing it until the run ends
+async function leasedLaunch(presaleId: string, force: boolean): Promise<LaunchResult> {
+  const holder = `${process.pid}:${randomUUID()}`;
+  const { acquired, lease } = await acquireLaunchLease(presaleId, holder);
+  
+  if (!acquired) {
+    console.log('[LaunchPresale] Launch of', presaleId, 'already held by', lease.holder);
+    return awaitLaunchResult(presaleId, force);
+  }
+  
+  const heartbeat = setInterval(() => {
+    acquireLaunchLease(presaleId, holder)
+      .then(renewed => {
+        if (!renewed.acquired) console.error('[LaunchPresale] Lost launch lease for', presaleId);
+      })
+      .catch(e => console.error('[LaunchPresale] Lease renewal failed:', e.message));
+  }, LAUNCH_LEASE_TTL_MS / 4);
+  
+  try {
+    return await runLaunch(presaleId, force, holder);
+  } finally {
+    clearInterval(heartbeat);
+    await releaseLaunchLease(presaleId, holder).catch(e => {
+      // It expires on its own - a retry just waits out the TTL
+      console.error('[LaunchPresale] Lease release failed:', e.message);
+    });
+  }
+}
+
+// Someone else holds the launch lease - report their outcome once the lease is released
+async function awaitLaunchResult(presaleId: string, force: boolean): Promise<LaunchResult> {
+  const deadline = Date.now() + LAUNCH_WAIT_MS;
+  
+  while (true) {
+    const presale = await getPresaleById(presaleId);
+    if (!presale) return { success: false, error: 'Presale not found' };
+    if (presale.status === 'launched') return launchedResult(presale);
+    
+    if (!(await getLaunchLease(presaleId))) {
+      if (presale.status === 'launch_failed') {
+        return {
+          success: false,
+          error: presale.launch_state?.error || 'Launch failed',
+          step: presale.launch_state?.failed_step,
+          token_mint: presale.token_mint,
+          meteora_config_key: presale.meteora_config_key,
+        };
+      }
+      // The holder stopped without launching or failing (refused, or died mid-launch) - try to run it ourselves
+      return leasedLaunch(presaleId, force);
+    }
+    
+    if (Date.now() >= deadline) {
+      return {
+        success: false,
+        in_progress: true,
+        error: 'Launch already in progress',
+        token_mint: presale.token_mint,
+        meteora_config_key: presale.meteora_config_key,
+      };
+    }
+    await new Promise(resolve => setTimeout(resolve, LAUNCH_POLL_MS));
+  }
+}
+
+async function bagsPost(path: string, body: any): Promise<{ success: boolean; data?: any; error?: string }> {
+  const res = await fetch(`${BAGS_API_BASE}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': BAGS_API_KEY!,
+    },
+    body: JSON.stringify(body),
+  });
+  return parseBagsResponse(await res.json());
+}
+
+// ---- BAGS request bodies (shared by real launches and dry runs) ----
+
+function metadataRequest(presale: Presale) {
+  return {
+    name: presale.token_name,
+    symbol: presale.token_symbol,
+    description: presale.description,
+    imageUrl: presale.image_url,
+    ...(presale.twitter && { twitter: presale.twitter }),
+    ...(presale.website && { website: presale.website }),
+  };
+}
+
+// Without the partner fields - the launch tries with them first and falls back to this
+function feeShareRequest(feeShares: { wallet: string; bps: number }[], payer: string, tokenMint: string) {
+  return {
+    basisPointsArray: feeShares.map(f => f.bps),
+    payer,
+    baseMint: tokenMint,
+    claimersArray: feeShares.map(f => f.wallet),
+  };
+}
+
+function launchTxRequest(
+  tokenMetadata: string,
+  tokenMint: string,
+  wallet: string,
+  initialBuyLamports: number,
+  meteoraConfigKey: string
+) {
+  return {
+    ipfs: tokenMetadata,
+    tokenMint,
+    wallet,
+    initialBuyLamports,
+    configKey: meteoraConfigKey,
+  };
+}
+
+// Create the fee-share config, with the partner config if BAGS accepts it
+async function createFeeShareConfig(body: ReturnType<typeof feeShareRequest>) {
+  const configResult = await bagsPost('/fee-share/config', {
+    ...body,
+    partner: PARTNER_WALLET,
+    partnerConfig: PARTNER_CONFIG_KEY,
+  });
+  if (configResult.success && configResult.data?.meteoraConfigKey) return configResult;
+  
+  console.log('[LaunchPresale] Trying without partner config...');
+  return bagsPost('/fee-share/config', body);
+}
+
+// Each step persists its output before the next one runs; a retry skips completed steps,
+// so the token mint, fee-share config and any tx already on chain are reused, never recreated
+async function runLaunch(presaleId: string, force: boolean, holder: string): Promise<LaunchResult> {
   try {
     // Validate configuration
     if (!BAGS_API_KEY) {
@@ -90,28 +472,20 @@ export async function launchPresaleToken(presaleId: string, force: boolean = fal
     }
     
     // Get presale
-    const presale = await getPresaleById(presaleId);
+    const existing = await getPresaleById(presaleId);
     
-    if (!presale) {
+    if (!existing) {
       return { success: false, error: 'Presale not found' };
     }
     
-    // Check if already launched
-    if (presale.status === 'launched') {
-      return { 
-        success: false, 
-        error: 'Presale already launched',
-        token_mint: presale.token_mint,
-        launch_signature: presale.launch_signature,
-      };
+    // Already launched (e.g. by a caller that won the race) - report that launch
+    if (existing.status === 'launched') {
+      return launchedResult(existing);
     }
     
-    // Check if presale is full (unless force)
-    if (!force && presale.participant_count < presale.target_participants) {
-      return {
-        success: false,
-        error: `Presale not full. ${presale.participant_count}/${presale.target_participants} participants.`,
-      };
+    const notLaunchable = launchableError(existing, force);
+    if (notLaunchable) {
+      return { success: false, error: notLaunchable };
     }
     
     // Get participants
@@ -121,300 +495,511 @@ export async function launchPresaleToken(presaleId: string, force: boolean = fal
       return { success: false, error: 'No confirmed participants' };
     }
     
-    console.log('[LaunchPresale] Starting automatic launch for:', presaleId);
-    console.log('[LaunchPresale] Participants:', participants.length);
-    console.log('[LaunchPresale] Total SOL:', presale.total_sol);
-    
-    // Calculate fee shares
-    const feeShares = await calculateFeeShares(presaleId);
-    console.log('[LaunchPresale] Fee shares calculated:', feeShares.length, 'wallets');
-    
-    // Verify total is 10000 BPS
-    const totalBps = feeShares.reduce((sum, f) => sum + f.bps, 0);
-    if (totalBps !== 10000) {
-      return { success: false, error: `Fee share calculation error: total is ${totalBps}, expected 10000` };
-    }
-    
-    // Initialize connection and launcher wallet
     const connection = new Connection(SOLANA_RPC_URL, 'confirmed');
-    const launcherKeypair = Keypair.fromSecretKey(bs58.decode(LAUNCHER_PRIVATE_KEY));
-    
-    console.log('[LaunchPresale] Launcher wallet:', launcherKeypair.publicKey.toBase58());
-    
-    // ============================================
-    // STEP 1: Create token metadata
-    // ============================================
-    console.log('[LaunchPresale] Step 1: Creating token metadata...');
-    
-    const createTokenBody = {
-      name: presale.token_name,
-      symbol: presale.token_symbol,
-      description: presale.description,
-      imageUrl: presale.image_url,
-      ...(presale.twitter && { twitter: presale.twitter }),
-      ...(presale.website && { website: presale.website }),
-    };
     
-    const metadataRes = await fetch(`${BAGS_API_BASE}/token-launch/create-token-info`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': BAGS_API_KEY,
-      },
-      body: JSON.stringify(createTokenBody),
-    });
+    // Withdrawals whose requests never came back - beginPresaleLaunch refuses to start while any may still land
+    await settlePayoutIntents(connection, presaleId);
     
-    const metadataRaw = await metadataRes.json();
-    const metadataResult = parseBagsResponse(metadataRaw);
-    
-    if (!metadataResult.success || !metadataResult.data?.tokenMint) {
-      console.error('[LaunchPresale] Metadata creation failed:', metadataResult.error);
-      return { success: false, error: `Failed to create token metadata: ${metadataResult.error}`, step: 'metadata' };
+    // Rechecks the status under the presale lock - from here joins and withdrawals are closed
+    const begun = await beginPresaleLaunch(presaleId, holder);
+    if (!begun.success || !begun.presale) {
+      return { success: false, error: begun.error };
     }
     
-    const tokenMint = metadataResult.data.tokenMint;
-    const tokenMetadata = metadataResult.data.tokenMetadata;
+    const presale = begun.presale;
+    const state = presale.launch_state!;
+    const done = (step: LaunchStep) => state.completed_steps.includes(step);
     
-    console.log('[LaunchPresale] Token mint:', tokenMint);
+    console.log('[LaunchPresale] Starting launch for:', presaleId, 'attempt', state.attempts);
+    console.log('[LaunchPresale] Participants:', participants.length);
+    console.log('[LaunchPresale] Total SOL:', presale.total_sol);
     
-    // ============================================
-    // STEP 2: Create fee share config
-    // ============================================
-    console.log('[LaunchPresale] Step 2: Creating fee share config...');
+    // Initialize launcher wallet
+    const launcherKeypair = Keypair.fromSecretKey(bs58.decode(LAUNCHER_PRIVATE_KEY));
     
-    const claimersArray = feeShares.map(f => f.wallet);
-    const basisPointsArray = feeShares.map(f => f.bps);
+    console.log('[LaunchPresale] Launcher wallet:', launcherKeypair.publicKey.toBase58());
     
-    console.log('[LaunchPresale] Total claimers:', claimersArray.length);
+    let step: LaunchStep = 'metadata';
+    let tokenMint = presale.token_mint;
+    let tokenMetadata = state.token_metadata;
+    let meteoraConfigKey = presale.meteora_config_key;
     
-    const feeShareBody = {
-      basisPointsArray,
-      payer: launcherKeypair.publicKey.toBase58(),
-      baseMint: tokenMint,
-      claimersArray,
-      partner: PARTNER_WALLET,
-      partnerConfig: PARTNER_CONFIG_KEY,
+    const fail = async (error: string): Promise<LaunchResult> => {
+      await failPresaleLaunch(presaleId, holder, step, error);
+      return {
+        success: false,
+        error,
+        step,
+        token_mint: tokenMint,
+        meteora_config_key: meteoraConfigKey,
+      };
     };
     
-    const configRes = await fetch(`${BAGS_API_BASE}/fee-share/config`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': BAGS_API_KEY,
-      },
-      body: JSON.stringify(feeShareBody),
-    });
-    
-    const configRaw = await configRes.json();
-    let configResult = parseBagsResponse(configRaw);
-    
-    if (!configResult.success || !configResult.data?.meteoraConfigKey) {
-      console.log('[LaunchPresale] Trying without partner config...');
+    try {
+      // Fee shares come from the participants beginPresaleLaunch froze - computed once, so a retry claims the same
+      let feeShares = state.fee_shares;
+      if (!feeShares) {
+        step = 'fee_share';
+        feeShares = await calculateFeeShares(presaleId);
+        console.log('[LaunchPresale] Fee shares calculated:', feeShares.length, 'wallets');
+        
+        // Verify total is 10000 BPS
+        const totalBps = feeShares.reduce((sum, f) => sum + f.bps, 0);
+        if (totalBps !== 10000) {
+          return fail(`Fee share calculation error: total is ${totalBps}, expected 10000`);
+        }
+        
+        await saveLaunchProgress(presaleId, holder, { state: { fee_shares: feeShares } });
+        step = 'metadata';
+      }
       
-      const feeShareBodyBasic = {
-        basisPointsArray,
-        payer: launcherKeypair.publicKey.toBase58(),
-        baseMint: tokenMint,
-        claimersArray,
-      };
+      // ============================================
+      // STEP 1: Create token metadata
+      // ============================================
+      if (done('metadata') && tokenMint && tokenMetadata) {
+        console.log('[LaunchPresale] Step 1: Reusing token mint', tokenMint);
+      } else {
+        console.log('[LaunchPresale] Step 1: Creating token metadata...');
+        
+        const metadataResult = await bagsPost('/token-launch/create-token-info', metadataRequest(presale));
+        
+        if (!metadataResult.success || !metadataResult.data?.tokenMint) {
+          console.error('[LaunchPresale] Metadata creation failed:', metadataResult.error);
+          return fail(`Failed to create token metadata: ${metadataResult.error}`);
+        }
+        
+        tokenMint = metadataResult.data.tokenMint as string;
+        tokenMetadata = metadataResult.data.tokenMetadata as string;
+        
+        await saveLaunchProgress(presaleId, holder, {
+          token_mint: tokenMint,
+          state: { token_metadata: tokenMetadata },
+          completed_step: 'metadata',
+        });
+        
+        console.log('[LaunchPresale] Token mint:', tokenMint);
+        
+        await recordPresaleEvent({
+          presale_id: presaleId,
+          type: 'launch_step',
+          details: { step: 'metadata', token_mint: tokenMint },
+        });
+      }
       
-      const configRes2 = await fetch(`${BAGS_API_BASE}/fee-share/config`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': BAGS_API_KEY,
-        },
-        body: JSON.stringify(feeShareBodyBasic),
-      });
+      // ============================================
+      // STEP 2: Create fee share config
+      // ============================================
+      step = 'fee_share';
+      let configTxs: LaunchTx[] = state.config_txs || [];
       
-      const configRaw2 = await configRes2.json();
-      configResult = parseBagsResponse(configRaw2);
+      if (done('fee_share') && meteoraConfigKey) {
+        console.log('[LaunchPresale] Step 2: Reusing fee share config', meteoraConfigKey);
+      } else {
+        console.log('[LaunchPresale] Step 2: Creating fee share config...');
+        
+        console.log('[LaunchPresale] Total claimers:', feeShares.length);
+        
+        const configResult = await createFeeShareConfig(
+          feeShareRequest(feeShares, launcherKeypair.publicKey.toBase58(), tokenMint!)
+        );
+        if (!configResult.success || !configResult.data?.meteoraConfigKey) {
+          return fail(`Failed to create fee share config: ${configResult.error}`);
+        }
+        
+        const configTransactions: any[] = configResult.data.transactions || [];
+        console.log('[LaunchPresale] Config response keys:', Object.keys(configResult.data));
+        console.log('[LaunchPresale] Transactions array length:', configTransactions.length);
+        
+        configTxs = [];
+        for (let i = 0; i < configTransactions.length; i++) {
+          const txBase58 = extractTxBase58(configTransactions[i]);
+          if (!txBase58) {
+            return fail(`Config tx ${i + 1} has unknown format: ${JSON.stringify(configTransactions[i]).slice(0, 200)}`);
+          }
+          configTxs.push({ unsigned: txBase58 });
+        }
+        
+        meteoraConfigKey = configResult.data.meteoraConfigKey as string;
+        
+        await saveLaunchProgress(presaleId, holder, {
+          meteora_config_key: meteoraConfigKey,
+          state: { config_txs: configTxs },
+          completed_step: 'fee_share',
+        });
+        
+        console.log('[LaunchPresale] Meteora config key:', meteoraConfigKey);
+        
+        await recordPresaleEvent({
+          presale_id: presaleId,
+          type: 'launch_step',
+          details: { step: 'fee_share', meteora_config_key: meteoraConfigKey, claimers: feeShares.length },
+        });
+      }
       
-      if (!configResult.success || !configResult.data?.meteoraConfigKey) {
-        return { 
-          success: false, 
-          error: `Failed to create fee share config: ${configResult.error}`, 
-          step: 'fee_share',
-          token_mint: tokenMint,
-        };
+      // Sign config transactions - MUST succeed before launch
+      step = 'config_txs';
+      if (!done('config_txs')) {
+        console.log('[LaunchPresale] Landing', configTxs.length, 'config transactions...');
+        
+        for (let i = 0; i < configTxs.length; i++) {
+          if (configTxs[i].confirmed) continue;
+          
+          configTxs[i] = await landLaunchTx(connection, configTxs[i], launcherKeypair, async tx => {
+            configTxs[i] = tx;
+            await saveLaunchProgress(presaleId, holder, { state: { config_txs: configTxs } });
+          }, true);
+          console.log('[LaunchPresale] Config tx', i + 1, 'confirmed:', configTxs[i].signature);
+        }
+        
+        await saveLaunchProgress(presaleId, holder, { state: { config_txs: configTxs }, completed_step: 'config_txs' });
+        await recordPresaleEvent({
+          presale_id: presaleId,
+          type: 'launch_step',
+          tx_signatures: configTxs.map(tx => tx.signature!),
+          details: { step: 'config_txs', total: configTxs.length },
+        });
       }
-    }
-    
-    const meteoraConfigKey = configResult.data.meteoraConfigKey;
-    const configTransactions = configResult.data.transactions || [];
-    
-    console.log('[LaunchPresale] Meteora config key:', meteoraConfigKey);
-    console.log('[LaunchPresale] Config response keys:', Object.keys(configResult.data));
-    console.log('[LaunchPresale] Transactions array length:', configTransactions.length);
-    if (configTransactions.length > 0) {
-      console.log('[LaunchPresale] First tx type:', typeof configTransactions[0]);
-      if (typeof configTransactions[0] === 'object') {
-        console.log('[LaunchPresale] First tx keys:', Object.keys(configTransactions[0]));
+      
+      // ============================================
+      // STEP 3: Fund the launch from escrow
+      // ============================================
+      step = 'fund';
+      const allocation = state.allocation!;
+      let fundTx = state.fund_tx;
+      
+      if (!done('fund')) {
+        const escrowKeypair = loadEscrowKeypair(launcherKeypair);
+        
+        if (!fundTx) {
+          console.log('[LaunchPresale] Step 3: Funding launch from escrow...', allocation.total_lamports, 'lamports');
+          const unsigned = await buildFundTx(connection, escrowKeypair.publicKey, launcherKeypair.publicKey, allocation);
+          if (unsigned) fundTx = { unsigned };
+        }
+        
+        if (fundTx) {
+          fundTx = await landLaunchTx(connection, fundTx, escrowKeypair, async tx => {
+            await saveLaunchProgress(presaleId, holder, { state: { fund_tx: tx } });
+          }, true);
+          console.log('[LaunchPresale] Funding confirmed:', fundTx.signature);
+        } else {
+          console.log('[LaunchPresale] Nothing to fund - the launcher already holds the deposits');
+        }
+        
+        await saveLaunchProgress(presaleId, holder, { completed_step: 'fund' });
+        
+        await recordPresaleEvent({
+          presale_id: presaleId,
+          type: 'launch_step',
+          amount_lamports: allocation.total_lamports,
+          tx_signatures: fundTx ? [fundTx.signature!] : [],
+          details: { step: 'fund', allocation },
+        });
       }
-    }
-    
-    // Sign config transactions - MUST succeed before launch
-    if (configTransactions.length > 0) {
-      console.log('[LaunchPresale] Signing', configTransactions.length, 'config transactions...');
       
-      let configTxSuccess = 0;
-      for (let i = 0; i < configTransactions.length; i++) {
-        const txData = configTransactions[i];
-        try {
-          // Handle different transaction formats from BAGS API (uses base58!)
-          let txBase58: string;
-          if (typeof txData === 'string') {
-            txBase58 = txData;
-          } else if (txData.transaction) {
-            txBase58 = txData.transaction;
-          } else if (txData.serializedTransaction) {
-            txBase58 = txData.serializedTransaction;
-          } else if (txData.tx) {
-            txBase58 = txData.tx;
-          } else {
-            console.log('[LaunchPresale] Config tx', i + 1, 'unknown format:', typeof txData, JSON.stringify(txData).slice(0, 200));
-            continue;
-          }
+      // ============================================
+      // STEP 4: Create and send launch transaction
+      // ============================================
+      step = 'launch_tx';
+      const initialBuyLamports = allocation.initial_buy_lamports;
+      let launchTx = state.launch_tx;
+      
+      if (!done('launch_tx')) {
+        // A launch tx that can no longer land is replaced - anything else is resumed, so the token launches once
+        if (launchTx && (await checkLaunchTx(connection, launchTx)).state === 'expired') {
+          console.log('[LaunchPresale] Previous launch tx expired without landing:', launchTx.signature || 'unsigned');
+          launchTx = undefined;
+        }
+        
+        if (!launchTx) {
+          console.log('[LaunchPresale] Step 4: Creating launch transaction...');
           
-          console.log('[LaunchPresale] Config tx', i + 1, 'base58 length:', txBase58.length);
+          const launchTxResult = await bagsPost('/token-launch/create-launch-transaction', launchTxRequest(
+            tokenMetadata!, tokenMint!, launcherKeypair.publicKey.toBase58(), initialBuyLamports, meteoraConfigKey!
+          ));
           
-          // Use helper that handles bs58 decoding
-          const signature = await signAndSendTransaction(connection, txBase58, launcherKeypair);
-          console.log('[LaunchPresale] Config tx', i + 1, 'confirmed:', signature);
-          configTxSuccess++;
-        } catch (txError: any) {
-          console.error('[LaunchPresale] Config tx', i + 1, 'failed:', txError.message);
-          // Log more details
-          if (txError.logs) {
-            console.error('[LaunchPresale] Tx logs:', txError.logs.slice(0, 5));
+          console.log('[LaunchPresale] Launch tx response keys:', Object.keys(launchTxResult.data || {}));
+          
+          if (!launchTxResult.success) {
+            console.error('[LaunchPresale] Launch tx creation failed:', launchTxResult.error);
+            return fail(`Failed to create launch transaction: ${launchTxResult.error}`);
           }
+          
+          const txBase58 = extractTxBase58(launchTxResult.data);
+          if (!txBase58) {
+            return fail(`Unknown launch tx format: ${Object.keys(launchTxResult.data)}`);
+          }
+          launchTx = { unsigned: txBase58 };
         }
+        
+        console.log('[LaunchPresale] Signing launch transaction...');
+        launchTx = await landLaunchTx(connection, launchTx, launcherKeypair, async tx => {
+          await saveLaunchProgress(presaleId, holder, { state: { launch_tx: tx } });
+        }, false);
+        
+        await saveLaunchProgress(presaleId, holder, { completed_step: 'launch_tx' });
+        console.log('[LaunchPresale] Launch confirmed:', launchTx.signature);
+        
+        await recordPresaleEvent({
+          presale_id: presaleId,
+          type: 'launch_step',
+          amount_lamports: initialBuyLamports,
+          tx_signatures: [launchTx.signature!],
+          details: { step: 'launch_tx' },
+        });
       }
       
-      // If no config tx succeeded, the config might not be initialized
-      if (configTxSuccess === 0 && configTransactions.length > 0) {
-        console.warn('[LaunchPresale] Warning: No config transactions succeeded, launch may fail');
+      const launchSignature = launchTx!.signature!;
+      
+      // ============================================
+      // STEP 5: Update presale status
+      // ============================================
+      await updatePresaleStatus(presaleId, 'launched', {
+        token_mint: tokenMint,
+        meteora_config_key: meteoraConfigKey,
+        launch_signature: launchSignature,
+        launched_at: new Date().toISOString(),
+      });
+      await recordPresaleEvent({
+        presale_id: presaleId,
+        type: 'launched',
+        actor_wallet: launcherKeypair.publicKey.toBase58(),
+        amount_lamports: solToLamports(presale.total_sol),
+        tx_signatures: [launchSignature],
+        details: {
+          token_mint: tokenMint,
+          meteora_config_key: meteoraConfigKey,
+          initial_buy_lamports: initialBuyLamports,
+          allocation,
+          attempts: state.attempts,
+        },
+      });
+      await forceSavePresaleDb();
+      
+      console.log('[LaunchPresale] ✅ LAUNCH COMPLETE!');
+      console.log('[LaunchPresale] Token:', tokenMint);
+      console.log('[LaunchPresale] Signature:', launchSignature);
+      
+      // ============================================
+      // STEP 6: Distribute the initial buy and participant return
+      // ============================================
+      // Not awaited - the distribution worker retries every transfer until it lands
+      runTokenDistributions().catch((e) => {
+        console.error('[LaunchPresale] Token distribution run failed:', e.message);
+      });
+      
+      return {
+        success: true,
+        token_mint: tokenMint,
+        launch_signature: launchSignature,
+        meteora_config_key: meteoraConfigKey,
+        bags_url: `https://bags.fm/token/${tokenMint}`,
+        explorer_url: `https://solscan.io/tx/${launchSignature}`,
+      };
+      
+    } catch (stepError: any) {
+      console.error('[LaunchPresale] Step', step, 'failed:', stepError.message);
+      if (stepError.logs) {
+        console.error('[LaunchPresale] Tx logs:', stepError.logs.slice(0, 5));
       }
+      return fail(stepError.message);
     }
     
-    // ============================================
-    // STEP 3: Create and send launch transaction
-    // ============================================
-    console.log('[LaunchPresale] Step 3: Creating launch transaction...');
-    
-    const initialBuyLamports = Math.floor(presale.total_sol * 0.5 * LAMPORTS_PER_SOL);
+  } catch (e: any) {
+    console.error('[LaunchPresale] Error:', e.message);
+    return { success: false, error: e.message };
+  }
+}
+
+// ============================================
+// DRY RUN
+// ============================================
+
+// Simulate a tx as it stands (signatures are not checked, the blockhash is replaced) and diff the SOL balances it touches
+async function simulateLaunchTx(connection: Connection, encoded: string, label: string): Promise<DryRunTx> {
+  const decoded = deserializeTransaction(encoded);
+  const tx = decoded instanceof VersionedTransaction ? decoded : new VersionedTransaction(decoded.compileMessage());
+  const keys = tx.message.staticAccountKeys;
+  const accounts = keys.map(k => k.toBase58());
+  
+  const before = await connection.getMultipleAccountsInfo(keys, 'confirmed');
+  const { value: sim } = await connection.simulateTransaction(tx, {
+    sigVerify: false,
+    replaceRecentBlockhash: true,
+    commitment: 'confirmed',
+    accounts: { encoding: 'base64', addresses: accounts },
+  });
+  
+  const solChanges: DryRunTx['sol_changes'] = [];
+  if (!sim.err) {
+    (sim.accounts || []).forEach((after, i) => {
+      const lamports = (after?.lamports ?? 0) - (before[i]?.lamports ?? 0);
+      if (lamports !== 0) solChanges.push({ account: accounts[i], lamports });
+    });
+  }
+  
+  return {
+    label,
+    signers: accounts.slice(0, tx.message.header.numRequiredSignatures),
+    accounts,
+    compute_units: sim.unitsConsumed,
+    error: sim.err ? JSON.stringify(sim.err) : undefined,
+    logs: sim.err ? (sim.logs || []).slice(-10) : undefined,
+    sol_changes: solChanges,
+  };
+}
+
+// Walk every launch step without changing anything: the BAGS requests for metadata, fee-share config and launch tx
+// are only built, never sent (BAGS creates a mint and config for each), so those steps are reported not_simulated
+// Only txs that exist without BAGS - the escrow funding tx, and config or launch txs an earlier attempt saved - are
+// simulated against the current chain state, so before any attempt the funding tx is all it checks
+// Steps an earlier attempt completed are reported as done; not_simulated lists what the report leaves unchecked
+// Each simulation is independent, so a later tx may fail only because an earlier one has not landed yet
+async function dryRunLaunch(presaleId: string, force: boolean): Promise<LaunchResult> {
+  try {
+    if (!BAGS_API_KEY) {
+      return { success: false, error: 'BAGS_API_KEY not configured' };
+    }
     
-    const launchTxBody = {
-      ipfs: tokenMetadata,
-      tokenMint: tokenMint,
-      wallet: launcherKeypair.publicKey.toBase58(),
-      initialBuyLamports,
-      configKey: meteoraConfigKey,
-    };
+    if (!LAUNCHER_PRIVATE_KEY) {
+      return { success: false, error: 'LAUNCHER_PRIVATE_KEY not configured' };
+    }
     
-    const launchTxRes = await fetch(`${BAGS_API_BASE}/token-launch/create-launch-transaction`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': BAGS_API_KEY,
-      },
-      body: JSON.stringify(launchTxBody),
-    });
+    const presale = await getPresaleById(presaleId);
+    if (!presale) {
+      return { success: false, error: 'Presale not found' };
+    }
     
-    const launchTxRaw = await launchTxRes.json();
-    const launchTxResult = parseBagsResponse(launchTxRaw);
+    const notLaunchable = launchableError(presale, force);
+    if (notLaunchable) {
+      return { success: false, error: notLaunchable };
+    }
     
-    console.log('[LaunchPresale] Launch tx response keys:', Object.keys(launchTxResult.data || {}));
+    if ((await getPresaleParticipants(presaleId)).length === 0) {
+      return { success: false, error: 'No confirmed participants' };
+    }
     
-    if (!launchTxResult.success) {
-      console.error('[LaunchPresale] Launch tx creation failed:', launchTxResult.error);
-      await updatePresaleStatus(presaleId, 'active', {
-        token_mint: tokenMint,
-        meteora_config_key: meteoraConfigKey,
-      });
-      
+    const state = presale.launch_state;
+    const done = (step: LaunchStep) => !!state?.completed_steps.includes(step);
+    const connection = new Connection(SOLANA_RPC_URL, 'confirmed');
+    const launcherKeypair = Keypair.fromSecretKey(bs58.decode(LAUNCHER_PRIVATE_KEY));
+    const launcher = launcherKeypair.publicKey.toBase58();
+    
+    // Values BAGS only hands out when the request is sent - placeholders until an earlier attempt saved them
+    const tokenMint = presale.token_mint || '<tokenMint from create-token-info>';
+    const tokenMetadata = state?.token_metadata || '<tokenMetadata from create-token-info>';
+    const meteoraConfigKey = presale.meteora_config_key || '<meteoraConfigKey from fee-share/config>';
+    
+    const report: LaunchDryRun = {
+      presale_id: presaleId,
+      fee_shares: state?.fee_shares || await calculateFeeShares(presaleId, false),
+      allocation: state?.allocation || allocateLaunchBudget(presale.launch_budget, solToLamports(presale.total_sol)),
+      steps: [],
+      not_simulated: [],
+    };
+    const finish = (): LaunchResult => {
+      report.not_simulated = report.steps.filter(s => s.status === 'not_simulated').map(s => s.step);
+      const failed = report.steps.find(s => s.status === 'error' || s.transactions.some(tx => tx.error));
       return {
-        success: false,
-        error: `Failed to create launch transaction: ${launchTxResult.error}`,
-        step: 'launch_tx',
-        token_mint: tokenMint,
-        meteora_config_key: meteoraConfigKey,
+        success: !failed,
+        error: failed && (failed.error || `${failed.step} simulation failed`),
+        step: failed?.step,
+        token_mint: presale.token_mint,
+        meteora_config_key: presale.meteora_config_key,
+        dry_run: report,
       };
-    }
+    };
+    const notSent = 'BAGS request built but not sent - sending it creates state on BAGS';
     
-    // Sign and send launch transaction
-    console.log('[LaunchPresale] Signing launch transaction...');
+    console.log('[LaunchPresale] Dry run for:', presaleId);
     
-    let launchSignature: string;
-    try {
-      const launchTxData = launchTxResult.data;
-      
-      // Get transaction from response (BAGS API uses base58 encoding!)
-      let txBase58: string;
-      if (typeof launchTxData === 'string') {
-        txBase58 = launchTxData;
-      } else if (launchTxData.transaction) {
-        txBase58 = launchTxData.transaction;
-      } else if (launchTxData.serializedTransaction) {
-        txBase58 = launchTxData.serializedTransaction;
-      } else if (launchTxData.tx) {
-        txBase58 = launchTxData.tx;
+    // ---- metadata ----
+    const metadata: DryRunStep = {
+      step: 'metadata',
+      status: done('metadata') && presale.token_mint ? 'done' : 'not_simulated',
+      request: { path: '/token-launch/create-token-info', body: metadataRequest(presale) },
+      transactions: [],
+      detail: presale.token_mint ? `Token mint ${presale.token_mint}` : notSent,
+    };
+    report.steps.push(metadata);
+    
+    // ---- fee_share ----
+    const feeShare: DryRunStep = {
+      step: 'fee_share',
+      status: done('fee_share') && presale.meteora_config_key ? 'done' : 'not_simulated',
+      request: { path: '/fee-share/config', body: feeShareRequest(report.fee_shares, launcher, tokenMint) },
+      transactions: [],
+      detail: presale.meteora_config_key
+        ? `Meteora config ${presale.meteora_config_key}, ${report.fee_shares.length} claimers`
+        : notSent,
+    };
+    report.steps.push(feeShare);
+    
+    // ---- config_txs ----
+    const configTxs = state?.config_txs || [];
+    const config: DryRunStep = { step: 'config_txs', status: done('config_txs') ? 'done' : 'ok', transactions: [] };
+    report.steps.push(config);
+    
+    if (!done('config_txs')) {
+      if (feeShare.status === 'done') {
+        for (const [i, tx] of configTxs.entries()) {
+          if (tx.confirmed) continue;
+          config.transactions.push(await simulateLaunchTx(connection, tx.unsigned, `Config tx ${i + 1}/${configTxs.length}`));
+        }
       } else {
-        throw new Error(`Unknown launch tx format: ${Object.keys(launchTxData)}`);
-      }
-      
-      console.log('[LaunchPresale] Launch tx base58 length:', txBase58.length);
-      
-      // Use helper that handles bs58 decoding
-      launchSignature = await signAndSendTransaction(connection, txBase58, launcherKeypair);
-      console.log('[LaunchPresale] Launch confirmed:', launchSignature);
-      
-    } catch (txError: any) {
-      console.error('[LaunchPresale] Launch tx send failed:', txError.message);
-      if (txError.logs) {
-        console.error('[LaunchPresale] Launch tx logs:', txError.logs.slice(0, 5));
+        config.status = 'not_simulated';
+        config.detail = 'The config txs come back from the fee-share request';
       }
-      
-      await updatePresaleStatus(presaleId, 'active', {
-        token_mint: tokenMint,
-        meteora_config_key: meteoraConfigKey,
-      });
-      
-      return {
-        success: false,
-        error: `Launch transaction failed: ${txError.message}`,
-        step: 'launch_send',
-        token_mint: tokenMint,
-        meteora_config_key: meteoraConfigKey,
-      };
     }
     
-    // ============================================
-    // STEP 4: Update presale status
-    // ============================================
-    await updatePresaleStatus(presaleId, 'launched', {
-      token_mint: tokenMint,
-      meteora_config_key: meteoraConfigKey,
-      launch_signature: launchSignature,
-      launched_at: new Date().toISOString(),
-    });
-    forceSavePresaleDb();
-    
-    console.log('[LaunchPresale] ✅ LAUNCH COMPLETE!');
-    console.log('[LaunchPresale] Token:', tokenMint);
-    console.log('[LaunchPresale] Signature:', launchSignature);
+    // ---- fund ----
+    const fund: DryRunStep = { step: 'fund', status: done('fund') ? 'done' : 'ok', transactions: [] };
+    report.steps.push(fund);
+    
+    if (!done('fund')) {
+      try {
+        loadEscrowKeypair(launcherKeypair);
+      } catch (e: any) {
+        // The real launch would stop here - the simulation below still shows what it would move
+        fund.status = 'error';
+        fund.error = e.message;
+      }
+      const fundTx = await buildFundTx(connection, new PublicKey(ESCROW_WALLET), launcherKeypair.publicKey, report.allocation);
+      if (fundTx) {
+        fund.transactions.push(await simulateLaunchTx(connection, fundTx, 'Escrow funding tx'));
+      } else {
+        fund.detail = 'Nothing to fund - the launcher already holds the deposits';
+      }
+    }
     
-    return {
-      success: true,
-      token_mint: tokenMint,
-      launch_signature: launchSignature,
-      meteora_config_key: meteoraConfigKey,
-      bags_url: `https://bags.fm/token/${tokenMint}`,
-      explorer_url: `https://solscan.io/tx/${launchSignature}`,
+    // ---- launch_tx ----
+    const launch: DryRunStep = {
+      step: 'launch_tx',
+      status: done('launch_tx') ? 'done' : 'ok',
+      request: {
+        path: '/token-launch/create-launch-transaction',
+        body: launchTxRequest(tokenMetadata, tokenMint, launcher, report.allocation.initial_buy_lamports, meteoraConfigKey),
+      },
+      transactions: [],
     };
+    report.steps.push(launch);
+    
+    if (!done('launch_tx')) {
+      if (state?.launch_tx) {
+        // Saved by an earlier attempt - the real launch resumes it unless it has expired
+        launch.transactions.push(await simulateLaunchTx(connection, state.launch_tx.unsigned, 'Launch tx'));
+        if (!done('config_txs')) {
+          launch.detail = 'Simulated before the config txs have landed - it cannot see the fee-share config yet';
+        }
+      } else {
+        launch.status = 'not_simulated';
+        launch.detail = notSent;
+      }
+    }
+    
+    return finish();
     
   } catch (e: any) {
-    console.error('[LaunchPresale] Error:', e.message);
+    console.error('[LaunchPresale] Dry run error:', e.message);
     return { success: false, error: e.message };
   }
 }
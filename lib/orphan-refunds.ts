@@ -0,0 +1,269 @@
+// lib/orphan-refunds.ts
+// Refund queue for orphaned deposits - SOL that reached escrow but could not be credited to a participant
+// Each refund's signature is persisted before it is sent, so a crash never pays the same orphan twice
+
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+} from '@solana/web3.js';
+import bs58 from 'bs58';
+import {
+  getOrphanedDeposit,
+  getOrphanedDeposits,
+  updateOrphanedDeposit,
+  type OrphanedDeposit,
+} from './presale-db';
+import { recordPresaleEvent } from './presale-events';
+import { flagEscrowShortfall } from './escrow-reconcile';
+import { estimatePayoutFee, payoutBudgetInstructions, payoutFeeShare } from './payout-fees';
+import { sendTransaction } from './tx-sender';
+import { ESCROW_WALLET } from './constants';
+
+const SOLANA_RPC_URL = process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com';
+const ESCROW_PRIVATE_KEY = process.env.ESCROW_PRIVATE_KEY;
+
+// Sends that never landed before the queue gives up and leaves the orphan for manual review
+const ORPHAN_REFUND_MAX_ATTEMPTS = 5;
+
+export interface OrphanRefundRunResult {
+  refunded: number;
+  failed: number;
+  in_flight: number;
+  queued: number;
+}
+
+let running: Promise<OrphanRefundRunResult> | null = null;
+
+// What the depositor sees about their refund
+export function orphanRefundView(orphan: OrphanedDeposit) {
+  return {
+    deposit_signature: orphan.signature,
+    presale_id: orphan.presale_id,
+    lamports: orphan.lamports,
+    reason: orphan.reason,
+    status: orphan.status,
+    refund_lamports: orphan.refund_lamports,
+    refund_signature: orphan.status === 'refunded' ? orphan.refund_signature : undefined,
+    updated_at: orphan.updated_at,
+  };
+}
+
+// ============ REFUND QUEUE ============
+
+// Resolve a refund that was sent (or may have been sent) by an earlier run
+async function settleInFlight(connection: Connection, orphan: OrphanedDeposit): Promise<OrphanedDeposit> {
+  if (!orphan.refund_signature) {
+    return { ...orphan, status: 'queued' };
+  }
+
+  const { value: [status] } = await connection.getSignatureStatuses(
+    [orphan.refund_signature],
+    { searchTransactionHistory: true }
+  );
+
+  if (status && !status.err && status.confirmationStatus !== 'processed') {
+    return markRefunded(orphan);
+  }
+
+  if (status?.err) {
+    // A failed tx moves nothing - safe to send a new one
+    const failed = { ...orphan, status: 'queued' as const, last_error: `Refund tx failed: ${JSON.stringify(status.err)}` };
+    await updateOrphanedDeposit(failed);
+    return failed;
+  }
+
+  if (!status && orphan.refund_last_valid_block_height !== undefined) {
+    const height = await connection.getBlockHeight('confirmed');
+    if (height > orphan.refund_last_valid_block_height) {
+      // Blockhash expired without the tx landing - it can never land now
+      const expired = { ...orphan, status: 'queued' as const, last_error: 'Refund tx expired before landing' };
+      await updateOrphanedDeposit(expired);
+      return expired;
+    }
+  }
+
+  return orphan;
+}
+
+async function markRefunded(orphan: OrphanedDeposit): Promise<OrphanedDeposit> {
+  const refunded: OrphanedDeposit = { ...orphan, status: 'refunded', last_error: undefined };
+  await updateOrphanedDeposit(refunded);
+
+  await recordPresaleEvent({
+    presale_id: orphan.presale_id,
+    type: 'orphan_refunded',
+    actor_wallet: orphan.wallet,
+    amount_lamports: orphan.refund_lamports,
+    tx_signatures: [orphan.signature, orphan.refund_signature!],
+    details: { reason: orphan.reason },
+  });
+
+  console.log('[OrphanRefunds] Refunded', orphan.refund_lamports, 'lamports to', orphan.wallet, orphan.refund_signature);
+  return refunded;
+}
+
+// Sign, persist, then send one refund. Returns false if escrow cannot cover it.
+async function sendRefund(
+  connection: Connection,
+  escrowKeypair: Keypair,
+  orphan: OrphanedDeposit
+): Promise<boolean> {
+  // Network fee kept back from the refund (same policy as participant refunds)
+  const fee = await estimatePayoutFee(connection, escrowKeypair.publicKey, 1);
+  const refundLamports = orphan.lamports - payoutFeeShare(fee, 1);
+  if (refundLamports <= 0) {
+    await updateOrphanedDeposit({ ...orphan, status: 'failed', last_error: 'Deposit is smaller than the network fee' });
+    return true;
+  }
+
+  const balance = await connection.getBalance(escrowKeypair.publicKey, 'confirmed');
+  if (balance < refundLamports + fee.fee_lamports) {
+    flagEscrowShortfall({
+      presale_id: orphan.presale_id,
+      wallet: orphan.wallet,
+      needed_lamports: refundLamports + fee.fee_lamports,
+      balance_lamports: balance,
+    });
+    return false;
+  }
+
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+  const transaction = new Transaction({
+    feePayer: escrowKeypair.publicKey,
+    blockhash,
+    lastValidBlockHeight,
+  }).add(
+    ...payoutBudgetInstructions(fee),
+    SystemProgram.transfer({
+      fromPubkey: escrowKeypair.publicKey,
+      toPubkey: new PublicKey(orphan.wallet),
+      lamports: refundLamports,
+    })
+  );
+  transaction.sign(escrowKeypair);
+
+  // The signature exists before the tx is sent - record it first so a crash can be resolved later
+  const sending: OrphanedDeposit = {
+    ...orphan,
+    status: 'refunding',
+    attempts: orphan.attempts + 1,
+    refund_lamports: refundLamports,
+    refund_signature: bs58.encode(transaction.signature!),
+    refund_last_valid_block_height: lastValidBlockHeight,
+  };
+  await updateOrphanedDeposit(sending);
+
+  const sent = await sendTransaction(connection, {
+    serialized: transaction.serialize(),
+    signature: sending.refund_signature!,
+    blockhash,
+    last_valid_block_height: lastValidBlockHeight,
+  });
+
+  switch (sent.outcome) {
+    case 'confirmed':
+      await markRefunded(sending);
+      return true;
+
+    case 'failed':
+    case 'expired':
+      // Nothing moved - queued again until it runs out of attempts
+      await updateOrphanedDeposit({ ...sending, status: 'queued', last_error: sent.error });
+      return true;
+
+    case 'insufficient_funds':
+      await updateOrphanedDeposit({ ...sending, status: 'queued', last_error: sent.error });
+      flagEscrowShortfall({
+        presale_id: orphan.presale_id,
+        wallet: orphan.wallet,
+        needed_lamports: refundLamports + fee.fee_lamports,
+        balance_lamports: await connection.getBalance(escrowKeypair.publicKey, 'confirmed'),
+      });
+      return false;
+
+    case 'unknown':
+      // Stays 'refunding' until settleInFlight can tell
+      console.error('[OrphanRefunds] Outcome unknown for', orphan.signature, sent.error);
+      await updateOrphanedDeposit({ ...sending, last_error: sent.error });
+      return true;
+  }
+}
+
+async function processQueue(): Promise<OrphanRefundRunResult> {
+  const result: OrphanRefundRunResult = { refunded: 0, failed: 0, in_flight: 0, queued: 0 };
+
+  const pending = await getOrphanedDeposits({ status: ['queued', 'refunding'] });
+  if (pending.length === 0) return result;
+
+  if (!ESCROW_PRIVATE_KEY) {
+    console.error('[OrphanRefunds]', pending.length, 'orphaned deposits waiting, but ESCROW_PRIVATE_KEY is not set');
+    result.queued = pending.length;
+    return result;
+  }
+
+  const escrowKeypair = Keypair.fromSecretKey(bs58.decode(ESCROW_PRIVATE_KEY));
+  if (escrowKeypair.publicKey.toBase58() !== ESCROW_WALLET) {
+    throw new Error('ESCROW_PRIVATE_KEY does not match ESCROW_WALLET');
+  }
+
+  const connection = new Connection(SOLANA_RPC_URL, 'confirmed');
+  let escrowCovered = true;
+
+  for (let orphan of pending) {
+    if (orphan.status === 'refunding') {
+      orphan = await settleInFlight(connection, orphan);
+    }
+
+    if (orphan.status === 'queued' && escrowCovered) {
+      if (orphan.attempts >= ORPHAN_REFUND_MAX_ATTEMPTS) {
+        orphan = { ...orphan, status: 'failed' };
+        await updateOrphanedDeposit(orphan);
+      } else {
+        escrowCovered = await sendRefund(connection, escrowKeypair, orphan);
+        orphan = (await getOrphanedDeposit(orphan.signature)) || orphan;
+      }
+    }
+
+    if (orphan.status === 'refunded') result.refunded++;
+    else if (orphan.status === 'failed') result.failed++;
+    else if (orphan.status === 'refunding') result.in_flight++;
+    else result.queued++;
+  }
+
+  if (result.refunded > 0 || result.failed > 0) {
+    console.log('[OrphanRefunds] Refunded', result.refunded, '| failed', result.failed, '| waiting', result.queued + result.in_flight);
+  }
+  return result;
+}
+
+// Process the refund queue once (concurrent callers share the same run)
+export async function processOrphanRefunds(): Promise<OrphanRefundRunResult> {
+  if (running) return running;
+
+  running = processQueue().finally(() => {
+    running = null;
+  });
+
+  return running;
+}
+
+// ============ SCHEDULED JOB ============
+
+let jobTimer: NodeJS.Timeout | null = null;
+
+// Work the queue every ORPHAN_REFUND_INTERVAL_SECONDS (default 60, 0 disables)
+export function startOrphanRefundJob(): void {
+  const seconds = parseInt(process.env.ORPHAN_REFUND_INTERVAL_SECONDS || '60');
+  if (!seconds || jobTimer) return;
+
+  console.log('[OrphanRefunds] Processing the refund queue every', seconds, 'seconds');
+  jobTimer = setInterval(() => {
+    processOrphanRefunds().catch((e) => {
+      console.error('[OrphanRefunds] Run failed:', e.message);
+    });
+  }, seconds * 1000);
+  jobTimer.unref?.();
+}
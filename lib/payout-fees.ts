@@ -0,0 +1,73 @@
+// lib/payout-fees.ts
+// Network fee estimates for escrow payouts - getFeeForMessage on the real tx shape plus a compute-budget priority fee
+// Refunds, withdrawals and the refund route's preview all price and build payout txs through here
+
+import {
+  Connection,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  type TransactionInstruction,
+} from '@solana/web3.js';
+import { estimatePriorityFee, computeBudgetInstructions } from './tx-sender';
+
+// Who the network fee comes out of: the participant (deducted from their payout) or the platform (escrow absorbs it)
+export type PayoutFeePayer = 'participant' | 'platform';
+
+export const PAYOUT_FEE_PAYER: PayoutFeePayer =
+  process.env.PAYOUT_FEE_PAYER === 'platform' ? 'platform' : 'participant';
+
+// System transfers cost 150 CU each - the limit leaves headroom so the priority fee is not paid on unused units
+const COMPUTE_UNITS_BASE = 1000;
+const COMPUTE_UNITS_PER_TRANSFER = 300;
+
+// Fallback when the RPC cannot price the message (one signature)
+const BASE_FEE_LAMPORTS = 5000;
+
+export interface PayoutFee {
+  fee_lamports: number; // Whole tx: base fee + priority fee
+  priority_fee_micro_lamports: number; // Per compute unit
+  compute_unit_limit: number;
+  paid_by: PayoutFeePayer;
+}
+
+// Compute budget instructions a payout tx must start with to pay `fee`
+export function payoutBudgetInstructions(fee: PayoutFee): TransactionInstruction[] {
+  return computeBudgetInstructions(fee.compute_unit_limit, fee.priority_fee_micro_lamports);
+}
+
+// Fee for a payout tx from `payer` with `transfers` SystemProgram.transfers
+export async function estimatePayoutFee(
+  connection: Connection,
+  payer: PublicKey,
+  transfers: number
+): Promise<PayoutFee> {
+  // What recently landed txs paid to write-lock the payer (escrow)
+  const priority = await estimatePriorityFee(connection, [payer]);
+
+  const fee: PayoutFee = {
+    fee_lamports: 0,
+    priority_fee_micro_lamports: priority,
+    compute_unit_limit: COMPUTE_UNITS_BASE + COMPUTE_UNITS_PER_TRANSFER * transfers,
+    paid_by: PAYOUT_FEE_PAYER,
+  };
+
+  // Same instructions as the payout itself (amounts and recipients do not change the fee)
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+  const transaction = new Transaction({ feePayer: payer, blockhash, lastValidBlockHeight })
+    .add(...payoutBudgetInstructions(fee));
+  for (let i = 0; i < transfers; i++) {
+    transaction.add(SystemProgram.transfer({ fromPubkey: payer, toPubkey: payer, lamports: 1 }));
+  }
+
+  // getFeeForMessage includes the priority fee set by the compute budget instructions
+  const { value } = await connection.getFeeForMessage(transaction.compileMessage(), 'confirmed');
+  fee.fee_lamports = value ?? BASE_FEE_LAMPORTS + Math.ceil((priority * fee.compute_unit_limit) / 1_000_000);
+
+  return fee;
+}
+
+// What each of `recipients` gives up towards the fee (nothing when the platform pays)
+export function payoutFeeShare(fee: PayoutFee, recipients: number): number {
+  return fee.paid_by === 'participant' ? Math.ceil(fee.fee_lamports / recipients) : 0;
+}
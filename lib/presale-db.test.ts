@@ -0,0 +1,111 @@
+// lib/presale-db.test.ts
+// Withdrawals and launches must never both spend the same SOL
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// The storage backend reads its location when first loaded - point it at a scratch file before importing
+const dir = mkdtempSync(join(tmpdir(), 'presale-db-test-'));
+process.env.PRESALE_STORAGE = 'json';
+process.env.PRESALE_DB_PATH = join(dir, 'presales.json');
+
+let db: typeof import('./presale-db');
+let storage: ReturnType<typeof import('./presale-storage').getPresaleStorage>;
+
+before(async () => {
+  db = await import('./presale-db');
+  storage = (await import('./presale-storage')).getPresaleStorage();
+});
+
+after(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+let walletNum = 0;
+function wallet(): string {
+  return `Wallet${++walletNum}`.padEnd(44, '1');
+}
+
+async function createFilledPresale() {
+  const presale = await db.createPresale({
+    creator_wallet: wallet(),
+    token_name: 'Test',
+    token_symbol: 'TEST',
+    description: 'Test presale',
+    image_url: 'https://example.com/test.png',
+    target_participants: 2,
+    launch_fee_signature: `fee-${walletNum}`,
+  });
+  const participants = [wallet(), wallet()];
+  for (const [i, participant] of participants.entries()) {
+    const joined = await db.addConfirmedParticipant({
+      presale_id: presale.id,
+      wallet: participant,
+      amount_sol: 0.05,
+      tx_signature: `${presale.id}-deposit-${i}`,
+      deposit_lamports: 50_000_000,
+    });
+    assert.ok(joined.success, joined.error);
+  }
+  return { presale, participants };
+}
+
+function payoutIntent(presale_id: string, wallet: string) {
+  return {
+    signature: `${presale_id}-${wallet}-payout`,
+    presale_id,
+    wallet,
+    amount_lamports: 50_000_000,
+    lamports: 47_500_000,
+    tax_lamports: 2_500_000,
+    fee_lamports: 5000,
+    blockhash: 'blockhash',
+    last_valid_block_height: 100,
+    transaction: 'signed',
+  };
+}
+
+test('a launch waits for a withdrawal that may still land', async () => {
+  const { presale, participants } = await createFilledPresale();
+
+  const intent = await db.beginPayoutIntent(payoutIntent(presale.id, participants[0]));
+  assert.ok(intent);
+
+  await db.acquireLaunchLease(presale.id, 'holder');
+  const refused = await db.beginPresaleLaunch(presale.id, 'holder');
+  assert.equal(refused.success, false);
+  assert.match(refused.error!, /still settling/);
+
+  const waiting = await db.getPresaleById(presale.id);
+  assert.equal(waiting?.status, 'active');
+  assert.equal(waiting?.launch_state, undefined);
+
+  // The withdrawal expired without landing - the launch may now fix the allocation from the full total
+  await db.updatePayoutIntent({ ...intent, status: 'expired' });
+  const begun = await db.beginPresaleLaunch(presale.id, 'holder');
+  assert.ok(begun.success, begun.error);
+  assert.equal(begun.presale?.launch_state?.allocation?.total_lamports, 100_000_000);
+});
+
+test('no withdrawal starts once a launch has begun', async () => {
+  const { presale, participants } = await createFilledPresale();
+
+  await db.acquireLaunchLease(presale.id, 'holder');
+  const begun = await db.beginPresaleLaunch(presale.id, 'holder');
+  assert.ok(begun.success, begun.error);
+
+  assert.equal(await db.beginPayoutIntent(payoutIntent(presale.id, participants[0])), null);
+  assert.deepEqual(await db.getOpenPayoutIntents(presale.id), []);
+});
+
+test('no withdrawal starts on an expired presale', async () => {
+  const { presale, participants } = await createFilledPresale();
+
+  const stored = (await storage.getPresale(presale.id))!;
+  await storage.updatePresale({ ...stored, expires_at: new Date(Date.now() - 1000).toISOString() });
+
+  assert.equal(await db.beginPayoutIntent(payoutIntent(presale.id, participants[0])), null);
+});
@@ -1,84 +1,60 @@
 // lib/presale-db.ts
 // Presale database for fair launch with fee sharing
 // 69 wallets (68 participants + 1 creator), 5% creator allocation, 5% withdrawal tax
+// Persistence is delegated to the configured storage backend (see presale-storage.ts)
 
-import * as fs from 'fs';
-import * as path from 'path';
-import { PRESALE_CONFIG, isValidDuration } from './constants';
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import {
+  PRESALE_CONFIG,
+  DEFAULT_WITHDRAWAL_TAX,
+  DEFAULT_LAUNCH_BUDGET,
+  isValidDuration,
+  parseWithdrawalTaxSchedule,
+  parseLaunchBudget,
+  allocateLaunchBudget,
+  parseSoftCap,
+  softCapReached,
+} from './constants';
+import { getPresaleStorage, type PresaleListQuery, type OrphanedDepositFilter } from './presale-storage';
+import { encodeCursor, decodeCursor, type PresaleSort } from './presale-query';
+import { recordPresaleEvent, solToLamports } from './presale-events';
+import type {
+  Presale,
+  PresaleParticipant,
+  PresaleStatus,
+  DepositSignature,
+  DepositIntent,
+  OrphanedDeposit,
+  PayoutIntent,
+  WithdrawalTaxSchedule,
+  SoftCap,
+  ParticipantDeposit,
+  LaunchStep,
+  LaunchTx,
+  PresaleLaunchState,
+  LaunchLease,
+  LaunchBudget,
+} from './presale-types';
 
-// Database path
-const PRESALE_DB_PATH = process.env.PRESALE_DB_PATH || 
-  (process.env.RENDER ? '/data/presales.json' : './presales.json');
-
-// Presale status enum
-export type PresaleStatus = 'active' | 'launched' | 'failed' | 'refunding';
-
-// Presale interface
-export interface Presale {
-  id: string; // Unique presale ID
-  creator_wallet: string;
-  
-  // Token metadata
-  token_name: string;
-  token_symbol: string;
-  description: string;
-  image_url: string;
-  twitter?: string;
-  website?: string;
-  
-  // Presale config
-  min_sol_per_wallet: number; // Minimum SOL to join (e.g., 0.1)
-  max_sol_per_wallet: number; // Maximum SOL per wallet (e.g., 1)
-  target_participants: number; // Target: 68 (+ creator = 69)
-  duration_minutes: number; // Duration: 10, 20, or 30 minutes
-  
-  // Launch fee tracking
-  launch_fee_paid: boolean;
-  launch_fee_signature?: string;
-  
-  // Status
-  status: PresaleStatus;
-  created_at: string;
-  expires_at: string;
-  launched_at?: string;
-  
-  // Token info (set after launch)
-  token_mint?: string;
-  launch_signature?: string;
-  meteora_config_key?: string;
-  
-  // Totals (calculated)
-  total_sol: number;
-  participant_count: number;
-}
-
-// Participant interface
-export interface PresaleParticipant {
-  id: string;
-  presale_id: string;
-  wallet: string;
-  amount_sol: number;
-  fee_share_bps: number; // Calculated based on contribution
-  joined_at: string;
-  tx_signature: string;
-  confirmed: boolean;
-  refunded: boolean;
-  refund_signature?: string;
-  
-  // Withdrawal tracking (during active presale)
-  withdrawn: boolean;
-  withdraw_signature?: string;
-  withdraw_tax_paid?: number; // 5% tax amount in SOL
-}
-
-interface PresaleDatabase {
-  presales: Presale[];
-  participants: PresaleParticipant[];
-  lastPresaleNum: number;
-}
-
-let presaleDbCache: PresaleDatabase | null = null;
-let saveTimeout: NodeJS.Timeout | null = null;
+export type {
+  Presale,
+  PresaleParticipant,
+  PresaleStatus,
+  DepositSignature,
+  DepositIntent,
+  OrphanedDeposit,
+  PayoutIntent,
+  WithdrawalTaxSchedule,
+  ParticipantDeposit,
+  LaunchStep,
+  LaunchTx,
+  PresaleLaunchState,
+  LaunchLease,
+  TokenDistribution,
+  LaunchBudget,
+  LaunchAllocation,
+} from './presale-types';
+export { PRESALE_STATUSES } from './presale-types';
 
 // Generate unique presale ID
 function generatePresaleId(num: number): string {
@@ -90,62 +66,69 @@ function generatePresaleId(num: number): string {
   return `PS${String(num).padStart(4, '0')}${suffix}`;
 }
 
-// Load database
-function loadPresaleDb(): PresaleDatabase {
-  if (presaleDbCache) return presaleDbCache;
-  
-  console.log('[PresaleDB] Loading from:', PRESALE_DB_PATH);
-  
+// Force save immediately
+export async function forceSavePresaleDb(): Promise<void> {
   try {
-    if (fs.existsSync(PRESALE_DB_PATH)) {
-      const data = fs.readFileSync(PRESALE_DB_PATH, 'utf-8');
-      presaleDbCache = JSON.parse(data);
-      console.log('[PresaleDB] Loaded', presaleDbCache?.presales?.length || 0, 'presales');
-      return presaleDbCache!;
-    }
+    await getPresaleStorage().flush();
+    console.log('[PresaleDB] Force saved');
   } catch (e: any) {
-    console.error('[PresaleDB] Error loading:', e.message);
+    console.error('[PresaleDB] Error force saving:', e.message);
   }
-  
-  presaleDbCache = { presales: [], participants: [], lastPresaleNum: 0 };
-  console.log('[PresaleDB] Created new database');
-  return presaleDbCache;
 }
 
-// Save database (debounced)
-function savePresaleDb(): void {
-  if (!presaleDbCache) return;
-  
-  if (saveTimeout) clearTimeout(saveTimeout);
-  saveTimeout = setTimeout(() => {
-    try {
-      const dir = path.dirname(PRESALE_DB_PATH);
-      if (dir && dir !== '.' && !fs.existsSync(dir)) {
-        fs.mkdirSync(dir, { recursive: true });
-      }
-      fs.writeFileSync(PRESALE_DB_PATH, JSON.stringify(presaleDbCache, null, 2));
-      console.log('[PresaleDB] Saved');
-    } catch (e: any) {
-      console.error('[PresaleDB] Error saving:', e.message);
-    }
-  }, 500);
+// Durably persist a money-affecting change before returning to the caller
+// Unlike forceSavePresaleDb this throws, so a route never reports success for an unsaved change
+async function persistNow(): Promise<void> {
+  await getPresaleStorage().flush();
 }
 
-// Force save immediately
-export function forceSavePresaleDb(): void {
-  if (!presaleDbCache) return;
+// ============ PER-PRESALE LOCKING ============
+
+// Serializes capacity checks and participant mutations per presale.
+// Scope is this process - run a single instance per storage backend.
+const presaleLocks = new Map<string, Promise<unknown>>();
+
+export async function withPresaleLock<T>(presale_id: string, fn: () => Promise<T>): Promise<T> {
+  const previous = presaleLocks.get(presale_id) || Promise.resolve();
+  const run = previous.catch(() => {}).then(fn);
+  const tail = run.catch(() => {});
+  presaleLocks.set(presale_id, tail);
+  
   try {
-    const dir = path.dirname(PRESALE_DB_PATH);
-    if (dir && dir !== '.' && !fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true });
-    }
-    fs.writeFileSync(PRESALE_DB_PATH, JSON.stringify(presaleDbCache, null, 2));
-    console.log('[PresaleDB] Force saved');
-  } catch (e: any) {
-    console.error('[PresaleDB] Error force saving:', e.message);
+    return await run;
+  } finally {
+    // Drop the entry once nobody queued behind us
+    if (presaleLocks.get(presale_id) === tail) presaleLocks.delete(presale_id);
   }
 }
 
+// The presale lock plus one storage transaction - a mutation's rows are written together or not at all
+async function withPresaleTransaction<T>(presale_id: string, fn: () => Promise<T>): Promise<T> {
+  return withPresaleLock(presale_id, () => getPresaleStorage().transaction(fn));
+}
+
+// Slot reservations held while a deposit is verified on-chain
+// presale_id -> wallet -> reservation expiry (ms)
+const SLOT_RESERVATION_TTL_MS = 60 * 1000;
+const slotReservations = new Map<string, Map<string, number>>();
+
+function liveReservations(presale_id: string, exceptWallet?: string): number {
+  const reservations = slotReservations.get(presale_id);
+  if (!reservations) return 0;
+  
+  const now = Date.now();
+  let count = 0;
+  reservations.forEach((expiresAt, wallet) => {
+    if (expiresAt <= now) {
+      reservations.delete(wallet);
+    } else if (wallet !== exceptWallet) {
+      count++;
+    }
+  });
+  if (reservations.size === 0) slotReservations.delete(presale_id);
+  return count;
+}
+
 // ============ PRESALE CRUD ============
 
 // Create a new presale
@@ -161,9 +144,12 @@ export async function createPresale(data: {
   max_sol_per_wallet?: number;
   duration_minutes?: number;
   target_participants?: number; // 1-68, defaults to 68
+  withdrawal_tax?: WithdrawalTaxSchedule; // Defaults to the flat platform rate
+  launch_budget?: LaunchBudget; // Defaults to DEFAULT_LAUNCH_BUDGET
+  soft_cap?: SoftCap; // Defaults to none - launches only when full
   launch_fee_signature: string; // Required - must pay launch fee first
 }): Promise<Presale> {
-  const db = loadPresaleDb();
+  const storage = getPresaleStorage();
   
   // Validate duration
   const duration = data.duration_minutes || 30;
@@ -177,13 +163,34 @@ export async function createPresale(data: {
     throw new Error(`Target participants must be between ${PRESALE_CONFIG.MIN_PARTICIPANTS} and ${PRESALE_CONFIG.MAX_PARTICIPANTS}`);
   }
   
+  // Validate withdrawal tax schedule against the platform limits
+  const withdrawalTax = parseWithdrawalTaxSchedule(data.withdrawal_tax || DEFAULT_WITHDRAWAL_TAX, duration);
+  if (withdrawalTax.error) {
+    throw new Error(withdrawalTax.error);
+  }
+  
+  // Validate how the raised SOL will be spent at launch
+  const launchBudget = parseLaunchBudget(data.launch_budget || DEFAULT_LAUNCH_BUDGET);
+  if (launchBudget.error) {
+    throw new Error(launchBudget.error);
+  }
+  
+  // Validate the soft cap against this presale's own target and limits
+  const softCap = parseSoftCap(data.soft_cap, {
+    target_participants: targetParticipants,
+    min_sol_per_wallet: data.min_sol_per_wallet || PRESALE_CONFIG.DEFAULT_MIN_SOL,
+    max_sol_per_wallet: data.max_sol_per_wallet || PRESALE_CONFIG.DEFAULT_MAX_SOL,
+  });
+  if (softCap.error) {
+    throw new Error(softCap.error);
+  }
+  
   // Launch fee signature is required
   if (!data.launch_fee_signature) {
     throw new Error('Launch fee payment signature required');
   }
   
-  db.lastPresaleNum++;
-  const id = generatePresaleId(db.lastPresaleNum);
+  const id = generatePresaleId(await storage.nextPresaleNum());
   
   const now = new Date();
   const expiresAt = new Date(now.getTime() + duration * 60 * 1000);
@@ -201,6 +208,9 @@ export async function createPresale(data: {
     max_sol_per_wallet: data.max_sol_per_wallet || PRESALE_CONFIG.DEFAULT_MAX_SOL,
     target_participants: targetParticipants,
     duration_minutes: duration,
+    withdrawal_tax: withdrawalTax.schedule,
+    launch_budget: launchBudget.budget,
+    soft_cap: softCap.soft_cap,
     launch_fee_paid: true,
     launch_fee_signature: data.launch_fee_signature,
     status: 'active',
@@ -210,8 +220,23 @@ export async function createPresale(data: {
     participant_count: 0,
   };
   
-  db.presales.unshift(presale);
-  savePresaleDb();
+  await storage.transaction(async () => {
+    await storage.insertPresale(presale);
+    await recordPresaleEvent({
+      presale_id: id,
+      type: 'presale_created',
+      actor_wallet: presale.creator_wallet,
+      amount_lamports: solToLamports(PRESALE_CONFIG.LAUNCH_FEE_SOL),
+      tx_signatures: [data.launch_fee_signature],
+      details: {
+        target_participants: targetParticipants,
+        duration_minutes: duration,
+        withdrawal_tax: withdrawalTax.schedule,
+        launch_budget: launchBudget.budget,
+        soft_cap: softCap.soft_cap,
+      },
+    });
+  });
   
   console.log('[PresaleDB] Created presale:', id, presale.token_symbol, 'target:', targetParticipants);
   return presale;
@@ -219,33 +244,69 @@ export async function createPresale(data: {
 
 // Get presale by ID
 export async function getPresaleById(id: string): Promise<Presale | null> {
-  const db = loadPresaleDb();
-  return db.presales.find(p => p.id === id) || null;
+  return getPresaleStorage().getPresale(id);
 }
 
 // Get active presales
 export async function getActivePresales(): Promise<Presale[]> {
-  const db = loadPresaleDb();
   const now = new Date();
+  const presales = await getPresaleStorage().listPresales({ status: 'active' });
   
-  return db.presales.filter(p => {
-    if (p.status !== 'active') return false;
-    // Check if expired
-    if (new Date(p.expires_at) < now) return false;
-    return true;
-  });
+  // Skip expired ones that have not been marked yet
+  return presales.filter(p => new Date(p.expires_at) >= now);
 }
 
 // Get all presales (with pagination)
 export async function getAllPresales(limit = 50, offset = 0): Promise<Presale[]> {
-  const db = loadPresaleDb();
-  return db.presales.slice(offset, offset + limit);
+  return getPresaleStorage().listPresales({ limit, offset });
+}
+
+// Filtered, sorted listing with cursor pagination and a correct total
+// `offset` is kept for callers that page by position - it skips rows after the cursor, if any
+export async function queryPresales(options: {
+  status?: PresaleStatus | PresaleStatus[];
+  creator_wallet?: string;
+  created_after?: string;
+  created_before?: string;
+  search?: string;
+  sort?: PresaleSort;
+  cursor?: string;
+  limit?: number;
+  offset?: number;
+}): Promise<{ presales: Presale[]; total: number; next_cursor: string | null }> {
+  const storage = getPresaleStorage();
+  const sort = options.sort || 'newest';
+  const limit = options.limit || 50;
+  
+  let cursor;
+  if (options.cursor) {
+    cursor = decodeCursor(options.cursor);
+    if (!cursor) throw new Error('Invalid cursor');
+  }
+  
+  const filters: PresaleListQuery = {
+    status: options.status,
+    creator_wallet: options.creator_wallet,
+    created_after: options.created_after,
+    created_before: options.created_before,
+    search: options.search?.trim() || undefined,
+  };
+  
+  // Fetch one extra row to know whether another page exists
+  const [rows, total] = await Promise.all([
+    storage.listPresales({ ...filters, sort, cursor: cursor || undefined, limit: limit + 1, offset: options.offset }),
+    storage.countPresales(filters),
+  ]);
+  
+  const presales = rows.slice(0, limit);
+  const next_cursor = rows.length > limit ? encodeCursor(presales[presales.length - 1], sort) : null;
+  
+  return { presales, total, next_cursor };
 }
 
 // Get launched presales only
 export async function getLaunchedPresales(limit = 50, offset = 0): Promise<Presale[]> {
-  const db = loadPresaleDb();
-  return db.presales.filter(p => p.status === 'launched').slice(offset, offset + limit);
+  return getPresaleStorage().listPresales({ status: 'launched', limit, offset });
 }
 
 // Update presale status
@@ -254,50 +315,120 @@ export async function updatePresaleStatus(
   status: PresaleStatus,
   additionalData?: Partial<Presale>
 ): Promise<Presale | null> {
-  const db = loadPresaleDb();
-  const presale = db.presales.find(p => p.id === id);
+  const storage = getPresaleStorage();
+  const presale = await storage.getPresale(id);
   
   if (!presale) return null;
   
+  const previousStatus = presale.status;
   presale.status = status;
   if (additionalData) {
     Object.assign(presale, additionalData);
   }
   
-  savePresaleDb();
+  await storage.transaction(async () => {
+    await storage.updatePresale(presale);
+    await recordPresaleEvent({
+      presale_id: id,
+      type: 'status_changed',
+      details: { from: previousStatus, to: status },
+    });
+  });
+  await persistNow();
   console.log('[PresaleDB] Updated presale status:', id, status);
   return presale;
 }
 
+// Cancel an active presale on the creator's behalf - blocks joins, and the refund worker repays participants tax-free
+// The launch fee is non-refundable: it is recorded as forfeited
+export async function cancelPresale(
+  presale_id: string,
+  reason?: string
+): Promise<{ success: boolean; presale?: Presale; error?: string }> {
+  return withPresaleTransaction(presale_id, async () => {
+    const storage = getPresaleStorage();
+    const presale = await storage.getPresale(presale_id);
+    
+    if (!presale) return { success: false, error: 'Presale not found' };
+    if (presale.status !== 'active') {
+      return { success: false, error: `Presale is ${presale.status}, cannot cancel` };
+    }
+    
+    presale.status = 'cancelled';
+    presale.cancelled_at = new Date().toISOString();
+    presale.cancel_reason = reason;
+    presale.launch_fee_forfeited = true;
+    await storage.updatePresale(presale);
+    
+    await recordPresaleEvent({
+      presale_id,
+      type: 'presale_cancelled',
+      actor_wallet: presale.creator_wallet,
+      amount_lamports: solToLamports(PRESALE_CONFIG.LAUNCH_FEE_SOL),
+      tx_signatures: presale.launch_fee_signature ? [presale.launch_fee_signature] : [],
+      details: { from: 'active', reason, launch_fee: 'forfeited', participants: presale.participant_count },
+    });
+    await persistNow();
+    
+    console.log('[PresaleDB] Presale cancelled by creator:', presale_id, reason || '');
+    return { success: true, presale };
+  });
+}
+
 // Update launch fee paid
 export async function updateLaunchFeePaid(
   id: string,
   signature: string
 ): Promise<boolean> {
-  const db = loadPresaleDb();
-  const presale = db.presales.find(p => p.id === id);
+  const storage = getPresaleStorage();
+  const presale = await storage.getPresale(id);
   
   if (!presale) return false;
   
   presale.launch_fee_paid = true;
   presale.launch_fee_signature = signature;
   
-  savePresaleDb();
+  await storage.updatePresale(presale);
   console.log('[PresaleDB] Updated launch fee paid:', id);
   return true;
 }
 
 // ============ PARTICIPANT CRUD ============
 
-// Add participant to presale
-export async function addParticipant(data: {
+// Find the wallet's current (not refunded / not withdrawn) record
+async function findActiveParticipant(
+  presale_id: string,
+  wallet: string
+): Promise<PresaleParticipant | null> {
+  const [participant] = await getPresaleStorage().listParticipants({ presale_id, wallet, active: true });
+  return participant || null;
+}
+
+// Deposits credited to a participant (records from before top-ups only have their joining deposit)
+function participantDeposits(participant: PresaleParticipant): ParticipantDeposit[] {
+  return participant.deposits || [{
+    signature: participant.tx_signature,
+    lamports: solToLamports(participant.amount_sol + (participant.withdrawn_sol || 0)),
+    credited_at: participant.joined_at,
+  }];
+}
+
+// Whether `signature` is one of the participant's credited deposits (the join or a top-up)
+export function participantHasDeposit(participant: PresaleParticipant, signature: string): boolean {
+  return participantDeposits(participant).some(d => d.signature === signature);
+}
+
+// Insert an unconfirmed participant record (caller holds the presale lock)
+async function insertParticipantRecord(data: {
   presale_id: string;
   wallet: string;
   amount_sol: number;
   tx_signature: string;
+  deposit_lamports?: number;
+  intent_reference?: string;
 }): Promise<PresaleParticipant | null> {
-  const db = loadPresaleDb();
-  const presale = db.presales.find(p => p.id === data.presale_id);
+  const storage = getPresaleStorage();
+  const presale = await storage.getPresale(data.presale_id);
   
   if (!presale) {
     console.error('[PresaleDB] Presale not found:', data.presale_id);
@@ -305,9 +436,7 @@ export async function addParticipant(data: {
   }
   
   // Check if wallet already participated (and hasn't withdrawn)
-  const existing = db.participants.find(
-    p => p.presale_id === data.presale_id && p.wallet === data.wallet && !p.refunded && !p.withdrawn
-  );
+  const existing = await findActiveParticipant(data.presale_id, data.wallet);
   if (existing) {
     console.error('[PresaleDB] Wallet already participated:', data.wallet);
     return null;
@@ -321,40 +450,48 @@ export async function addParticipant(data: {
     fee_share_bps: 0, // Calculated on launch
     joined_at: new Date().toISOString(),
     tx_signature: data.tx_signature,
+    deposits: [{
+      signature: data.tx_signature,
+      lamports: data.deposit_lamports ?? solToLamports(data.amount_sol),
+      credited_at: new Date().toISOString(),
+      ...(data.intent_reference && { intent_reference: data.intent_reference }),
+    }],
     confirmed: false,
     refunded: false,
     withdrawn: false,
   };
   
-  db.participants.push(participant);
-  savePresaleDb();
+  await storage.insertParticipant(participant);
   
   console.log('[PresaleDB] Added participant:', data.wallet, 'to presale:', data.presale_id);
   return participant;
 }
 
-// Confirm participant deposit
-export async function confirmParticipant(
-  presale_id: string, 
+// Confirm an unconfirmed record, enforcing capacity (caller holds the presale lock)
+async function confirmParticipantRecord(
+  presale_id: string,
   wallet: string
 ): Promise<{ participant: PresaleParticipant; presale: Presale } | null> {
-  const db = loadPresaleDb();
+  const storage = getPresaleStorage();
   
-  const participant = db.participants.find(
-    p => p.presale_id === presale_id && p.wallet === wallet && !p.confirmed && !p.refunded && !p.withdrawn
-  );
+  const participant = await findActiveParticipant(presale_id, wallet);
   
-  if (!participant) {
+  if (!participant || participant.confirmed) {
     console.error('[PresaleDB] Participant not found or already confirmed');
     return null;
   }
   
-  const presale = db.presales.find(p => p.id === presale_id);
+  const presale = await storage.getPresale(presale_id);
   if (!presale) {
     console.error('[PresaleDB] Presale not found');
     return null;
   }
   
+  if (presale.participant_count >= presale.target_participants) {
+    console.error('[PresaleDB] Presale is full, cannot confirm:', wallet);
+    return null;
+  }
+  
   // Confirm participant
   participant.confirmed = true;
   
@@ -362,7 +499,17 @@ export async function confirmParticipant(
   presale.total_sol += participant.amount_sol;
   presale.participant_count++;
   
-  savePresaleDb();
+  await storage.updateParticipant(participant);
+  await storage.updatePresale(presale);
+  await recordPresaleEvent({
+    presale_id,
+    type: 'participant_confirmed',
+    actor_wallet: wallet,
+    amount_lamports: solToLamports(participant.amount_sol),
+    tx_signatures: [participant.tx_signature],
+    details: { position: presale.participant_count },
+  });
+  await persistNow();
   
   console.log('[PresaleDB] Confirmed participant:', wallet, 
     '| Presale now has', presale.participant_count, 'participants,', presale.total_sol, 'SOL');
@@ -370,10 +517,216 @@ export async function confirmParticipant(
   return { participant, presale };
 }
 
+// Credit another verified deposit to a confirmed participant (caller holds the presale lock)
+// The participant keeps its slot and position - only its contribution and the presale total grow
+async function creditTopUpRecord(
+  participant: PresaleParticipant,
+  presale: Presale,
+  data: { amount_sol: number; tx_signature: string; deposit_lamports: number; intent_reference?: string }
+): Promise<{ participant: PresaleParticipant; presale: Presale }> {
+  const storage = getPresaleStorage();
+  
+  participant.deposits = [...participantDeposits(participant), {
+    signature: data.tx_signature,
+    lamports: data.deposit_lamports,
+    credited_at: new Date().toISOString(),
+    ...(data.intent_reference && { intent_reference: data.intent_reference }),
+  }];
+  participant.amount_sol = (solToLamports(participant.amount_sol) + solToLamports(data.amount_sol)) / LAMPORTS_PER_SOL;
+  presale.total_sol += data.amount_sol;
+  
+  await storage.updateParticipant(participant);
+  await storage.updatePresale(presale);
+  await recordPresaleEvent({
+    presale_id: presale.id,
+    type: 'participant_topped_up',
+    actor_wallet: participant.wallet,
+    amount_lamports: solToLamports(data.amount_sol),
+    tx_signatures: [data.tx_signature],
+    details: { amount_sol: participant.amount_sol, deposits: participant.deposits.length },
+  });
+  await persistNow();
+  
+  console.log('[PresaleDB] Topped up participant:', participant.wallet,
+    '| Now', participant.amount_sol, 'SOL | Presale total', presale.total_sol, 'SOL');
+  
+  return { participant, presale };
+}
+
+// Add participant to presale
+export async function addParticipant(data: {
+  presale_id: string;
+  wallet: string;
+  amount_sol: number;
+  tx_signature: string;
+}): Promise<PresaleParticipant | null> {
+  return withPresaleTransaction(data.presale_id, () => insertParticipantRecord(data));
+}
+
+// Confirm participant deposit
+export async function confirmParticipant(
+  presale_id: string, 
+  wallet: string
+): Promise<{ participant: PresaleParticipant; presale: Presale } | null> {
+  return withPresaleTransaction(presale_id, () => confirmParticipantRecord(presale_id, wallet));
+}
+
+// Reserve a slot before the slow on-chain deposit check
+// Counts against capacity until confirmed, released or expired
+export async function reserveParticipantSlot(
+  presale_id: string,
+  wallet: string,
+  ttlMs: number = SLOT_RESERVATION_TTL_MS
+): Promise<{ success: boolean; error?: string }> {
+  return withPresaleLock(presale_id, async () => {
+    const presale = await getPresaleStorage().getPresale(presale_id);
+    
+    if (!presale) return { success: false, error: 'Presale not found' };
+    if (presale.status !== 'active') return { success: false, error: `Presale is ${presale.status}, cannot join` };
+    if (new Date(presale.expires_at) < new Date()) return { success: false, error: 'Presale has expired' };
+    
+    // A confirmed participant topping up already holds its slot
+    const participant = await findActiveParticipant(presale_id, wallet);
+    if (participant?.confirmed) return { success: true };
+    
+    if (presale.participant_count + liveReservations(presale_id, wallet) >= presale.target_participants) {
+      return { success: false, error: 'Presale is full' };
+    }
+    
+    let reservations = slotReservations.get(presale_id);
+    if (!reservations) {
+      reservations = new Map();
+      slotReservations.set(presale_id, reservations);
+    }
+    reservations.set(wallet, Math.max(reservations.get(wallet) || 0, Date.now() + ttlMs));
+    
+    return { success: true };
+  });
+}
+
+// Give a reserved slot back (safe to call more than once)
+export function releaseParticipantSlot(presale_id: string, wallet: string): void {
+  const reservations = slotReservations.get(presale_id);
+  if (!reservations) return;
+  reservations.delete(wallet);
+  if (reservations.size === 0) slotReservations.delete(presale_id);
+}
+
+// Add and confirm a verified deposit in one locked step - or credit it as a top-up if the wallet already joined
+// Re-checks status and capacity, so two wallets racing for the last slot cannot both get in
+// The deposit signature is claimed in the global registry here, so a transfer funds at most one participant
+export async function addConfirmedParticipant(data: {
+  presale_id: string;
+  wallet: string;
+  amount_sol: number;
+  tx_signature: string;
+  deposit_lamports: number;
+  intent_reference?: string;
+}): Promise<{
+  success: boolean;
+  error?: string;
+  participant?: PresaleParticipant;
+  presale?: Presale;
+  top_up?: boolean;
+}> {
+  return withPresaleTransaction(data.presale_id, async () => {
+    try {
+      const storage = getPresaleStorage();
+      const presale = await storage.getPresale(data.presale_id);
+      
+      if (!presale) return { success: false, error: 'Presale not found' };
+      if (presale.status !== 'active') return { success: false, error: `Presale is ${presale.status}, cannot join` };
+      
+      let participant = await findActiveParticipant(data.presale_id, data.wallet);
+      
+      // Already credited - a retry of the same deposit, not a new one
+      if (participant?.confirmed && participantHasDeposit(participant, data.tx_signature)) {
+        return { success: true, participant, presale, top_up: participant.tx_signature !== data.tx_signature };
+      }
+      
+      // A confirmed participant depositing again is topping up - capped on the combined amount
+      const topUp = participant?.confirmed ? participant : null;
+      
+      if (!topUp && presale.participant_count >= presale.target_participants) {
+        return { success: false, error: 'Presale is full' };
+      }
+      if (data.wallet === presale.creator_wallet) {
+        return { success: false, error: 'Creator cannot join their own presale' };
+      }
+      if (topUp) {
+        const combined = solToLamports(topUp.amount_sol) + solToLamports(data.amount_sol);
+        if (combined > solToLamports(presale.max_sol_per_wallet)) {
+          return {
+            success: false,
+            error: `Top-up would exceed the ${presale.max_sol_per_wallet} SOL maximum per wallet (${topUp.amount_sol} SOL already in)`,
+          };
+        }
+        // A withdrawal signed for the old amount must settle first
+        if ((await storage.listPayoutIntents({ presale_id: data.presale_id, wallet: data.wallet, status: 'sent' })).length > 0) {
+          return { success: false, error: 'A withdrawal is still in flight for this wallet' };
+        }
+      } else if (data.amount_sol < presale.min_sol_per_wallet || data.amount_sol > presale.max_sol_per_wallet) {
+        return {
+          success: false,
+          error: `Contribution must be between ${presale.min_sol_per_wallet} and ${presale.max_sol_per_wallet} SOL`,
+        };
+      }
+      
+      const intent = data.intent_reference ? await storage.getDepositIntent(data.intent_reference) : null;
+      if (data.intent_reference && !intent) return { success: false, error: 'Deposit intent not found' };
+      if (intent && intent.status === 'used' && intent.signature !== data.tx_signature) {
+        return { success: false, error: 'Deposit intent has already been used' };
+      }
+      
+      // A claim by this same presale + wallet is a retry after a crash, not a replay
+      const claimedBy = await storage.claimDepositSignature({
+        signature: data.tx_signature,
+        presale_id: data.presale_id,
+        wallet: data.wallet,
+        lamports: data.deposit_lamports,
+        consumed_at: new Date().toISOString(),
+        use: 'participant',
+      });
+      if (claimedBy?.use === 'refund') {
+        return { success: false, error: 'This deposit has been queued for refund' };
+      }
+      if (claimedBy && (claimedBy.presale_id !== data.presale_id || claimedBy.wallet !== data.wallet)) {
+        return { success: false, error: 'Transaction signature has already been used' };
+      }
+      
+      if (!participant) {
+        participant = await insertParticipantRecord(data);
+      }
+      if (!participant) {
+        return { success: false, error: 'Failed to add participant. Wallet may have already joined.' };
+      }
+      
+      if (intent && intent.status !== 'used') {
+        await storage.updateDepositIntent({ ...intent, status: 'used', signature: data.tx_signature });
+      }
+      
+      if (topUp) {
+        return { success: true, ...(await creditTopUpRecord(topUp, presale, data)), top_up: true };
+      }
+      
+      const result = await confirmParticipantRecord(data.presale_id, data.wallet);
+      if (!result) return { success: false, error: 'Failed to confirm participant' };
+      
+      return { success: true, ...result };
+    } finally {
+      releaseParticipantSlot(data.presale_id, data.wallet);
+    }
+  });
+}
+
+// Look up who consumed a deposit signature (null if it is unused)
+export async function getConsumedDeposit(signature: string): Promise<DepositSignature | null> {
+  return getPresaleStorage().getDepositSignature(signature);
+}
+
 // Get participants for a presale
 export async function getPresaleParticipants(presale_id: string): Promise<PresaleParticipant[]> {
-  const db = loadPresaleDb();
-  return db.participants.filter(p => p.presale_id === presale_id && p.confirmed && !p.refunded && !p.withdrawn);
+  return getPresaleStorage().listParticipants({ presale_id, confirmed: true, active: true });
 }
 
 // Get participant by wallet
@@ -381,10 +734,7 @@ export async function getParticipantByWallet(
   presale_id: string, 
   wallet: string
 ): Promise<PresaleParticipant | null> {
-  const db = loadPresaleDb();
-  return db.participants.find(
-    p => p.presale_id === presale_id && p.wallet === wallet && !p.refunded && !p.withdrawn
-  ) || null;
+  return findActiveParticipant(presale_id, wallet);
 }
 
 // Mark participant as refunded (for failed presales - no tax)
@@ -393,70 +743,131 @@ export async function markParticipantRefunded(
   wallet: string,
   refund_signature: string
 ): Promise<boolean> {
-  const db = loadPresaleDb();
-  
-  const participant = db.participants.find(
-    p => p.presale_id === presale_id && p.wallet === wallet && !p.refunded && !p.withdrawn
-  );
-  
-  if (!participant) return false;
-  
-  const presale = db.presales.find(p => p.id === presale_id);
-  
-  participant.refunded = true;
-  participant.refund_signature = refund_signature;
-  
-  // Update presale totals if was confirmed
-  if (participant.confirmed && presale) {
-    presale.total_sol -= participant.amount_sol;
-    presale.participant_count--;
+  return withPresaleTransaction(presale_id, async () => {
+    const storage = getPresaleStorage();
+    
+    const participant = await findActiveParticipant(presale_id, wallet);
+    
+    if (!participant) return false;
+    
+    const presale = await storage.getPresale(presale_id);
+    
+    participant.refunded = true;
+    participant.refund_signature = refund_signature;
+    participant.refund_status = 'confirmed';
+    participant.refund_error = undefined;
+    participant.refund_next_attempt_at = undefined;
+    await storage.updateParticipant(participant);
+    
+    // Update presale totals if was confirmed
+    if (participant.confirmed && presale) {
+      presale.total_sol -= participant.amount_sol;
+      presale.participant_count--;
+      await storage.updatePresale(presale);
+    }
+    await recordPresaleEvent({
+      presale_id,
+      type: 'refunded',
+      actor_wallet: wallet,
+      // What the refund tx sent - the contribution less its share of the network fee
+      amount_lamports: participant.refund_lamports ?? solToLamports(participant.amount_sol),
+      tx_signatures: [refund_signature],
+      details: { contribution_lamports: solToLamports(participant.amount_sol) },
+    });
+    await persistNow();
+    
+    console.log('[PresaleDB] Marked refunded:', wallet);
+    return true;
+  });
+}
+
+// Why `amount_lamports` cannot be withdrawn from the participant's contribution, or null if it can
+// Withdrawing less than everything must leave at least the presale minimum
+export function withdrawalAmountError(
+  presale: Presale,
+  participant: PresaleParticipant,
+  amount_lamports: number
+): string | null {
+  const contribution = solToLamports(participant.amount_sol);
+  const remaining = contribution - amount_lamports;
+  
+  if (!Number.isInteger(amount_lamports) || amount_lamports <= 0) {
+    return 'Withdrawal amount must be positive';
   }
-  
-  savePresaleDb();
-  console.log('[PresaleDB] Marked refunded:', wallet);
-  return true;
+  if (remaining < 0) {
+    return `Cannot withdraw more than your ${participant.amount_sol} SOL contribution`;
+  }
+  if (remaining > 0 && remaining < solToLamports(presale.min_sol_per_wallet)) {
+    return `Must keep at least ${presale.min_sol_per_wallet} SOL in the presale, or withdraw all ${participant.amount_sol} SOL`;
+  }
+  return null;
 }
 
 // Mark participant as withdrawn (during active presale - with tax)
+// A partial withdrawal (amount_lamports below the contribution) lowers amount_sol and keeps the participant's slot
 export async function markParticipantWithdrawn(
   presale_id: string,
   wallet: string,
   withdraw_signature: string,
-  tax_paid: number
+  tax_paid: number,
+  amount_lamports?: number // Contribution withdrawn - defaults to all of it
 ): Promise<boolean> {
-  const db = loadPresaleDb();
-  
-  const participant = db.participants.find(
-    p => p.presale_id === presale_id && p.wallet === wallet && !p.refunded && !p.withdrawn
-  );
-  
-  if (!participant) return false;
-  
-  const presale = db.presales.find(p => p.id === presale_id);
-  
-  participant.withdrawn = true;
-  participant.withdraw_signature = withdraw_signature;
-  participant.withdraw_tax_paid = tax_paid;
-  
-  // Update presale totals if was confirmed
-  if (participant.confirmed && presale) {
-    presale.total_sol -= participant.amount_sol;
-    presale.participant_count--;
-  }
-  
-  savePresaleDb();
-  console.log('[PresaleDB] Marked withdrawn with', tax_paid, 'SOL tax:', wallet);
-  return true;
+  return withPresaleTransaction(presale_id, async () => {
+    const storage = getPresaleStorage();
+    
+    const participant = await findActiveParticipant(presale_id, wallet);
+    
+    // Gone, or this withdrawal was already applied
+    if (!participant || participant.withdraw_signature === withdraw_signature) return false;
+    
+    const presale = await storage.getPresale(presale_id);
+    const contributionLamports = solToLamports(participant.amount_sol);
+    const withdrawnLamports = Math.min(amount_lamports ?? contributionLamports, contributionLamports);
+    const partial = withdrawnLamports < contributionLamports;
+    const withdrawnSol = withdrawnLamports / LAMPORTS_PER_SOL;
+    
+    participant.withdraw_signature = withdraw_signature;
+    participant.withdraw_tax_paid = (participant.withdraw_tax_paid || 0) + tax_paid;
+    if (partial) {
+      participant.amount_sol = (contributionLamports - withdrawnLamports) / LAMPORTS_PER_SOL;
+      participant.withdrawn_sol = (participant.withdrawn_sol || 0) + withdrawnSol;
+    } else {
+      participant.withdrawn = true;
+    }
+    await storage.updateParticipant(participant);
+    
+    // Update presale totals if was confirmed
+    if (participant.confirmed && presale) {
+      presale.total_sol -= withdrawnSol;
+      if (!partial) presale.participant_count--;
+      await storage.updatePresale(presale);
+    }
+    await recordPresaleEvent({
+      presale_id,
+      type: 'withdrawn',
+      actor_wallet: wallet,
+      amount_lamports: withdrawnLamports,
+      tax_lamports: solToLamports(tax_paid),
+      tx_signatures: [withdraw_signature],
+      details: partial ? { partial: true, remaining_sol: participant.amount_sol } : undefined,
+    });
+    await persistNow();
+    
+    console.log('[PresaleDB] Marked', partial ? 'partially withdrawn' : 'withdrawn', 'with', tax_paid, 'SOL tax:', wallet);
+    return true;
+  });
 }
 
 // Calculate fee shares for all participants (called before launch)
 // Creator gets 5% (500 BPS) guaranteed, remaining 95% split proportionally
-export async function calculateFeeShares(presale_id: string): Promise<{ wallet: string; bps: number }[]> {
-  const db = loadPresaleDb();
-  const presale = db.presales.find(p => p.id === presale_id);
-  const participants = db.participants.filter(
-    p => p.presale_id === presale_id && p.confirmed && !p.refunded && !p.withdrawn
-  );
+// `persist` false (launch dry runs) leaves participants' recorded fee_share_bps untouched
+export async function calculateFeeShares(
+  presale_id: string,
+  persist: boolean = true
+): Promise<{ wallet: string; bps: number }[]> {
+  const storage = getPresaleStorage();
+  const presale = await storage.getPresale(presale_id);
+  const participants = await getPresaleParticipants(presale_id);
   
   if (!presale || participants.length === 0) return [];
   
@@ -467,12 +878,12 @@ export async function calculateFeeShares(presale_id: string): Promise<{ wallet:
   const creatorBps = PRESALE_CONFIG.CREATOR_ALLOCATION_BPS; // 500 = 5%
   let remainingBps = 10000 - creatorBps; // 9500 = 95% to distribute
   
-  // Calculate shares proportional to SOL contributed
+  // Calculate shares proportional to SOL contributed (amount_sol combines the join and every top-up)
   let totalAssignedBps = 0;
   for (const p of participants) {
     const share = (p.amount_sol / totalSol) * remainingBps;
     const bps = Math.floor(share);
-    p.fee_share_bps = bps;
+    if (persist) p.fee_share_bps = bps;
     feeShares.push({ wallet: p.wallet, bps });
     totalAssignedBps += bps;
   }
@@ -486,32 +897,56 @@ export async function calculateFeeShares(presale_id: string): Promise<{ wallet:
     feeShares[feeShares.length - 1].bps += (10000 - totalAssignedBps);
   }
   
-  savePresaleDb();
+  if (persist) {
+    for (const p of participants) {
+      await storage.updateParticipant(p);
+    }
+  }
   
   console.log('[PresaleDB] Calculated fee shares for', feeShares.length, 'wallets');
   console.log('[PresaleDB] Creator:', presale.creator_wallet, 'gets', creatorBps, 'BPS (5%)');
   return feeShares;
 }
 
-// Check and update expired presales
+// Close presales past expires_at - one that reached its soft cap moves to launching (the expiry
+// scheduler launches it with whoever joined), the rest fail and are refunded
 export async function checkExpiredPresales(): Promise<Presale[]> {
-  const db = loadPresaleDb();
+  const storage = getPresaleStorage();
   const now = new Date();
-  const expired: Presale[] = [];
-  
-  for (const presale of db.presales) {
-    if (presale.status === 'active' && new Date(presale.expires_at) < now) {
-      presale.status = 'failed';
-      expired.push(presale);
-      console.log('[PresaleDB] Presale expired:', presale.id);
-    }
+  const expired = await storage.listPresales({ status: 'active', expires_before: now.toISOString() });
+  const closed: Presale[] = [];
+  
+  for (const candidate of expired) {
+    // Under the lock, so a deposit confirming right now counts towards the soft cap (or not) consistently
+    await withPresaleTransaction(candidate.id, async () => {
+      const presale = await storage.getPresale(candidate.id);
+      if (!presale || presale.status !== 'active') return;
+      
+      const reached = softCapReached(presale.soft_cap, presale.participant_count, presale.total_sol);
+      presale.status = reached ? 'launching' : 'failed';
+      await storage.updatePresale(presale);
+      await recordPresaleEvent({
+        presale_id: presale.id,
+        type: 'status_changed',
+        details: {
+          from: 'active',
+          to: presale.status,
+          reason: reached ? 'soft_cap_reached' : 'expired',
+          soft_cap: presale.soft_cap,
+          participant_count: presale.participant_count,
+          total_sol: presale.total_sol,
+        },
+      });
+      closed.push(presale);
+      console.log('[PresaleDB] Presale expired:', presale.id, reached ? '(soft cap reached - launching)' : '');
+    });
   }
   
-  if (expired.length > 0) {
-    savePresaleDb();
+  if (closed.length > 0) {
+    await persistNow();
   }
   
-  return expired;
+  return closed;
 }
 
 // Get presale stats
@@ -520,27 +955,611 @@ export async function getPresaleStats(): Promise<{
   active: number;
   launched: number;
   failed: number;
+  cancelled: number;
   total_sol: number;
 }> {
-  const db = loadPresaleDb();
-  
-  const launchedPresales = db.presales.filter(p => p.status === 'launched');
-  const total_sol = launchedPresales.reduce((sum, p) => sum + (p.total_sol || 0), 0);
-  
-  return {
-    total: db.presales.length,
-    active: db.presales.filter(p => p.status === 'active').length,
-    launched: launchedPresales.length,
-    failed: db.presales.filter(p => p.status === 'failed').length,
-    total_sol,
-  };
+  return getPresaleStorage().getStats();
 }
 
-// Check if presale is ready for auto-launch
+// Check if presale is ready for auto-launch - full, or launching with nobody running it
+// (closed at expiry with its soft cap reached, or left behind by a launch whose process died)
 export async function checkAutoLaunch(presale_id: string): Promise<boolean> {
   const presale = await getPresaleById(presale_id);
   if (!presale) return false;
   
-  return presale.status === 'active' && 
-         presale.participant_count >= presale.target_participants;
+  if (presale.status === 'active') return presale.participant_count >= presale.target_participants;
+  return presale.status === 'launching' && !(await getLaunchLease(presale_id));
+}
+
+// ============ LAUNCH LEASE ============
+
+// A launch renews its lease well within this - if the process dies, another launch may take over after it
+export const LAUNCH_LEASE_TTL_MS = 2 * 60 * 1000;
+
+// Take (or renew) the presale's launch lease - only one holder can launch a presale at a time
+export async function acquireLaunchLease(
+  presale_id: string,
+  holder: string
+): Promise<{ acquired: boolean; lease: LaunchLease }> {
+  const now = Date.now();
+  const lease: LaunchLease = {
+    presale_id,
+    holder,
+    expires_at: new Date(now + LAUNCH_LEASE_TTL_MS).toISOString(),
+  };
+  
+  const held = await getPresaleStorage().acquireLaunchLease(lease, new Date(now).toISOString());
+  if (held) return { acquired: false, lease: held };
+  
+  await persistNow();
+  return { acquired: true, lease };
+}
+
+// The live lease on a presale's launch, if any
+export async function getLaunchLease(presale_id: string): Promise<LaunchLease | null> {
+  const lease = await getPresaleStorage().getLaunchLease(presale_id);
+  return lease && lease.expires_at > new Date().toISOString() ? lease : null;
+}
+
+export async function releaseLaunchLease(presale_id: string, holder: string): Promise<void> {
+  await getPresaleStorage().releaseLaunchLease(presale_id, holder);
+  await persistNow();
+}
+
+// Launch state is written only by the lease holder - a run whose lease lapsed must stop
+async function requireLaunchLease(presale_id: string, holder: string): Promise<void> {
+  const lease = await getLaunchLease(presale_id);
+  if (lease?.holder !== holder) {
+    throw new Error('Launch lease lost - another launch has taken over');
+  }
+}
+
+// ============ LAUNCH STATE ============
+
+// Statuses a launch may start or resume from - launching only after the request running it died
+const LAUNCHABLE_STATUSES: PresaleStatus[] = ['active', 'launching', 'launch_failed'];
+
+// Move a presale to launching, keeping whatever earlier attempts completed (joins and withdrawals stop here)
+// The first attempt fixes the budget allocation - the raised total cannot change after this
+// Refused while a withdrawal may still land (it would pay out allocated SOL) - the launch is retried once it settles
+export async function beginPresaleLaunch(
+  presale_id: string,
+  holder: string
+): Promise<{ success: boolean; presale?: Presale; error?: string }> {
+  return withPresaleTransaction(presale_id, async () => {
+    await requireLaunchLease(presale_id, holder);
+    const storage = getPresaleStorage();
+    const presale = await storage.getPresale(presale_id);
+    
+    if (!presale) return { success: false, error: 'Presale not found' };
+    if (!LAUNCHABLE_STATUSES.includes(presale.status)) {
+      return { success: false, error: `Presale is ${presale.status}, cannot launch` };
+    }
+    
+    const unsettled = await storage.listPayoutIntents({ presale_id, status: 'sent' });
+    if (unsettled.length > 0) {
+      return { success: false, error: `${unsettled.length} withdrawal(s) still settling - the launch is retried once they land or expire` };
+    }
+    
+    const previousStatus = presale.status;
+    const previous = presale.launch_state;
+    presale.status = 'launching';
+    presale.launch_state = {
+      ...previous,
+      completed_steps: previous?.completed_steps || [],
+      allocation: previous?.allocation || allocateLaunchBudget(presale.launch_budget, solToLamports(presale.total_sol)),
+      attempts: (previous?.attempts || 0) + 1,
+      failed_step: undefined,
+      error: undefined,
+      updated_at: new Date().toISOString(),
+    };
+    await storage.updatePresale(presale);
+    
+    if (previousStatus !== 'launching') {
+      await recordPresaleEvent({
+        presale_id,
+        type: 'status_changed',
+        details: {
+          from: previousStatus,
+          to: 'launching',
+          attempt: presale.launch_state.attempts,
+          resume_from: previous?.failed_step,
+        },
+      });
+    }
+    await persistNow();
+    
+    console.log('[PresaleDB] Launch attempt', presale.launch_state.attempts, 'for', presale_id,
+      'completed:', presale.launch_state.completed_steps.join(', ') || 'none');
+    return { success: true, presale };
+  });
+}
+
+// Persist a launch step's output the moment it exists - a retry picks up from here
+export async function saveLaunchProgress(
+  presale_id: string,
+  holder: string,
+  data: {
+    token_mint?: string;
+    meteora_config_key?: string;
+    state?: Partial<PresaleLaunchState>;
+    completed_step?: LaunchStep;
+  }
+): Promise<Presale | null> {
+  return withPresaleTransaction(presale_id, async () => {
+    await requireLaunchLease(presale_id, holder);
+    const storage = getPresaleStorage();
+    const presale = await storage.getPresale(presale_id);
+    if (!presale) return null;
+    
+    if (data.token_mint) presale.token_mint = data.token_mint;
+    if (data.meteora_config_key) presale.meteora_config_key = data.meteora_config_key;
+    
+    const state: PresaleLaunchState = {
+      completed_steps: [],
+      attempts: 0,
+      ...presale.launch_state,
+      ...data.state,
+      updated_at: new Date().toISOString(),
+    };
+    if (data.completed_step && !state.completed_steps.includes(data.completed_step)) {
+      state.completed_steps = [...state.completed_steps, data.completed_step];
+    }
+    presale.launch_state = state;
+    
+    await storage.updatePresale(presale);
+    await persistNow();
+    return presale;
+  });
+}
+
+// A launch step failed - the presale waits in launch_failed and a retry resumes at that step
+// Ignored once the lease is lost: the launch that took over owns the status now
+export async function failPresaleLaunch(
+  presale_id: string,
+  holder: string,
+  step: LaunchStep,
+  error: string
+): Promise<Presale | null> {
+  return withPresaleTransaction(presale_id, async () => {
+    const storage = getPresaleStorage();
+    const presale = await storage.getPresale(presale_id);
+    if (!presale || presale.status !== 'launching') return presale;
+    if ((await getLaunchLease(presale_id))?.holder !== holder) return presale;
+    
+    presale.status = 'launch_failed';
+    presale.launch_state = {
+      completed_steps: [],
+      attempts: 0,
+      ...presale.launch_state,
+      failed_step: step,
+      error,
+      updated_at: new Date().toISOString(),
+    };
+    await storage.updatePresale(presale);
+    
+    await recordPresaleEvent({
+      presale_id,
+      type: 'status_changed',
+      details: { from: 'launching', to: 'launch_failed', step, error },
+    });
+    await persistNow();
+    
+    console.log('[PresaleDB] Launch failed at', step, 'for', presale_id, error);
+    return presale;
+  });
+}
+
+// ============ DEPOSIT INTENTS ============
+
+// How long a server-built deposit tx may take to land (its blockhash expires sooner)
+export const DEPOSIT_INTENT_TTL_MS = 2 * 60 * 1000;
+
+// Remember a server-built deposit so it can be verified against exactly what was issued
+export async function createDepositIntent(data: {
+  presale_id: string;
+  wallet: string;
+  amount_lamports: number;
+  reference: string;
+}): Promise<DepositIntent> {
+  const now = Date.now();
+  const intent: DepositIntent = {
+    reference: data.reference,
+    presale_id: data.presale_id,
+    wallet: data.wallet,
+    amount_lamports: data.amount_lamports,
+    status: 'open',
+    created_at: new Date(now).toISOString(),
+    expires_at: new Date(now + DEPOSIT_INTENT_TTL_MS).toISOString(),
+  };
+  
+  await getPresaleStorage().insertDepositIntent(intent);
+  await persistNow();
+  
+  console.log('[PresaleDB] Deposit intent:', data.presale_id, data.wallet, data.amount_lamports, 'lamports');
+  return intent;
+}
+
+export async function getDepositIntent(reference: string): Promise<DepositIntent | null> {
+  return getPresaleStorage().getDepositIntent(reference);
+}
+
+// ============ ORPHANED DEPOSITS ============
+
+// Record a deposit that reached escrow but cannot be credited, and queue its refund
+// Claims the signature for refund, so it can never also become a participant (and vice versa)
+// Returns null if the deposit was already credited to a participant
+export async function queueOrphanedDeposit(data: {
+  signature: string;
+  presale_id: string;
+  wallet: string;
+  lamports: number;
+  reason: string;
+}): Promise<OrphanedDeposit | null> {
+  return withPresaleTransaction(data.presale_id, async () => {
+    const storage = getPresaleStorage();
+    const now = new Date().toISOString();
+    
+    const claimedBy = await storage.claimDepositSignature({
+      signature: data.signature,
+      presale_id: data.presale_id,
+      wallet: data.wallet,
+      lamports: data.lamports,
+      consumed_at: now,
+      use: 'refund',
+    });
+    if (claimedBy && claimedBy.use !== 'refund') return null;
+    
+    const orphan: OrphanedDeposit = {
+      signature: data.signature,
+      presale_id: data.presale_id,
+      wallet: data.wallet,
+      lamports: data.lamports,
+      reason: data.reason,
+      status: 'queued',
+      created_at: now,
+      updated_at: now,
+      attempts: 0,
+    };
+    
+    if (!(await storage.insertOrphanedDeposit(orphan))) {
+      return storage.getOrphanedDeposit(data.signature);
+    }
+    
+    await recordPresaleEvent({
+      presale_id: data.presale_id,
+      type: 'deposit_orphaned',
+      actor_wallet: data.wallet,
+      amount_lamports: data.lamports,
+      tx_signatures: [data.signature],
+      details: { reason: data.reason },
+    });
+    await persistNow();
+    
+    console.log('[PresaleDB] Orphaned deposit queued for refund:', data.signature, data.reason);
+    return orphan;
+  });
+}
+
+export async function getOrphanedDeposit(signature: string): Promise<OrphanedDeposit | null> {
+  return getPresaleStorage().getOrphanedDeposit(signature);
+}
+
+export async function getOrphanedDeposits(filter: OrphanedDepositFilter = {}): Promise<OrphanedDeposit[]> {
+  return getPresaleStorage().listOrphanedDeposits(filter);
+}
+
+// Refund queue bookkeeping (persisted before and after every on-chain step)
+export async function updateOrphanedDeposit(orphan: OrphanedDeposit): Promise<void> {
+  await getPresaleStorage().updateOrphanedDeposit({ ...orphan, updated_at: new Date().toISOString() });
+  await persistNow();
+}
+
+// ============ AUTOMATIC REFUNDS ============
+
+// Confirmed participants of a failed presale that still have SOL in escrow
+export async function getUnrefundedParticipants(presale_id: string): Promise<PresaleParticipant[]> {
+  return getPresaleStorage().listParticipants({ presale_id, confirmed: true, active: true });
+}
+
+// Claim participants for a signed (not yet sent) refund tx - all or nothing
+// Returns false if any of them is gone or already has a refund in flight, so the tx must not be sent
+export async function beginParticipantRefunds(
+  presale_id: string,
+  refunds: { wallet: string; lamports: number }[],
+  refund_signature: string,
+  last_valid_block_height: number
+): Promise<boolean> {
+  return withPresaleTransaction(presale_id, async () => {
+    const storage = getPresaleStorage();
+    
+    // A withdrawal in flight still holds the wallet's SOL until it settles
+    const paying = new Set((await storage.listPayoutIntents({ presale_id, status: 'sent' })).map(i => i.wallet));
+    
+    const participants: PresaleParticipant[] = [];
+    for (const refund of refunds) {
+      const participant = await findActiveParticipant(presale_id, refund.wallet);
+      if (!participant || !participant.confirmed || participant.refund_status === 'sent') return false;
+      if (paying.has(refund.wallet)) return false;
+      participants.push(participant);
+    }
+    
+    for (const [i, participant] of participants.entries()) {
+      participant.refund_status = 'sent';
+      participant.refund_signature = refund_signature;
+      participant.refund_lamports = refunds[i].lamports;
+      participant.refund_attempts = (participant.refund_attempts || 0) + 1;
+      participant.refund_last_valid_block_height = last_valid_block_height;
+      await storage.updateParticipant(participant);
+    }
+    await persistNow();
+    
+    return true;
+  });
+}
+
+// A refund tx failed or expired - nothing moved, so the participants can be retried after `retry_at`
+// (no retry_at leaves them failed for manual review)
+export async function failParticipantRefunds(
+  presale_id: string,
+  wallets: string[],
+  error: string,
+  retry_at?: string
+): Promise<void> {
+  return withPresaleTransaction(presale_id, async () => {
+    const storage = getPresaleStorage();
+    
+    for (const wallet of wallets) {
+      const participant = await findActiveParticipant(presale_id, wallet);
+      if (!participant) continue;
+      
+      participant.refund_status = 'failed';
+      participant.refund_signature = undefined;
+      participant.refund_last_valid_block_height = undefined;
+      participant.refund_error = error;
+      participant.refund_next_attempt_at = retry_at;
+      await storage.updateParticipant(participant);
+    }
+    await persistNow();
+    
+    console.log('[PresaleDB] Refund failed for', wallets.length, 'participants in', presale_id, '-', error);
+  });
+}
+
+// ============ TOKEN DISTRIBUTION ============
+
+// Record each participant's share of the launcher's initial-buy tokens and of the participant-return bucket
+// Returns false if it was already planned: the first plan stands even though the balance drops as it is paid out
+export async function planTokenDistribution(
+  presale_id: string,
+  data: {
+    total_amount: string;
+    decimals: number;
+    token_program: string;
+    return_lamports: number;
+    shares: { wallet: string; amount: string; return_lamports: number }[];
+  }
+): Promise<boolean> {
+  return withPresaleTransaction(presale_id, async () => {
+    const storage = getPresaleStorage();
+    const presale = await storage.getPresale(presale_id);
+    
+    if (!presale || presale.status !== 'launched' || presale.token_distribution) return false;
+    
+    for (const share of data.shares) {
+      const participant = await findActiveParticipant(presale_id, share.wallet);
+      if (!participant) continue;
+      
+      participant.distribution_amount = share.amount;
+      participant.distribution_return_lamports = share.return_lamports;
+      // A share that rounds to nothing has nothing to send
+      participant.distribution_status = BigInt(share.amount) > 0n || share.return_lamports > 0 ? 'pending' : 'confirmed';
+      await storage.updateParticipant(participant);
+    }
+    
+    presale.token_distribution = {
+      status: 'distributing',
+      total_amount: data.total_amount,
+      decimals: data.decimals,
+      token_program: data.token_program,
+      return_lamports: data.return_lamports,
+      planned_at: new Date().toISOString(),
+    };
+    await storage.updatePresale(presale);
+    
+    await recordPresaleEvent({
+      presale_id,
+      type: 'distribution_planned',
+      details: {
+        token_mint: presale.token_mint,
+        total_amount: data.total_amount,
+        decimals: data.decimals,
+        return_lamports: data.return_lamports,
+        participants: data.shares.length,
+      },
+    });
+    await persistNow();
+    
+    console.log('[PresaleDB] Planned token distribution for', presale_id, data.total_amount, 'to', data.shares.length, 'participants');
+    return true;
+  });
+}
+
+// Participants whose planned share has not landed yet
+export async function getUndistributedParticipants(presale_id: string): Promise<PresaleParticipant[]> {
+  return (await getPresaleParticipants(presale_id))
+    .filter(p => p.distribution_amount !== undefined && p.distribution_status !== 'confirmed');
+}
+
+// Claim participants for a signed (not yet sent) distribution tx - all or nothing
+// Returns false if any of them is gone, already paid or already has a transfer in flight
+export async function beginParticipantDistributions(
+  presale_id: string,
+  wallets: string[],
+  distribution_signature: string,
+  last_valid_block_height: number
+): Promise<boolean> {
+  return withPresaleTransaction(presale_id, async () => {
+    const storage = getPresaleStorage();
+    
+    const participants: PresaleParticipant[] = [];
+    for (const wallet of wallets) {
+      const participant = await findActiveParticipant(presale_id, wallet);
+      if (!participant || participant.distribution_amount === undefined) return false;
+      if (participant.distribution_status === 'sent' || participant.distribution_status === 'confirmed') return false;
+      participants.push(participant);
+    }
+    
+    for (const participant of participants) {
+      participant.distribution_status = 'sent';
+      participant.distribution_signature = distribution_signature;
+      participant.distribution_attempts = (participant.distribution_attempts || 0) + 1;
+      participant.distribution_last_valid_block_height = last_valid_block_height;
+      await storage.updateParticipant(participant);
+    }
+    await persistNow();
+    
+    return true;
+  });
+}
+
+// A distribution tx failed or expired - nothing moved, so the participants are retried after `retry_at`
+export async function failParticipantDistributions(
+  presale_id: string,
+  wallets: string[],
+  error: string,
+  retry_at: string
+): Promise<void> {
+  return withPresaleTransaction(presale_id, async () => {
+    const storage = getPresaleStorage();
+    
+    for (const wallet of wallets) {
+      const participant = await findActiveParticipant(presale_id, wallet);
+      if (!participant || participant.distribution_status === 'confirmed') continue;
+      
+      participant.distribution_status = 'failed';
+      participant.distribution_signature = undefined;
+      participant.distribution_last_valid_block_height = undefined;
+      participant.distribution_error = error;
+      participant.distribution_next_attempt_at = retry_at;
+      await storage.updateParticipant(participant);
+    }
+    await persistNow();
+    
+    console.log('[PresaleDB] Token distribution failed for', wallets.length, 'participants in', presale_id, '-', error);
+  });
+}
+
+export async function markParticipantsDistributed(
+  presale_id: string,
+  wallets: string[],
+  distribution_signature: string
+): Promise<void> {
+  return withPresaleTransaction(presale_id, async () => {
+    const storage = getPresaleStorage();
+    const amounts: Record<string, string> = {};
+    const returns: Record<string, number> = {};
+    
+    for (const wallet of wallets) {
+      const participant = await findActiveParticipant(presale_id, wallet);
+      if (!participant || participant.distribution_status === 'confirmed') continue;
+      
+      participant.distribution_status = 'confirmed';
+      participant.distribution_signature = distribution_signature;
+      participant.distribution_error = undefined;
+      participant.distribution_next_attempt_at = undefined;
+      await storage.updateParticipant(participant);
+      amounts[wallet] = participant.distribution_amount!;
+      returns[wallet] = participant.distribution_return_lamports || 0;
+    }
+    if (Object.keys(amounts).length === 0) return;
+    
+    await recordPresaleEvent({
+      presale_id,
+      type: 'tokens_distributed',
+      tx_signatures: [distribution_signature],
+      amount_lamports: Object.values(returns).reduce((sum, lamports) => sum + lamports, 0),
+      details: { amounts, returns },
+    });
+    await persistNow();
+    
+    console.log('[PresaleDB] Tokens distributed to', Object.keys(amounts).length, 'participants in', presale_id);
+  });
+}
+
+// Every planned share has landed - the distribution is done
+export async function completeTokenDistribution(presale_id: string): Promise<boolean> {
+  return withPresaleTransaction(presale_id, async () => {
+    const storage = getPresaleStorage();
+    const presale = await storage.getPresale(presale_id);
+    
+    if (presale?.token_distribution?.status !== 'distributing') return false;
+    if ((await getUndistributedParticipants(presale_id)).length > 0) return false;
+    
+    presale.token_distribution = {
+      ...presale.token_distribution,
+      status: 'distributed',
+      completed_at: new Date().toISOString(),
+    };
+    await storage.updatePresale(presale);
+    await persistNow();
+    
+    console.log('[PresaleDB] Token distribution complete:', presale_id);
+    return true;
+  });
+}
+
+// ============ PAYOUT INTENTS ============
+
+// Record a signed (not yet sent) withdrawal tx for an active, confirmed participant
+// Returns null if the presale is no longer active (or has expired), the participant is gone, already has a
+// payout or refund in flight, or the withdrawal would leave less than the presale minimum - the tx must not be sent
+export async function beginPayoutIntent(data: {
+  signature: string;
+  presale_id: string;
+  wallet: string;
+  amount_lamports: number;
+  lamports: number;
+  tax_lamports: number;
+  fee_lamports: number;
+  blockhash: string;
+  last_valid_block_height: number;
+  transaction: string;
+}): Promise<PayoutIntent | null> {
+  return withPresaleTransaction(data.presale_id, async () => {
+    const storage = getPresaleStorage();
+    
+    const participant = await findActiveParticipant(data.presale_id, data.wallet);
+    if (!participant || !participant.confirmed || participant.refund_status === 'sent') return null;
+    
+    // Checked under the lock beginPresaleLaunch takes - once a launch has begun, the SOL is allocated to it
+    const presale = await storage.getPresale(data.presale_id);
+    if (!presale || presale.status !== 'active' || new Date(presale.expires_at) <= new Date()) return null;
+    if (withdrawalAmountError(presale, participant, data.amount_lamports)) return null;
+    
+    const now = new Date().toISOString();
+    const intent: PayoutIntent = { ...data, status: 'sent', created_at: now, updated_at: now };
+    
+    if (!(await storage.insertPayoutIntent(intent))) return null;
+    await persistNow();
+    
+    console.log('[PresaleDB] Payout intent:', data.presale_id, data.wallet, data.signature);
+    return intent;
+  });
+}
+
+// The wallet's payout that may still land, if any
+export async function getOpenPayoutIntent(presale_id: string, wallet: string): Promise<PayoutIntent | null> {
+  const [intent] = await getPresaleStorage().listPayoutIntents({ presale_id, wallet, status: 'sent' });
+  return intent || null;
+}
+
+export async function getOpenPayoutIntents(presale_id?: string): Promise<PayoutIntent[]> {
+  return getPresaleStorage().listPayoutIntents({ presale_id, status: 'sent' });
+}
+
+// Payout bookkeeping (persisted before and after every on-chain step)
+export async function updatePayoutIntent(intent: PayoutIntent): Promise<void> {
+  await getPresaleStorage().updatePayoutIntent({ ...intent, updated_at: new Date().toISOString() });
+  await persistNow();
 }
@@ -0,0 +1,57 @@
+// lib/presale-events.ts
+// Append-only audit ledger for presales and participants
+// Support can rebuild exactly what happened to a wallet's SOL from these events
+
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { getPresaleStorage } from './presale-storage';
+import type { PresaleEvent, PresaleEventType } from './presale-types';
+
+export type { PresaleEvent, PresaleEventType } from './presale-types';
+
+// Convert a SOL amount to integer lamports for the ledger
+export function solToLamports(amountSol: number): number {
+  return Math.round(amountSol * LAMPORTS_PER_SOL);
+}
+
+// Record an event (the caller's next durable save covers it)
+export async function recordPresaleEvent(data: {
+  presale_id: string;
+  type: PresaleEventType;
+  actor_wallet?: string;
+  amount_lamports?: number;
+  tax_lamports?: number;
+  tx_signatures?: string[];
+  details?: Record<string, unknown>;
+}): Promise<PresaleEvent> {
+  const event = await getPresaleStorage().appendEvent({
+    presale_id: data.presale_id,
+    type: data.type,
+    created_at: new Date().toISOString(),
+    ...(data.actor_wallet && { actor_wallet: data.actor_wallet }),
+    ...(data.amount_lamports !== undefined && { amount_lamports: data.amount_lamports }),
+    ...(data.tax_lamports !== undefined && { tax_lamports: data.tax_lamports }),
+    ...(data.tx_signatures?.length && { tx_signatures: data.tx_signatures }),
+    ...(data.details && { details: data.details }),
+  });
+
+  console.log('[PresaleEvents]', event.type, data.presale_id, data.actor_wallet || '');
+  return event;
+}
+
+// Get the full history of one presale
+export async function getPresaleEvents(
+  presale_id: string,
+  limit = 500,
+  offset = 0
+): Promise<PresaleEvent[]> {
+  return getPresaleStorage().listEvents({ presale_id, limit, offset });
+}
+
+// Get everything a wallet did (or had done to its SOL) across presales
+export async function getWalletEvents(
+  wallet: string,
+  limit = 500,
+  offset = 0
+): Promise<PresaleEvent[]> {
+  return getPresaleStorage().listEvents({ actor_wallet: wallet, limit, offset });
+}
@@ -0,0 +1,89 @@
+// lib/presale-expiry.ts
+// Expiry scheduler - closes presales at expires_at and launches the ones that reached their soft cap
+// with whoever joined. The rest fail, and the refund worker pays their participants back
+// Also retries full presales whose auto-launch had to wait for a withdrawal to settle, and resumes launches
+// whose process died mid-launch
+
+import { checkExpiredPresales, getLaunchLease, type Presale } from './presale-db';
+import { getPresaleStorage } from './presale-storage';
+import { launchPresaleToken } from './launch-presale';
+
+export interface ExpiryRunResult {
+  closed: number; // Presales that expired this run (launching or failed)
+  launched: string[];
+  launch_failed: string[]; // Left in launch_failed for a retry from the launch route
+}
+
+let running: Promise<ExpiryRunResult> | null = null;
+
+// Launches that should be running but are not: presales closed at their soft cap (including ones a route's
+// expiry check closed since the last run), full presales whose auto-launch was refused while a withdrawal settled,
+// and launches whose process died - nothing else calls launchPresaleToken for those once their lease expires
+async function queuedLaunches(): Promise<Presale[]> {
+  const storage = getPresaleStorage();
+  const candidates = [
+    ...(await storage.listPresales({ status: 'launching' })),
+    ...(await storage.listPresales({ status: 'active' })).filter(p => p.participant_count >= p.target_participants),
+  ];
+
+  const queued: Presale[] = [];
+  for (const presale of candidates) {
+    // A live lease means a launch is running (and renewing it) - a resumed one skips its completed steps
+    if (await getLaunchLease(presale.id)) continue;
+    queued.push(presale);
+  }
+  return queued;
+}
+
+async function processExpiries(): Promise<ExpiryRunResult> {
+  const closed = await checkExpiredPresales();
+  const result: ExpiryRunResult = { closed: closed.length, launched: [], launch_failed: [] };
+
+  // One at a time - each launch funds the launcher from the same escrow
+  for (const presale of await queuedLaunches()) {
+    console.log('[PresaleExpiry] Launching', presale.id, 'with',
+      presale.participant_count, '/', presale.target_participants, 'participants');
+    const launch = await launchPresaleToken(presale.id);
+    if (launch.success) {
+      result.launched.push(presale.id);
+    } else {
+      result.launch_failed.push(presale.id);
+      console.error('[PresaleExpiry] Launch failed for', presale.id, launch.step ? `at ${launch.step}:` : '', launch.error);
+    }
+  }
+
+  if (result.closed > 0 || result.launched.length > 0 || result.launch_failed.length > 0) {
+    console.log('[PresaleExpiry] Closed', result.closed, '| launched', result.launched.length,
+      '| launch failed', result.launch_failed.length);
+  }
+  return result;
+}
+
+// Close expired presales and launch the soft-capped (and waiting full) ones (concurrent callers share the same run)
+export async function runPresaleExpiries(): Promise<ExpiryRunResult> {
+  if (running) return running;
+
+  running = processExpiries().finally(() => {
+    running = null;
+  });
+
+  return running;
+}
+
+// ============ SCHEDULED JOB ============
+
+let jobTimer: NodeJS.Timeout | null = null;
+
+// Close expired presales every PRESALE_EXPIRY_INTERVAL_SECONDS (default 15, 0 disables)
+export function startPresaleExpiryJob(): void {
+  const seconds = parseInt(process.env.PRESALE_EXPIRY_INTERVAL_SECONDS || '15');
+  if (!seconds || jobTimer) return;
+
+  console.log('[PresaleExpiry] Closing expired presales every', seconds, 'seconds');
+  jobTimer = setInterval(() => {
+    runPresaleExpiries().catch((e) => {
+      console.error('[PresaleExpiry] Run failed:', e.message);
+    });
+  }, seconds * 1000);
+  jobTimer.unref?.();
+}
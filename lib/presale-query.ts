@@ -0,0 +1,80 @@
+// lib/presale-query.ts
+// Presale listing sort orders and cursor encoding
+// Shared by the storage adapters so JSON and SQL page through results identically
+
+import type { Presale } from './presale-types';
+
+export type PresaleSort = 'newest' | 'ending_soon' | 'most_filled' | 'most_sol';
+
+export const PRESALE_SORTS: PresaleSort[] = ['newest', 'ending_soon', 'most_filled', 'most_sol'];
+
+// Cursor = sort value + id of the last row on the previous page
+export interface PresaleCursor {
+  v: string | number;
+  id: string;
+}
+
+// Direction of each sort (id is the tie-breaker in the same direction)
+export const SORT_DIRECTION: Record<PresaleSort, 'asc' | 'desc'> = {
+  newest: 'desc',
+  ending_soon: 'asc',
+  most_filled: 'desc',
+  most_sol: 'desc',
+};
+
+export function isPresaleSort(value: string | null | undefined): value is PresaleSort {
+  return !!value && (PRESALE_SORTS as string[]).includes(value);
+}
+
+// Fill ratio used by the most_filled sort
+export function fillRatio(p: Presale): number {
+  return p.target_participants > 0 ? p.participant_count / p.target_participants : 0;
+}
+
+export function sortValue(p: Presale, sort: PresaleSort): string | number {
+  switch (sort) {
+    case 'newest': return p.created_at;
+    case 'ending_soon': return p.expires_at;
+    case 'most_filled': return fillRatio(p);
+    case 'most_sol': return p.total_sol;
+  }
+}
+
+// Compare two presales in listing order
+export function comparePresales(a: Presale, b: Presale, sort: PresaleSort): number {
+  return compareKeys(sortValue(a, sort), a.id, sortValue(b, sort), b.id, sort);
+}
+
+// True if the presale comes strictly after the cursor in listing order
+export function isAfterCursor(p: Presale, cursor: PresaleCursor, sort: PresaleSort): boolean {
+  return compareKeys(sortValue(p, sort), p.id, cursor.v, cursor.id, sort) > 0;
+}
+
+function compareKeys(
+  av: string | number, aid: string,
+  bv: string | number, bid: string,
+  sort: PresaleSort
+): number {
+  const dir = SORT_DIRECTION[sort] === 'asc' ? 1 : -1;
+  if (av < bv) return -1 * dir;
+  if (av > bv) return 1 * dir;
+  if (aid < bid) return -1 * dir;
+  if (aid > bid) return 1 * dir;
+  return 0;
+}
+
+export function encodeCursor(p: Presale, sort: PresaleSort): string {
+  const cursor: PresaleCursor = { v: sortValue(p, sort), id: p.id };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeCursor(encoded: string): PresaleCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf-8'));
+    if (typeof cursor?.id !== 'string') return null;
+    if (typeof cursor.v !== 'string' && typeof cursor.v !== 'number') return null;
+    return cursor;
+  } catch {
+    return null;
+  }
+}
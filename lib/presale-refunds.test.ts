@@ -0,0 +1,202 @@
+// lib/presale-refunds.test.ts
+// Refund batches are claimed before they are sent - a participant is paid once, whether the tx lands, fails or is lost
+
+import { test, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import bs58 from 'bs58';
+import { Connection, Keypair, SystemInstruction, SystemProgram, Transaction } from '@solana/web3.js';
+
+// The storage backend and escrow key are read when first loaded - set them up before importing
+const dir = mkdtempSync(join(tmpdir(), 'presale-refunds-test-'));
+const escrow = Keypair.generate();
+process.env.PRESALE_STORAGE = 'json';
+process.env.PRESALE_DB_PATH = join(dir, 'presales.json');
+process.env.NEXT_PUBLIC_ESCROW_WALLET = escrow.publicKey.toBase58();
+process.env.ESCROW_PRIVATE_KEY = bs58.encode(escrow.secretKey);
+
+// A fake chain: sent txs land (or fail) as `send` says, and expire once `blockHeight` passes 1000
+const chain = {
+  balance: 100_000_000_000,
+  blockHeight: 0,
+  send: 'land' as 'land' | 'fail',
+  statuses: new Map<string, { err: unknown; confirmationStatus: 'confirmed'; slot: number }>(),
+  sent: [] as Transaction[],
+};
+const rpc = Connection.prototype as any;
+rpc.getBalance = async () => chain.balance;
+rpc.getRecentPrioritizationFees = async () => [];
+rpc.getFeeForMessage = async () => ({ context: { slot: 1 }, value: 5000 });
+rpc.getLatestBlockhash = async () => ({ blockhash: Keypair.generate().publicKey.toBase58(), lastValidBlockHeight: 1000 });
+rpc.sendRawTransaction = async (raw: Buffer) => {
+  const tx = Transaction.from(raw);
+  const signature = bs58.encode(tx.signature!);
+  chain.sent.push(tx);
+  if (chain.send === 'land') chain.statuses.set(signature, { err: null, confirmationStatus: 'confirmed', slot: 1 });
+  if (chain.send === 'fail') chain.statuses.set(signature, { err: { InstructionError: [2, 'Custom'] }, confirmationStatus: 'confirmed', slot: 1 });
+  return signature;
+};
+rpc.getSignatureStatuses = async (signatures: string[]) => ({
+  context: { slot: 1 },
+  value: signatures.map(s => chain.statuses.get(s) || null),
+});
+rpc.getSignaturesForAddress = async () => [];
+rpc.getParsedTransactions = async () => [];
+Object.defineProperty(rpc, 'getBlockHeight', { get() { return async () => chain.blockHeight; }, set() {} });
+
+let db: typeof import('./presale-db');
+let refunds: typeof import('./presale-refunds');
+let storage: ReturnType<typeof import('./presale-storage').getPresaleStorage>;
+
+before(async () => {
+  db = await import('./presale-db');
+  refunds = await import('./presale-refunds');
+  storage = (await import('./presale-storage')).getPresaleStorage();
+});
+
+beforeEach(() => {
+  chain.balance = 100_000_000_000;
+  chain.blockHeight = 0;
+  chain.send = 'land';
+  chain.sent = [];
+});
+
+after(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+// A presale that failed with `joined` participants of 0.05 SOL each
+async function createFailedPresale(joined: number) {
+  const presale = await db.createPresale({
+    creator_wallet: Keypair.generate().publicKey.toBase58(),
+    token_name: 'Test',
+    token_symbol: 'TEST',
+    description: 'Test presale',
+    image_url: 'https://example.com/test.png',
+    target_participants: 30,
+    launch_fee_signature: `fee-${Date.now()}-${Math.random()}`,
+  });
+  for (let i = 0; i < joined; i++) {
+    const result = await db.addConfirmedParticipant({
+      presale_id: presale.id,
+      wallet: Keypair.generate().publicKey.toBase58(),
+      amount_sol: 0.05,
+      tx_signature: `${presale.id}-deposit-${i}`,
+      deposit_lamports: 50_000_000,
+    });
+    assert.ok(result.success, result.error);
+  }
+  await db.updatePresaleStatus(presale.id, 'failed');
+  return presale;
+}
+
+function transfersIn(tx: Transaction): Map<string, number> {
+  return new Map(tx.instructions
+    .filter(ix => ix.programId.equals(SystemProgram.programId))
+    .map(ix => SystemInstruction.decodeTransfer(ix))
+    .map(t => [t.toPubkey.toBase58(), Number(t.lamports)]));
+}
+
+test('a failed presale is refunded in batches, each paying its share of the fee', async () => {
+  const presale = await createFailedPresale(12);
+
+  const result = await refunds.runPresaleRefunds();
+  assert.equal(result.refunded, 12);
+  assert.deepEqual(result.completed, [presale.id]);
+  assert.equal((await db.getPresaleById(presale.id))?.status, 'refunded');
+
+  // Ten transfers fit in a batch - the fee is split over however many share the tx
+  assert.deepEqual(chain.sent.map(tx => transfersIn(tx).size), [10, 2]);
+  const participants = await storage.listParticipants({ presale_id: presale.id });
+  for (const p of participants) {
+    const tx = chain.sent.find(t => transfersIn(t).has(p.wallet))!;
+    assert.equal(p.refunded, true);
+    assert.equal(p.refund_signature, bs58.encode(tx.signature!));
+    assert.equal(p.refund_lamports, transfersIn(tx).get(p.wallet));
+    assert.equal(p.refund_lamports, 50_000_000 - Math.ceil(5000 / transfersIn(tx).size));
+  }
+
+  // The audit trail records what each refund actually sent
+  const events = (await storage.listEvents({ presale_id: presale.id })).filter(e => e.type === 'refunded');
+  assert.deepEqual(
+    events.map(e => [e.actor_wallet, e.amount_lamports]).sort(),
+    participants.map(p => [p.wallet, p.refund_lamports]).sort()
+  );
+});
+
+test('a refund tx that failed on chain is retried after its backoff', async () => {
+  const presale = await createFailedPresale(2);
+
+  chain.send = 'fail';
+  const failed = await refunds.runPresaleRefunds();
+  assert.equal(failed.failed, 2);
+  const [waiting] = await db.getUnrefundedParticipants(presale.id);
+  assert.equal(waiting.refund_status, 'failed');
+  assert.equal(waiting.refund_attempts, 1);
+  assert.ok(new Date(waiting.refund_next_attempt_at!) > new Date());
+
+  // Not due yet - nothing is sent
+  chain.send = 'land';
+  chain.sent = [];
+  await refunds.runPresaleRefunds();
+  assert.equal(chain.sent.length, 0);
+
+  for (const p of await db.getUnrefundedParticipants(presale.id)) {
+    await storage.updateParticipant({ ...p, refund_next_attempt_at: new Date(0).toISOString() });
+  }
+  const retried = await refunds.runPresaleRefunds();
+  assert.equal(retried.refunded, 2);
+  assert.equal(chain.sent.length, 1);
+  assert.equal((await db.getPresaleById(presale.id))?.status, 'refunded');
+});
+
+test('a refund left in flight is settled by its signature, never sent again', async () => {
+  const presale = await createFailedPresale(2);
+  const [landed, lost] = await db.getUnrefundedParticipants(presale.id);
+
+  // Two runs that died after claiming their batch: one tx landed, the other never did
+  assert.ok(await db.beginParticipantRefunds(presale.id, [{ wallet: landed.wallet, lamports: 49_995_000 }], 'landed-sig', 1000));
+  assert.ok(await db.beginParticipantRefunds(presale.id, [{ wallet: lost.wallet, lamports: 49_995_000 }], 'lost-sig', 1000));
+  chain.statuses.set('landed-sig', { err: null, confirmationStatus: 'confirmed', slot: 1 });
+
+  // Still within its blockhash - the lost one may yet land, so nobody is paid again
+  await refunds.runPresaleRefunds();
+  assert.equal(chain.sent.length, 0);
+  const settled = await storage.listParticipants({ presale_id: presale.id });
+  assert.equal(settled.find(p => p.wallet === landed.wallet)?.refunded, true);
+  assert.equal(settled.find(p => p.wallet === lost.wallet)?.refund_status, 'sent');
+
+  // Once its blockhash expires it can never land - the participant goes back in line
+  chain.blockHeight = 2000;
+  await refunds.runPresaleRefunds();
+  assert.equal(chain.sent.length, 0);
+  const expired = (await db.getUnrefundedParticipants(presale.id))[0];
+  assert.equal(expired.wallet, lost.wallet);
+  assert.equal(expired.refund_status, 'failed');
+  assert.match(expired.refund_error!, /expired/);
+});
+
+test('a shortfall stops the run before anything is sent', async () => {
+  const first = await createFailedPresale(2);
+  const second = await createFailedPresale(2);
+
+  chain.balance = 60_000_000;
+  const result = await refunds.runPresaleRefunds();
+  assert.equal(result.refunded, 0);
+  assert.equal(chain.sent.length, 0);
+
+  // Later presales would hit the same empty escrow - the run stops at the first
+  const statuses = await Promise.all([first, second].map(async p => (await db.getPresaleById(p.id))?.status));
+  assert.deepEqual(statuses.sort(), ['failed', 'refunding']);
+
+  // Nobody was claimed, so both presales are refunded in full once escrow is topped up
+  for (const presale of [first, second]) {
+    for (const p of await db.getUnrefundedParticipants(presale.id)) assert.equal(p.refund_status, undefined);
+  }
+
+  chain.balance = 100_000_000_000;
+  const topped = await refunds.runPresaleRefunds();
+  assert.deepEqual(topped.completed.sort(), [first.id, second.id].sort());
+});
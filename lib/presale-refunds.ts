@@ -0,0 +1,368 @@
+// lib/presale-refunds.ts
+// Refund worker for failed and cancelled presales - pays participants back in batches of SystemProgram.transfers
+// Each batch is claimed with its signature before it is sent, so a crash or a concurrent refund never pays anyone twice
+
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+} from '@solana/web3.js';
+import bs58 from 'bs58';
+import {
+  getPresaleById,
+  checkExpiredPresales,
+  updatePresaleStatus,
+  getUnrefundedParticipants,
+  beginParticipantRefunds,
+  failParticipantRefunds,
+  markParticipantRefunded,
+  getOpenPayoutIntents,
+  type Presale,
+  type PresaleParticipant,
+} from './presale-db';
+import { getPresaleStorage } from './presale-storage';
+import { solToLamports } from './presale-events';
+import { flagEscrowShortfall } from './escrow-reconcile';
+import { settlePayoutIntents } from './escrow-payouts';
+import { estimatePayoutFee, payoutBudgetInstructions, payoutFeeShare, type PayoutFee } from './payout-fees';
+import { sendTransaction } from './tx-sender';
+import { ESCROW_WALLET } from './constants';
+
+const SOLANA_RPC_URL = process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com';
+const ESCROW_PRIVATE_KEY = process.env.ESCROW_PRIVATE_KEY;
+
+// Transfers per refund tx - well inside the 1232 byte packet limit
+const REFUND_BATCH_SIZE = 10;
+
+// Failed refunds are retried after 30s, 1m, 2m... up to 30m, then left for manual review
+const REFUND_MAX_ATTEMPTS = 6;
+const REFUND_BACKOFF_BASE_MS = 30 * 1000;
+const REFUND_BACKOFF_MAX_MS = 30 * 60 * 1000;
+
+export type RefundBatchOutcome =
+  | 'confirmed' // Landed - participants marked refunded
+  | 'failed' // Tx failed or was rejected - participants retried with backoff
+  | 'in_flight' // Sent, outcome unknown - settled on a later run
+  | 'skipped' // Another refund already holds one of the participants
+  | 'shortfall'; // Escrow cannot cover the batch - flagged for reconciliation
+
+export interface PresaleRefundRunResult {
+  presales: number;
+  refunded: number; // Participants confirmed this run
+  failed: number;
+  in_flight: number;
+  completed: string[]; // Presales that reached 'refunded'
+}
+
+let running: Promise<PresaleRefundRunResult> | null = null;
+
+function retryAt(attempts: number): string | undefined {
+  if (attempts >= REFUND_MAX_ATTEMPTS) return undefined;
+  const delay = Math.min(REFUND_BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1), REFUND_BACKOFF_MAX_MS);
+  return new Date(Date.now() + delay).toISOString();
+}
+
+function isDue(participant: PresaleParticipant, now: Date): boolean {
+  if (!participant.refund_status || participant.refund_status === 'pending') return true;
+  if (participant.refund_status !== 'failed' || !participant.refund_next_attempt_at) return false;
+  return new Date(participant.refund_next_attempt_at) <= now;
+}
+
+function loadEscrowKeypair(): Keypair {
+  if (!ESCROW_PRIVATE_KEY) throw new Error('ESCROW_PRIVATE_KEY is not set');
+
+  const escrowKeypair = Keypair.fromSecretKey(bs58.decode(ESCROW_PRIVATE_KEY));
+  if (escrowKeypair.publicKey.toBase58() !== ESCROW_WALLET) {
+    throw new Error('ESCROW_PRIVATE_KEY does not match ESCROW_WALLET');
+  }
+  return escrowKeypair;
+}
+
+// ============ BATCHES ============
+
+// Resolve refund txs sent by an earlier run (or a crashed one)
+async function settleSentRefunds(
+  connection: Connection,
+  presaleId: string,
+  participants: PresaleParticipant[]
+): Promise<void> {
+  const bySignature = new Map<string, PresaleParticipant[]>();
+  for (const p of participants) {
+    if (p.refund_status !== 'sent' || !p.refund_signature) continue;
+    bySignature.set(p.refund_signature, [...(bySignature.get(p.refund_signature) || []), p]);
+  }
+  if (bySignature.size === 0) return;
+
+  const signatures = Array.from(bySignature.keys());
+  const { value: statuses } = await connection.getSignatureStatuses(signatures, { searchTransactionHistory: true });
+  let blockHeight: number | null = null;
+
+  for (const [i, signature] of signatures.entries()) {
+    const batch = bySignature.get(signature)!;
+    const status = statuses[i];
+
+    if (status && !status.err && status.confirmationStatus !== 'processed') {
+      for (const p of batch) await markParticipantRefunded(presaleId, p.wallet, signature);
+      continue;
+    }
+
+    if (status?.err) {
+      await failParticipantRefunds(presaleId, batch.map(p => p.wallet),
+        `Refund tx failed: ${JSON.stringify(status.err)}`, retryAt(batch[0].refund_attempts || 1));
+      continue;
+    }
+
+    const lastValid = batch[0].refund_last_valid_block_height;
+    if (!status && lastValid !== undefined) {
+      blockHeight ??= await connection.getBlockHeight('confirmed');
+      if (blockHeight > lastValid) {
+        // Blockhash expired without the tx landing - it can never land now
+        await failParticipantRefunds(presaleId, batch.map(p => p.wallet),
+          'Refund tx expired before landing', retryAt(batch[0].refund_attempts || 1));
+      }
+    }
+  }
+}
+
+// Sign, claim, then send one refund tx for up to REFUND_BATCH_SIZE participants
+async function sendRefundBatch(
+  connection: Connection,
+  escrowKeypair: Keypair,
+  presaleId: string,
+  batch: PresaleParticipant[]
+): Promise<RefundBatchOutcome> {
+  // The tx's network fee is split across its recipients (unless the platform pays it)
+  const fee = await estimatePayoutFee(connection, escrowKeypair.publicKey, batch.length);
+  const feeShare = payoutFeeShare(fee, batch.length);
+  const refunds = batch.map(p => ({ wallet: p.wallet, lamports: solToLamports(p.amount_sol) - feeShare }));
+
+  const tooSmall = refunds.filter(r => r.lamports <= 0).map(r => r.wallet);
+  if (tooSmall.length > 0) {
+    await failParticipantRefunds(presaleId, tooSmall, 'Deposit is smaller than the network fee');
+    return 'failed';
+  }
+
+  const needed = refunds.reduce((sum, r) => sum + r.lamports, 0) + fee.fee_lamports;
+  const balance = await connection.getBalance(escrowKeypair.publicKey, 'confirmed');
+  if (balance < needed) {
+    flagEscrowShortfall({
+      presale_id: presaleId,
+      wallet: refunds.map(r => r.wallet).join(','),
+      needed_lamports: needed,
+      balance_lamports: balance,
+    });
+    return 'shortfall';
+  }
+
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+  const transaction = new Transaction({
+    feePayer: escrowKeypair.publicKey,
+    blockhash,
+    lastValidBlockHeight,
+  }).add(...payoutBudgetInstructions(fee));
+  for (const refund of refunds) {
+    transaction.add(SystemProgram.transfer({
+      fromPubkey: escrowKeypair.publicKey,
+      toPubkey: new PublicKey(refund.wallet),
+      lamports: refund.lamports,
+    }));
+  }
+  transaction.sign(escrowKeypair);
+
+  // The signature exists before the tx is sent - record it first so a crash can be resolved later
+  const signature = bs58.encode(transaction.signature!);
+  if (!(await beginParticipantRefunds(presaleId, refunds, signature, lastValidBlockHeight))) {
+    return 'skipped';
+  }
+
+  const wallets = refunds.map(r => r.wallet);
+  const attempts = Math.max(...batch.map(p => p.refund_attempts || 0)) + 1;
+
+  const sent = await sendTransaction(connection, {
+    serialized: transaction.serialize(),
+    signature,
+    blockhash,
+    last_valid_block_height: lastValidBlockHeight,
+  });
+
+  switch (sent.outcome) {
+    case 'confirmed':
+      break;
+
+    case 'failed':
+    case 'expired':
+      // Nothing moved - the participants are retried with backoff
+      await failParticipantRefunds(presaleId, wallets, sent.error!, retryAt(attempts));
+      return 'failed';
+
+    case 'insufficient_funds':
+      await failParticipantRefunds(presaleId, wallets, sent.error!, retryAt(attempts));
+      flagEscrowShortfall({
+        presale_id: presaleId,
+        wallet: wallets.join(','),
+        needed_lamports: needed,
+        balance_lamports: await connection.getBalance(escrowKeypair.publicKey, 'confirmed'),
+      });
+      return 'shortfall';
+
+    case 'unknown':
+      // Stays 'sent' until settleSentRefunds can tell
+      console.error('[PresaleRefunds] Outcome unknown for', signature, sent.error);
+      return 'in_flight';
+  }
+
+  for (const wallet of wallets) {
+    await markParticipantRefunded(presaleId, wallet, signature);
+  }
+  console.log('[PresaleRefunds] Refunded', wallets.length, 'participants of', presaleId, 'in', signature);
+  return 'confirmed';
+}
+
+// Move the presale to its terminal status once nobody is owed anything
+async function completeIfRefunded(presaleId: string): Promise<boolean> {
+  const presale = await getPresaleById(presaleId);
+  if (!presale || (presale.status !== 'failed' && presale.status !== 'refunding')) return false;
+
+  const remaining = await getUnrefundedParticipants(presaleId);
+  if (remaining.length > 0) return false;
+
+  await updatePresaleStatus(presaleId, 'refunded');
+  console.log('[PresaleRefunds] All participants refunded:', presaleId);
+  return true;
+}
+
+// ============ WORKER ============
+
+async function refundPresale(
+  connection: Connection,
+  escrowKeypair: Keypair,
+  presale: Presale,
+  result: PresaleRefundRunResult
+): Promise<boolean> {
+  if (presale.status === 'failed') {
+    await updatePresaleStatus(presale.id, 'refunding');
+  }
+
+  await settleSentRefunds(connection, presale.id, await getUnrefundedParticipants(presale.id));
+
+  // Wallets with a withdrawal still in flight wait until it lands or expires
+  const now = new Date();
+  const paying = new Set((await getOpenPayoutIntents(presale.id)).map(i => i.wallet));
+  const due = (await getUnrefundedParticipants(presale.id)).filter(p => isDue(p, now) && !paying.has(p.wallet));
+  let escrowCovered = true;
+
+  for (let i = 0; i < due.length && escrowCovered; i += REFUND_BATCH_SIZE) {
+    const batch = due.slice(i, i + REFUND_BATCH_SIZE);
+    const outcome = await sendRefundBatch(connection, escrowKeypair, presale.id, batch);
+
+    if (outcome === 'confirmed') result.refunded += batch.length;
+    else if (outcome === 'failed') result.failed += batch.length;
+    else if (outcome === 'in_flight') result.in_flight += batch.length;
+    else if (outcome === 'shortfall') escrowCovered = false;
+  }
+
+  if (await completeIfRefunded(presale.id)) {
+    result.completed.push(presale.id);
+  }
+  return escrowCovered;
+}
+
+async function processRefunds(): Promise<PresaleRefundRunResult> {
+  const result: PresaleRefundRunResult = { presales: 0, refunded: 0, failed: 0, in_flight: 0, completed: [] };
+
+  await checkExpiredPresales();
+  const connection = new Connection(SOLANA_RPC_URL, 'confirmed');
+
+  // Withdrawals whose request never came back - settled whatever the presale's status, and before any refund,
+  // so a withdrawal that landed is never refunded too
+  await settlePayoutIntents(connection);
+
+  // Cancelled presales keep their status - only participants still owed are picked up
+  const presales = await getPresaleStorage().listPresales({ status: ['failed', 'refunding', 'cancelled'] });
+  if (presales.length === 0) return result;
+
+  if (!ESCROW_PRIVATE_KEY) {
+    console.error('[PresaleRefunds]', presales.length, 'failed or cancelled presales waiting, but ESCROW_PRIVATE_KEY is not set');
+    return result;
+  }
+
+  const escrowKeypair = loadEscrowKeypair();
+
+  for (const presale of presales) {
+    result.presales++;
+    // Stop at the first shortfall - later presales would hit the same empty escrow
+    if (!(await refundPresale(connection, escrowKeypair, presale, result))) break;
+  }
+
+  if (result.refunded > 0 || result.failed > 0 || result.completed.length > 0) {
+    console.log('[PresaleRefunds] Refunded', result.refunded, '| failed', result.failed,
+      '| in flight', result.in_flight, '| completed', result.completed.length);
+  }
+  return result;
+}
+
+// Process every failed or cancelled presale once (concurrent callers share the same run)
+export async function runPresaleRefunds(): Promise<PresaleRefundRunResult> {
+  if (running) return running;
+
+  running = processRefunds().finally(() => {
+    running = null;
+  });
+
+  return running;
+}
+
+// What a participant's refund pays when sent on its own (a batch splits the fee, so it never pays less)
+export async function quoteRefund(
+  connection: Connection,
+  escrow: PublicKey,
+  amount_lamports: number
+): Promise<{ lamports: number; fee: PayoutFee }> {
+  const fee = await estimatePayoutFee(connection, escrow, 1);
+  return { lamports: amount_lamports - payoutFeeShare(fee, 1), fee };
+}
+
+// Refund one participant right away (the refund route's "Request Refund" button)
+export async function refundParticipantNow(
+  presale_id: string,
+  wallet: string
+): Promise<{ outcome: RefundBatchOutcome | 'not_found'; participant?: PresaleParticipant; error?: string }> {
+  const [participant] = (await getUnrefundedParticipants(presale_id)).filter(p => p.wallet === wallet);
+  if (!participant) return { outcome: 'not_found' };
+  if (participant.refund_status === 'sent') return { outcome: 'skipped', participant };
+
+  const presale = await getPresaleById(presale_id);
+  if (presale?.status === 'failed') {
+    await updatePresaleStatus(presale_id, 'refunding');
+  }
+
+  const connection = new Connection(SOLANA_RPC_URL, 'confirmed');
+  await settlePayoutIntents(connection, presale_id);
+  const outcome = await sendRefundBatch(connection, loadEscrowKeypair(), presale_id, [participant]);
+
+  const updated = (await getPresaleStorage().listParticipants({ presale_id, wallet }))
+    .find(p => p.id === participant.id);
+  if (outcome === 'confirmed') await completeIfRefunded(presale_id);
+
+  return { outcome, participant: updated, error: updated?.refund_error };
+}
+
+// ============ SCHEDULED JOB ============
+
+let jobTimer: NodeJS.Timeout | null = null;
+
+// Refund failed presales every PRESALE_REFUND_INTERVAL_SECONDS (default 30, 0 disables)
+export function startPresaleRefundJob(): void {
+  const seconds = parseInt(process.env.PRESALE_REFUND_INTERVAL_SECONDS || '30');
+  if (!seconds || jobTimer) return;
+
+  console.log('[PresaleRefunds] Refunding failed presales every', seconds, 'seconds');
+  jobTimer = setInterval(() => {
+    runPresaleRefunds().catch((e) => {
+      console.error('[PresaleRefunds] Run failed:', e.message);
+    });
+  }, seconds * 1000);
+  jobTimer.unref?.();
+}
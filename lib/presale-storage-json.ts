@@ -0,0 +1,552 @@
+// lib/presale-storage-json.ts
+// JSON file storage adapter - keeps the whole database in memory and flushes it to presales.json
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import type {
+  Presale,
+  PresaleParticipant,
+  PresaleStatus,
+  PresaleEvent,
+  DepositSignature,
+  DepositIntent,
+  OrphanedDeposit,
+  PayoutIntent,
+  AuthNonce,
+  AuthSession,
+  LaunchLease,
+} from './presale-types';
+import type {
+  PresaleStorage,
+  PresaleListQuery,
+  ParticipantFilter,
+  PresaleEventFilter,
+  OrphanedDepositFilter,
+  PayoutIntentFilter,
+  PresaleStorageStats,
+} from './presale-storage';
+import { comparePresales, isAfterCursor } from './presale-query';
+
+// Counted as failed in stats, whatever stage their refunds are at
+const FAILED_STATUSES: PresaleStatus[] = ['failed', 'refunding', 'refunded'];
+
+// Database path
+const PRESALE_DB_PATH = process.env.PRESALE_DB_PATH ||
+  (process.env.RENDER ? '/data/presales.json' : './presales.json');
+
+interface PresaleDatabase {
+  presales: Presale[];
+  participants: PresaleParticipant[];
+  events: PresaleEvent[];
+  deposit_signatures: Record<string, DepositSignature>;
+  deposit_intents: Record<string, DepositIntent>;
+  orphaned_deposits: OrphanedDeposit[];
+  payout_intents: PayoutIntent[];
+  auth_nonces: Record<string, AuthNonce>;
+  auth_sessions: Record<string, AuthSession>;
+  launch_leases: Record<string, LaunchLease>;
+  cursors: Record<string, string>;
+  lastPresaleNum: number;
+}
+
+function matchesPresaleQuery(p: Presale, query: PresaleListQuery): boolean {
+  if (query.status) {
+    const statuses = Array.isArray(query.status) ? query.status : [query.status];
+    if (!statuses.includes(p.status)) return false;
+  }
+  if (query.creator_wallet && p.creator_wallet !== query.creator_wallet) return false;
+  if (query.created_after && p.created_at < query.created_after) return false;
+  if (query.created_before && p.created_at >= query.created_before) return false;
+  if (query.expires_before && !(new Date(p.expires_at) < new Date(query.expires_before))) return false;
+  if (query.search) {
+    const term = query.search.toLowerCase();
+    if (!p.token_name.toLowerCase().includes(term) && !p.token_symbol.toLowerCase().includes(term)) return false;
+  }
+  return true;
+}
+
+function matchesOrphanFilter(o: OrphanedDeposit, filter: OrphanedDepositFilter): boolean {
+  if (filter.status) {
+    const statuses = Array.isArray(filter.status) ? filter.status : [filter.status];
+    if (!statuses.includes(o.status)) return false;
+  }
+  if (filter.wallet !== undefined && o.wallet !== filter.wallet) return false;
+  if (filter.presale_id !== undefined && o.presale_id !== filter.presale_id) return false;
+  return true;
+}
+
+function matchesPayoutFilter(i: PayoutIntent, filter: PayoutIntentFilter): boolean {
+  if (filter.status) {
+    const statuses = Array.isArray(filter.status) ? filter.status : [filter.status];
+    if (!statuses.includes(i.status)) return false;
+  }
+  if (filter.wallet !== undefined && i.wallet !== filter.wallet) return false;
+  if (filter.presale_id !== undefined && i.presale_id !== filter.presale_id) return false;
+  return true;
+}
+
+function matchesParticipantFilter(p: PresaleParticipant, filter: ParticipantFilter): boolean {
+  if (filter.presale_id !== undefined && p.presale_id !== filter.presale_id) return false;
+  if (filter.wallet !== undefined && p.wallet !== filter.wallet) return false;
+  if (filter.confirmed !== undefined && p.confirmed !== filter.confirmed) return false;
+  if (filter.active !== undefined && (!p.refunded && !p.withdrawn) !== filter.active) return false;
+  if (filter.signature !== undefined &&
+      p.tx_signature !== filter.signature &&
+      p.refund_signature !== filter.signature &&
+      p.withdraw_signature !== filter.signature &&
+      !p.deposits?.some(d => d.signature === filter.signature)) return false;
+  return true;
+}
+
+// Databases written before the registry existed: every confirmed deposit is already consumed
+function backfillDepositSignatures(participants: PresaleParticipant[]): Record<string, DepositSignature> {
+  const registry: Record<string, DepositSignature> = {};
+  for (const p of participants) {
+    if (!p.confirmed || !p.tx_signature || registry[p.tx_signature]) continue;
+    registry[p.tx_signature] = {
+      signature: p.tx_signature,
+      presale_id: p.presale_id,
+      wallet: p.wallet,
+      lamports: Math.round(p.amount_sol * LAMPORTS_PER_SOL),
+      consumed_at: p.joined_at,
+    };
+  }
+  return registry;
+}
+
+export function createJsonPresaleStorage(dbPath: string = PRESALE_DB_PATH): PresaleStorage {
+  let presaleDbCache: PresaleDatabase | null = null;
+  let saveTimeout: NodeJS.Timeout | null = null;
+
+  // Transactions run one at a time - while one is open, saves wait for its single write at the end
+  const txContext = new AsyncLocalStorage<true>();
+  let txTail: Promise<unknown> = Promise.resolve();
+  let inTransaction = false;
+
+  // Load database
+  function loadPresaleDb(): PresaleDatabase {
+    if (presaleDbCache) return presaleDbCache;
+
+    console.log('[PresaleDB] Loading from:', dbPath);
+
+    if (fs.existsSync(dbPath)) {
+      try {
+        const data = fs.readFileSync(dbPath, 'utf-8');
+        presaleDbCache = JSON.parse(data);
+        presaleDbCache!.events = presaleDbCache!.events || [];
+        presaleDbCache!.deposit_intents = presaleDbCache!.deposit_intents || {};
+        presaleDbCache!.orphaned_deposits = presaleDbCache!.orphaned_deposits || [];
+        presaleDbCache!.payout_intents = presaleDbCache!.payout_intents || [];
+        presaleDbCache!.auth_nonces = presaleDbCache!.auth_nonces || {};
+        presaleDbCache!.auth_sessions = presaleDbCache!.auth_sessions || {};
+        presaleDbCache!.launch_leases = presaleDbCache!.launch_leases || {};
+        presaleDbCache!.cursors = presaleDbCache!.cursors || {};
+        if (!presaleDbCache!.deposit_signatures) {
+          presaleDbCache!.deposit_signatures = backfillDepositSignatures(presaleDbCache!.participants || []);
+        }
+        console.log('[PresaleDB] Loaded', presaleDbCache?.presales?.length || 0, 'presales');
+        return presaleDbCache!;
+      } catch (e: any) {
+        // Never fall back to an empty database here - the next save would overwrite real deposits
+        console.error('[PresaleDB] Error loading:', e.message);
+        throw new Error(`Presale database at ${dbPath} is unreadable: ${e.message}`);
+      }
+    }
+
+    presaleDbCache = {
+      presales: [],
+      participants: [],
+      events: [],
+      deposit_signatures: {},
+      deposit_intents: {},
+      orphaned_deposits: [],
+      payout_intents: [],
+      auth_nonces: {},
+      auth_sessions: {},
+      launch_leases: {},
+      cursors: {},
+      lastPresaleNum: 0,
+    };
+    console.log('[PresaleDB] Created new database');
+    return presaleDbCache;
+  }
+
+  // Atomic write: temp file + fsync + rename, so a crash mid-write never leaves a torn file
+  function writePresaleDb(): void {
+    const dir = path.dirname(dbPath);
+    if (dir && dir !== '.' && !fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const tmpPath = `${dbPath}.${process.pid}.tmp`;
+    const fd = fs.openSync(tmpPath, 'w');
+    try {
+      fs.writeSync(fd, JSON.stringify(presaleDbCache, null, 2));
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tmpPath, dbPath);
+
+    // Persist the rename itself (not supported on every platform)
+    try {
+      const dirFd = fs.openSync(dir || '.', 'r');
+      try {
+        fs.fsyncSync(dirFd);
+      } finally {
+        fs.closeSync(dirFd);
+      }
+    } catch {
+      // Directory fsync is best-effort
+    }
+  }
+
+  // Save database (debounced)
+  function savePresaleDb(): void {
+    if (!presaleDbCache || inTransaction) return;
+
+    if (saveTimeout) clearTimeout(saveTimeout);
+    saveTimeout = setTimeout(() => {
+      saveTimeout = null;
+      try {
+        writePresaleDb();
+        console.log('[PresaleDB] Saved');
+      } catch (e: any) {
+        console.error('[PresaleDB] Error saving:', e.message);
+      }
+    }, 500);
+  }
+
+  // Replace a stored row in place (callers may hold a copy)
+  function replaceById<T extends { id: string }>(rows: T[], row: T): void {
+    const index = rows.findIndex(r => r.id === row.id);
+    if (index === -1) return;
+    if (rows[index] !== row) rows[index] = row;
+  }
+
+  return {
+    kind: `json (${dbPath})`,
+
+    async nextPresaleNum() {
+      const db = loadPresaleDb();
+      db.lastPresaleNum++;
+      savePresaleDb();
+      return db.lastPresaleNum;
+    },
+
+    async insertPresale(presale: Presale) {
+      const db = loadPresaleDb();
+      db.presales.unshift(presale);
+      savePresaleDb();
+    },
+
+    async updatePresale(presale: Presale) {
+      const db = loadPresaleDb();
+      replaceById(db.presales, presale);
+      savePresaleDb();
+    },
+
+    async getPresale(id: string) {
+      const db = loadPresaleDb();
+      return db.presales.find(p => p.id === id) || null;
+    },
+
+    async listPresales(query: PresaleListQuery = {}) {
+      const db = loadPresaleDb();
+      const sort = query.sort || 'newest';
+      const offset = query.offset || 0;
+      const limit = query.limit ?? db.presales.length;
+
+      return db.presales
+        .filter(p => matchesPresaleQuery(p, query))
+        .filter(p => !query.cursor || isAfterCursor(p, query.cursor, sort))
+        .sort((a, b) => comparePresales(a, b, sort))
+        .slice(offset, offset + limit);
+    },
+
+    async countPresales(query: PresaleListQuery = {}) {
+      const db = loadPresaleDb();
+      return db.presales.filter(p => matchesPresaleQuery(p, query)).length;
+    },
+
+    async getStats(): Promise<PresaleStorageStats> {
+      const db = loadPresaleDb();
+
+      const launchedPresales = db.presales.filter(p => p.status === 'launched');
+      const total_sol = launchedPresales.reduce((sum, p) => sum + (p.total_sol || 0), 0);
+
+      return {
+        total: db.presales.length,
+        active: db.presales.filter(p => p.status === 'active').length,
+        launched: launchedPresales.length,
+        failed: db.presales.filter(p => FAILED_STATUSES.includes(p.status)).length,
+        cancelled: db.presales.filter(p => p.status === 'cancelled').length,
+        total_sol,
+      };
+    },
+
+    async insertParticipant(participant: PresaleParticipant) {
+      const db = loadPresaleDb();
+      db.participants.push(participant);
+      savePresaleDb();
+    },
+
+    async updateParticipant(participant: PresaleParticipant) {
+      const db = loadPresaleDb();
+      replaceById(db.participants, participant);
+      savePresaleDb();
+    },
+
+    async listParticipants(filter: ParticipantFilter) {
+      const db = loadPresaleDb();
+      return db.participants.filter(p => matchesParticipantFilter(p, filter));
+    },
+
+    async claimDepositSignature(record: DepositSignature) {
+      const db = loadPresaleDb();
+      const existing = db.deposit_signatures[record.signature];
+      if (existing) return { ...existing };
+      db.deposit_signatures[record.signature] = { ...record };
+      savePresaleDb();
+      return null;
+    },
+
+    async getDepositSignature(signature: string) {
+      const db = loadPresaleDb();
+      const existing = db.deposit_signatures[signature];
+      return existing ? { ...existing } : null;
+    },
+
+    async insertDepositIntent(intent: DepositIntent) {
+      const db = loadPresaleDb();
+      db.deposit_intents[intent.reference] = { ...intent };
+      savePresaleDb();
+    },
+
+    async updateDepositIntent(intent: DepositIntent) {
+      const db = loadPresaleDb();
+      if (!db.deposit_intents[intent.reference]) return;
+      db.deposit_intents[intent.reference] = { ...intent };
+      savePresaleDb();
+    },
+
+    async getDepositIntent(reference: string) {
+      const db = loadPresaleDb();
+      const intent = db.deposit_intents[reference];
+      return intent ? { ...intent } : null;
+    },
+
+    async insertOrphanedDeposit(orphan: OrphanedDeposit) {
+      const db = loadPresaleDb();
+      if (db.orphaned_deposits.some(o => o.signature === orphan.signature)) return false;
+      db.orphaned_deposits.push({ ...orphan });
+      savePresaleDb();
+      return true;
+    },
+
+    async updateOrphanedDeposit(orphan: OrphanedDeposit) {
+      const db = loadPresaleDb();
+      const index = db.orphaned_deposits.findIndex(o => o.signature === orphan.signature);
+      if (index === -1) return;
+      db.orphaned_deposits[index] = { ...orphan };
+      savePresaleDb();
+    },
+
+    async getOrphanedDeposit(signature: string) {
+      const db = loadPresaleDb();
+      const orphan = db.orphaned_deposits.find(o => o.signature === signature);
+      return orphan ? { ...orphan } : null;
+    },
+
+    async listOrphanedDeposits(filter: OrphanedDepositFilter = {}) {
+      const db = loadPresaleDb();
+      return db.orphaned_deposits
+        .filter(o => matchesOrphanFilter(o, filter))
+        .map(o => ({ ...o }));
+    },
+
+    async insertPayoutIntent(intent: PayoutIntent) {
+      const db = loadPresaleDb();
+      if (db.payout_intents.some(i =>
+        i.status === 'sent' && i.presale_id === intent.presale_id && i.wallet === intent.wallet
+      )) return false;
+      db.payout_intents.push({ ...intent });
+      savePresaleDb();
+      return true;
+    },
+
+    async updatePayoutIntent(intent: PayoutIntent) {
+      const db = loadPresaleDb();
+      const index = db.payout_intents.findIndex(i => i.signature === intent.signature);
+      if (index === -1) return;
+      db.payout_intents[index] = { ...intent };
+      savePresaleDb();
+    },
+
+    async listPayoutIntents(filter: PayoutIntentFilter = {}) {
+      const db = loadPresaleDb();
+      return db.payout_intents
+        .filter(i => matchesPayoutFilter(i, filter))
+        .map(i => ({ ...i }));
+    },
+
+    async insertAuthNonce(nonce: AuthNonce) {
+      const db = loadPresaleDb();
+      db.auth_nonces[nonce.nonce] = { ...nonce };
+      savePresaleDb();
+    },
+
+    async takeAuthNonce(nonce: string) {
+      const db = loadPresaleDb();
+      const existing = db.auth_nonces[nonce];
+      if (!existing) return null;
+      delete db.auth_nonces[nonce];
+      savePresaleDb();
+      return { ...existing };
+    },
+
+    async trimAuthNonces(wallet: string, keep: number) {
+      const db = loadPresaleDb();
+      const stale = Object.values(db.auth_nonces)
+        .filter(n => n.wallet === wallet)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+        .slice(keep);
+      if (stale.length === 0) return;
+      for (const nonce of stale) delete db.auth_nonces[nonce.nonce];
+      savePresaleDb();
+    },
+
+    async insertAuthSession(session: AuthSession) {
+      const db = loadPresaleDb();
+      db.auth_sessions[session.token_hash] = { ...session };
+      savePresaleDb();
+    },
+
+    async getAuthSession(tokenHash: string) {
+      const db = loadPresaleDb();
+      const session = db.auth_sessions[tokenHash];
+      return session ? { ...session } : null;
+    },
+
+    async deleteAuthSession(tokenHash: string) {
+      const db = loadPresaleDb();
+      if (!db.auth_sessions[tokenHash]) return;
+      delete db.auth_sessions[tokenHash];
+      savePresaleDb();
+    },
+
+    async pruneAuth(now: string) {
+      const db = loadPresaleDb();
+      let pruned = 0;
+      for (const [key, nonce] of Object.entries(db.auth_nonces)) {
+        if (nonce.expires_at >= now) continue;
+        delete db.auth_nonces[key];
+        pruned++;
+      }
+      for (const [key, session] of Object.entries(db.auth_sessions)) {
+        if (session.expires_at >= now) continue;
+        delete db.auth_sessions[key];
+        pruned++;
+      }
+      if (pruned > 0) savePresaleDb();
+    },
+
+    async acquireLaunchLease(lease: LaunchLease, now: string) {
+      const db = loadPresaleDb();
+      const existing = db.launch_leases[lease.presale_id];
+      if (existing && existing.holder !== lease.holder && existing.expires_at > now) return { ...existing };
+      db.launch_leases[lease.presale_id] = { ...lease };
+      savePresaleDb();
+      return null;
+    },
+
+    async getLaunchLease(presale_id: string) {
+      const db = loadPresaleDb();
+      const lease = db.launch_leases[presale_id];
+      return lease ? { ...lease } : null;
+    },
+
+    async releaseLaunchLease(presale_id: string, holder: string) {
+      const db = loadPresaleDb();
+      if (db.launch_leases[presale_id]?.holder !== holder) return;
+      delete db.launch_leases[presale_id];
+      savePresaleDb();
+    },
+
+    async getCursor(name: string) {
+      const db = loadPresaleDb();
+      return db.cursors[name] ?? null;
+    },
+
+    async setCursor(name: string, value: string) {
+      const db = loadPresaleDb();
+      db.cursors[name] = value;
+      savePresaleDb();
+    },
+
+    async appendEvent(event: Omit<PresaleEvent, 'seq'>) {
+      const db = loadPresaleDb();
+      const last = db.events[db.events.length - 1];
+      const stored: PresaleEvent = { seq: (last?.seq || 0) + 1, ...event };
+      db.events.push(stored);
+      savePresaleDb();
+      return { ...stored };
+    },
+
+    async listEvents(filter: PresaleEventFilter) {
+      const db = loadPresaleDb();
+      const offset = filter.offset || 0;
+      const limit = filter.limit ?? db.events.length;
+
+      return db.events
+        .filter(e => {
+          if (filter.presale_id !== undefined && e.presale_id !== filter.presale_id) return false;
+          if (filter.actor_wallet !== undefined && e.actor_wallet !== filter.actor_wallet) return false;
+          return true;
+        })
+        .slice(offset, offset + limit)
+        .map(e => ({ ...e }));
+    },
+
+    async flush() {
+      // The open transaction writes everything once it completes
+      if (!presaleDbCache || inTransaction) return;
+      if (saveTimeout) {
+        clearTimeout(saveTimeout);
+        saveTimeout = null;
+      }
+      // Errors propagate - callers rely on this for durability
+      writePresaleDb();
+    },
+
+    async transaction<T>(fn: () => Promise<T>): Promise<T> {
+      if (txContext.getStore()) return fn();
+
+      const run = txTail.catch(() => {}).then(async () => {
+        // Start with the file matching memory, so a failed transaction is undone by reloading it
+        loadPresaleDb();
+        if (saveTimeout) {
+          clearTimeout(saveTimeout);
+          saveTimeout = null;
+          writePresaleDb();
+        }
+
+        inTransaction = true;
+        try {
+          const result = await txContext.run(true, fn);
+          inTransaction = false;
+          writePresaleDb();
+          return result;
+        } catch (e) {
+          inTransaction = false;
+          presaleDbCache = null;
+          throw e;
+        }
+      });
+      txTail = run;
+      return run;
+    },
+  };
+}
@@ -0,0 +1,886 @@
+// lib/presale-storage-libsql.ts
+// libsql / SQLite storage adapter - presales and participants live in real tables
+// Works with a local file (file:/data/presales.db) or a remote Turso database (libsql://...)
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { createClient, type Client, type InStatement, type Row, type Transaction } from '@libsql/client';
+import type {
+  Presale,
+  PresaleParticipant,
+  PresaleEvent,
+  DepositSignature,
+  DepositIntent,
+  OrphanedDeposit,
+  PayoutIntent,
+  AuthNonce,
+  AuthSession,
+  LaunchLease,
+} from './presale-types';
+import type {
+  PresaleStorage,
+  PresaleListQuery,
+  ParticipantFilter,
+  PresaleEventFilter,
+  OrphanedDepositFilter,
+  PayoutIntentFilter,
+  PresaleStorageStats,
+} from './presale-storage';
+import { SORT_DIRECTION, type PresaleSort } from './presale-query';
+
+const PRESALE_DB_URL = process.env.PRESALE_DB_URL ||
+  (process.env.RENDER ? 'file:/data/presales.db' : 'file:./presales.db');
+const PRESALE_DB_AUTH_TOKEN = process.env.PRESALE_DB_AUTH_TOKEN;
+
+// ============ MIGRATIONS ============
+
+// Append-only - never edit a migration that has shipped, add a new one instead.
+// Indexed columns mirror the fields we filter and sort on; `data` holds the full JSON row.
+const MIGRATIONS: { version: number; name: string; statements: string[] }[] = [
+  {
+    version: 1,
+    name: 'create_presales_and_participants',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS presale_meta (
+        key TEXT PRIMARY KEY,
+        value INTEGER NOT NULL
+      )`,
+      `INSERT OR IGNORE INTO presale_meta (key, value) VALUES ('last_presale_num', 0)`,
+      `CREATE TABLE IF NOT EXISTS presales (
+        id TEXT PRIMARY KEY,
+        creator_wallet TEXT NOT NULL,
+        token_name TEXT NOT NULL,
+        token_symbol TEXT NOT NULL,
+        status TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        total_sol REAL NOT NULL DEFAULT 0,
+        participant_count INTEGER NOT NULL DEFAULT 0,
+        data TEXT NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_presales_status_created ON presales (status, created_at)`,
+      `CREATE INDEX IF NOT EXISTS idx_presales_created ON presales (created_at)`,
+      `CREATE INDEX IF NOT EXISTS idx_presales_expires ON presales (expires_at)`,
+      `CREATE INDEX IF NOT EXISTS idx_presales_creator ON presales (creator_wallet)`,
+      `CREATE TABLE IF NOT EXISTS presale_participants (
+        id TEXT PRIMARY KEY,
+        presale_id TEXT NOT NULL REFERENCES presales (id),
+        wallet TEXT NOT NULL,
+        amount_sol REAL NOT NULL,
+        tx_signature TEXT NOT NULL,
+        joined_at TEXT NOT NULL,
+        confirmed INTEGER NOT NULL DEFAULT 0,
+        refunded INTEGER NOT NULL DEFAULT 0,
+        withdrawn INTEGER NOT NULL DEFAULT 0,
+        data TEXT NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_participants_presale_wallet ON presale_participants (presale_id, wallet)`,
+      `CREATE INDEX IF NOT EXISTS idx_participants_wallet ON presale_participants (wallet)`,
+      `CREATE INDEX IF NOT EXISTS idx_participants_tx_signature ON presale_participants (tx_signature)`,
+    ],
+  },
+  {
+    version: 2,
+    name: 'create_presale_events',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS presale_events (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        presale_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        actor_wallet TEXT,
+        amount_lamports INTEGER,
+        data TEXT NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_events_presale ON presale_events (presale_id, seq)`,
+      `CREATE INDEX IF NOT EXISTS idx_events_actor ON presale_events (actor_wallet, seq)`,
+      // The ledger is append-only
+      `CREATE TRIGGER IF NOT EXISTS presale_events_no_update BEFORE UPDATE ON presale_events
+        BEGIN SELECT RAISE(ABORT, 'presale_events is append-only'); END`,
+      `CREATE TRIGGER IF NOT EXISTS presale_events_no_delete BEFORE DELETE ON presale_events
+        BEGIN SELECT RAISE(ABORT, 'presale_events is append-only'); END`,
+    ],
+  },
+  {
+    version: 3,
+    name: 'presale_listing_columns',
+    statements: [
+      `ALTER TABLE presales ADD COLUMN target_participants INTEGER NOT NULL DEFAULT 0`,
+      `UPDATE presales SET target_participants = json_extract(data, '$.target_participants')`,
+      `CREATE INDEX IF NOT EXISTS idx_presales_total_sol ON presales (total_sol, id)`,
+      `CREATE INDEX IF NOT EXISTS idx_presales_creator_created ON presales (creator_wallet, created_at)`,
+    ],
+  },
+  {
+    version: 4,
+    name: 'create_deposit_signatures',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS deposit_signatures (
+        signature TEXT PRIMARY KEY,
+        presale_id TEXT NOT NULL,
+        wallet TEXT NOT NULL,
+        lamports INTEGER NOT NULL,
+        consumed_at TEXT NOT NULL
+      )`,
+      // Every confirmed deposit recorded so far is already consumed
+      `INSERT OR IGNORE INTO deposit_signatures (signature, presale_id, wallet, lamports, consumed_at)
+        SELECT tx_signature, presale_id, wallet, CAST(ROUND(amount_sol * 1000000000) AS INTEGER), joined_at
+        FROM presale_participants WHERE confirmed = 1 AND tx_signature IS NOT NULL AND tx_signature != ''
+        ORDER BY joined_at ASC`,
+    ],
+  },
+  {
+    version: 5,
+    name: 'create_job_cursors',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS job_cursors (
+        name TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )`,
+    ],
+  },
+  {
+    version: 6,
+    name: 'create_deposit_intents',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS deposit_intents (
+        reference TEXT PRIMARY KEY,
+        presale_id TEXT NOT NULL,
+        wallet TEXT NOT NULL,
+        amount_lamports INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        signature TEXT
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_deposit_intents_presale_wallet ON deposit_intents (presale_id, wallet)`,
+    ],
+  },
+  {
+    version: 7,
+    name: 'create_orphaned_deposits',
+    statements: [
+      `ALTER TABLE deposit_signatures ADD COLUMN use TEXT NOT NULL DEFAULT 'participant'`,
+      `CREATE TABLE IF NOT EXISTS orphaned_deposits (
+        signature TEXT PRIMARY KEY,
+        presale_id TEXT NOT NULL,
+        wallet TEXT NOT NULL,
+        status TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_orphaned_deposits_status ON orphaned_deposits (status, created_at)`,
+      `CREATE INDEX IF NOT EXISTS idx_orphaned_deposits_wallet ON orphaned_deposits (wallet, presale_id)`,
+    ],
+  },
+  {
+    version: 8,
+    name: 'create_auth_tables',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS auth_nonces (
+        nonce TEXT PRIMARY KEY,
+        wallet TEXT NOT NULL,
+        message TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL
+      )`,
+      `CREATE TABLE IF NOT EXISTS auth_sessions (
+        token_hash TEXT PRIMARY KEY,
+        wallet TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_auth_nonces_expires ON auth_nonces (expires_at)`,
+      `CREATE INDEX IF NOT EXISTS idx_auth_sessions_expires ON auth_sessions (expires_at)`,
+    ],
+  },
+  {
+    version: 9,
+    name: 'create_payout_intents',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS payout_intents (
+        signature TEXT PRIMARY KEY,
+        presale_id TEXT NOT NULL,
+        wallet TEXT NOT NULL,
+        status TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      )`,
+      // At most one payout per wallet can be in flight
+      `CREATE UNIQUE INDEX IF NOT EXISTS idx_payout_intents_open ON payout_intents (presale_id, wallet) WHERE status = 'sent'`,
+      `CREATE INDEX IF NOT EXISTS idx_payout_intents_status ON payout_intents (status, created_at)`,
+    ],
+  },
+  {
+    version: 10,
+    name: 'create_launch_leases',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS launch_leases (
+        presale_id TEXT PRIMARY KEY,
+        holder TEXT NOT NULL,
+        expires_at TEXT NOT NULL
+      )`,
+    ],
+  },
+  {
+    version: 11,
+    name: 'index_auth_nonces_wallet',
+    statements: [
+      `CREATE INDEX IF NOT EXISTS idx_auth_nonces_wallet ON auth_nonces (wallet, created_at)`,
+    ],
+  },
+];
+
+async function runMigrations(client: Client): Promise<void> {
+  await client.execute(`CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    applied_at TEXT NOT NULL
+  )`);
+
+  const applied = await client.execute('SELECT version FROM schema_migrations');
+  const appliedVersions = new Set(applied.rows.map(r => Number(r.version)));
+
+  for (const migration of MIGRATIONS) {
+    if (appliedVersions.has(migration.version)) continue;
+
+    console.log('[PresaleDB] Applying migration', migration.version, migration.name);
+    await client.batch([
+      ...migration.statements,
+      {
+        sql: 'INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)',
+        args: [migration.version, migration.name, new Date().toISOString()],
+      },
+    ], 'write');
+  }
+}
+
+// Local SQLite files: WAL journal with a full fsync on every commit
+// Remote (Turso) databases handle durability server-side
+async function configureDurability(client: Client, url: string): Promise<void> {
+  if (!url.startsWith('file:')) return;
+  await client.execute('PRAGMA journal_mode = WAL');
+  await client.execute('PRAGMA synchronous = FULL');
+}
+
+// ============ ROW MAPPING ============
+
+function presaleToArgs(p: Presale) {
+  return [
+    p.id,
+    p.creator_wallet,
+    p.token_name,
+    p.token_symbol,
+    p.status,
+    p.created_at,
+    p.expires_at,
+    p.total_sol,
+    p.participant_count,
+    p.target_participants,
+    JSON.stringify(p),
+  ];
+}
+
+// SQL expression behind each listing sort
+const SORT_EXPRESSIONS: Record<PresaleSort, string> = {
+  newest: 'created_at',
+  ending_soon: 'expires_at',
+  most_filled: 'CASE WHEN target_participants > 0 THEN CAST(participant_count AS REAL) / target_participants ELSE 0 END',
+  most_sol: 'total_sol',
+};
+
+// WHERE clause for the listing filters (not cursor / paging)
+function presaleFilters(query: PresaleListQuery): { where: string[]; args: (string | number)[] } {
+  const where: string[] = [];
+  const args: (string | number)[] = [];
+
+  if (query.status) {
+    const statuses = Array.isArray(query.status) ? query.status : [query.status];
+    where.push(`status IN (${statuses.map(() => '?').join(', ')})`);
+    args.push(...statuses);
+  }
+  if (query.creator_wallet) {
+    where.push('creator_wallet = ?');
+    args.push(query.creator_wallet);
+  }
+  if (query.created_after) {
+    where.push('created_at >= ?');
+    args.push(query.created_after);
+  }
+  if (query.created_before) {
+    where.push('created_at < ?');
+    args.push(query.created_before);
+  }
+  if (query.expires_before) {
+    where.push('expires_at < ?');
+    args.push(query.expires_before);
+  }
+  if (query.search) {
+    const pattern = `%${query.search.replace(/[\\%_]/g, c => `\\${c}`)}%`;
+    where.push(`(token_name LIKE ? ESCAPE '\\' OR token_symbol LIKE ? ESCAPE '\\')`);
+    args.push(pattern, pattern);
+  }
+
+  return { where, args };
+}
+
+function participantToArgs(p: PresaleParticipant) {
+  return [
+    p.id,
+    p.presale_id,
+    p.wallet,
+    p.amount_sol,
+    p.tx_signature,
+    p.joined_at,
+    p.confirmed ? 1 : 0,
+    p.refunded ? 1 : 0,
+    p.withdrawn ? 1 : 0,
+    JSON.stringify(p),
+  ];
+}
+
+function rowData<T>(row: Row): T {
+  return JSON.parse(String(row.data)) as T;
+}
+
+export function createLibsqlPresaleStorage(url: string = PRESALE_DB_URL): PresaleStorage {
+  const client = createClient({ url, authToken: PRESALE_DB_AUTH_TOKEN });
+  let ready: Promise<void> | null = null;
+
+  // Run migrations once before the first query
+  function init(): Promise<void> {
+    if (!ready) {
+      ready = configureDurability(client, url).then(() => runMigrations(client)).catch((e) => {
+        ready = null;
+        console.error('[PresaleDB] Migration failed:', e.message);
+        throw e;
+      });
+    }
+    return ready;
+  }
+
+  // Statements inside transaction() run on its write transaction - everything else waits until it commits
+  const txContext = new AsyncLocalStorage<Transaction>();
+  let txTail: Promise<unknown> = Promise.resolve();
+
+  async function execute(stmt: InStatement) {
+    await init();
+    const tx = txContext.getStore();
+    if (tx) return tx.execute(stmt);
+    await txTail.catch(() => {});
+    return client.execute(stmt);
+  }
+
+  async function readDepositSignature(signature: string): Promise<DepositSignature | null> {
+    const result = await execute({
+      sql: 'SELECT signature, presale_id, wallet, lamports, consumed_at, use FROM deposit_signatures WHERE signature = ?',
+      args: [signature],
+    });
+    const row = result.rows[0];
+    if (!row) return null;
+    return {
+      signature: String(row.signature),
+      presale_id: String(row.presale_id),
+      wallet: String(row.wallet),
+      lamports: Number(row.lamports),
+      consumed_at: String(row.consumed_at),
+      use: String(row.use) as DepositSignature['use'],
+    };
+  }
+
+  async function readLaunchLease(presale_id: string): Promise<LaunchLease | null> {
+    const result = await execute({
+      sql: 'SELECT presale_id, holder, expires_at FROM launch_leases WHERE presale_id = ?',
+      args: [presale_id],
+    });
+    const row = result.rows[0];
+    if (!row) return null;
+    return {
+      presale_id: String(row.presale_id),
+      holder: String(row.holder),
+      expires_at: String(row.expires_at),
+    };
+  }
+
+  return {
+    kind: `libsql (${url.replace(/\?.*$/, '')})`,
+
+    async nextPresaleNum() {
+      const result = await execute(
+        `UPDATE presale_meta SET value = value + 1 WHERE key = 'last_presale_num' RETURNING value`
+      );
+      return Number(result.rows[0].value);
+    },
+
+    async insertPresale(presale: Presale) {
+      await execute({
+        sql: `INSERT INTO presales (
+          id, creator_wallet, token_name, token_symbol, status,
+          created_at, expires_at, total_sol, participant_count, target_participants, data
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        args: presaleToArgs(presale),
+      });
+    },
+
+    async updatePresale(presale: Presale) {
+      const [id, ...rest] = presaleToArgs(presale);
+      await execute({
+        sql: `UPDATE presales SET
+          creator_wallet = ?, token_name = ?, token_symbol = ?, status = ?,
+          created_at = ?, expires_at = ?, total_sol = ?, participant_count = ?,
+          target_participants = ?, data = ?
+        WHERE id = ?`,
+        args: [...rest, id],
+      });
+    },
+
+    async getPresale(id: string) {
+      const result = await execute({ sql: 'SELECT data FROM presales WHERE id = ?', args: [id] });
+      return result.rows.length > 0 ? rowData<Presale>(result.rows[0]) : null;
+    },
+
+    async listPresales(query: PresaleListQuery = {}) {
+      const sort = query.sort || 'newest';
+      const expr = SORT_EXPRESSIONS[sort];
+      const dir = SORT_DIRECTION[sort] === 'asc' ? 'ASC' : 'DESC';
+      const { where, args } = presaleFilters(query);
+
+      // Keyset pagination: strictly after the cursor row in listing order
+      if (query.cursor) {
+        const op = dir === 'ASC' ? '>' : '<';
+        where.push(`(${expr} ${op} ? OR (${expr} = ? AND id ${op} ?))`);
+        args.push(query.cursor.v, query.cursor.v, query.cursor.id);
+      }
+
+      let sql = 'SELECT data FROM presales';
+      if (where.length > 0) sql += ` WHERE ${where.join(' AND ')}`;
+      sql += ` ORDER BY ${expr} ${dir}, id ${dir}`;
+      if (query.limit !== undefined || query.offset) {
+        sql += ' LIMIT ? OFFSET ?';
+        args.push(query.limit ?? -1, query.offset || 0);
+      }
+
+      const result = await execute({ sql, args });
+      return result.rows.map(r => rowData<Presale>(r));
+    },
+
+    async countPresales(query: PresaleListQuery = {}) {
+      const { where, args } = presaleFilters(query);
+
+      let sql = 'SELECT COUNT(*) AS n FROM presales';
+      if (where.length > 0) sql += ` WHERE ${where.join(' AND ')}`;
+
+      const result = await execute({ sql, args });
+      return Number(result.rows[0].n);
+    },
+
+    async getStats(): Promise<PresaleStorageStats> {
+      const result = await execute(`SELECT
+        COUNT(*) AS total,
+        COALESCE(SUM(status = 'active'), 0) AS active,
+        COALESCE(SUM(status = 'launched'), 0) AS launched,
+        COALESCE(SUM(status IN ('failed', 'refunding', 'refunded')), 0) AS failed,
+        COALESCE(SUM(status = 'cancelled'), 0) AS cancelled,
+        COALESCE(SUM(CASE WHEN status = 'launched' THEN total_sol ELSE 0 END), 0) AS total_sol
+      FROM presales`);
+      const row = result.rows[0];
+
+      return {
+        total: Number(row.total),
+        active: Number(row.active),
+        launched: Number(row.launched),
+        failed: Number(row.failed),
+        cancelled: Number(row.cancelled),
+        total_sol: Number(row.total_sol),
+      };
+    },
+
+    async insertParticipant(participant: PresaleParticipant) {
+      await execute({
+        sql: `INSERT INTO presale_participants (
+          id, presale_id, wallet, amount_sol, tx_signature, joined_at,
+          confirmed, refunded, withdrawn, data
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        args: participantToArgs(participant),
+      });
+    },
+
+    async updateParticipant(participant: PresaleParticipant) {
+      const [id, ...rest] = participantToArgs(participant);
+      await execute({
+        sql: `UPDATE presale_participants SET
+          presale_id = ?, wallet = ?, amount_sol = ?, tx_signature = ?, joined_at = ?,
+          confirmed = ?, refunded = ?, withdrawn = ?, data = ?
+        WHERE id = ?`,
+        args: [...rest, id],
+      });
+    },
+
+    async listParticipants(filter: ParticipantFilter) {
+      const where: string[] = [];
+      const args: (string | number)[] = [];
+
+      if (filter.presale_id !== undefined) {
+        where.push('presale_id = ?');
+        args.push(filter.presale_id);
+      }
+      if (filter.wallet !== undefined) {
+        where.push('wallet = ?');
+        args.push(filter.wallet);
+      }
+      if (filter.confirmed !== undefined) {
+        where.push('confirmed = ?');
+        args.push(filter.confirmed ? 1 : 0);
+      }
+      if (filter.active !== undefined) {
+        where.push(filter.active
+          ? 'refunded = 0 AND withdrawn = 0'
+          : '(refunded = 1 OR withdrawn = 1)');
+      }
+      if (filter.signature !== undefined) {
+        where.push(`(tx_signature = ? OR json_extract(data, '$.refund_signature') = ?
+          OR json_extract(data, '$.withdraw_signature') = ?
+          OR EXISTS (SELECT 1 FROM json_each(data, '$.deposits') WHERE json_extract(value, '$.signature') = ?))`);
+        args.push(filter.signature, filter.signature, filter.signature, filter.signature);
+      }
+
+      let sql = 'SELECT data FROM presale_participants';
+      if (where.length > 0) sql += ` WHERE ${where.join(' AND ')}`;
+      sql += ' ORDER BY joined_at ASC, rowid ASC';
+
+      const result = await execute({ sql, args });
+      return result.rows.map(r => rowData<PresaleParticipant>(r));
+    },
+
+    async claimDepositSignature(record: DepositSignature) {
+      const result = await execute({
+        sql: `INSERT INTO deposit_signatures (signature, presale_id, wallet, lamports, consumed_at, use)
+          VALUES (?, ?, ?, ?, ?, ?) ON CONFLICT (signature) DO NOTHING`,
+        args: [
+          record.signature,
+          record.presale_id,
+          record.wallet,
+          record.lamports,
+          record.consumed_at,
+          record.use || 'participant',
+        ],
+      });
+      if (result.rowsAffected > 0) return null;
+      return readDepositSignature(record.signature);
+    },
+
+    async getDepositSignature(signature: string) {
+      return readDepositSignature(signature);
+    },
+
+    async insertDepositIntent(intent: DepositIntent) {
+      await execute({
+        sql: `INSERT INTO deposit_intents (
+          reference, presale_id, wallet, amount_lamports, status, created_at, expires_at, signature
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        args: [
+          intent.reference,
+          intent.presale_id,
+          intent.wallet,
+          intent.amount_lamports,
+          intent.status,
+          intent.created_at,
+          intent.expires_at,
+          intent.signature ?? null,
+        ],
+      });
+    },
+
+    async updateDepositIntent(intent: DepositIntent) {
+      await execute({
+        sql: 'UPDATE deposit_intents SET status = ?, signature = ? WHERE reference = ?',
+        args: [intent.status, intent.signature ?? null, intent.reference],
+      });
+    },
+
+    async getDepositIntent(reference: string) {
+      const result = await execute({
+        sql: `SELECT reference, presale_id, wallet, amount_lamports, status, created_at, expires_at, signature
+          FROM deposit_intents WHERE reference = ?`,
+        args: [reference],
+      });
+      const row = result.rows[0];
+      if (!row) return null;
+      return {
+        reference: String(row.reference),
+        presale_id: String(row.presale_id),
+        wallet: String(row.wallet),
+        amount_lamports: Number(row.amount_lamports),
+        status: String(row.status) as DepositIntent['status'],
+        created_at: String(row.created_at),
+        expires_at: String(row.expires_at),
+        ...(row.signature !== null && { signature: String(row.signature) }),
+      };
+    },
+
+    async insertOrphanedDeposit(orphan: OrphanedDeposit) {
+      const result = await execute({
+        sql: `INSERT INTO orphaned_deposits (signature, presale_id, wallet, status, created_at, data)
+          VALUES (?, ?, ?, ?, ?, ?) ON CONFLICT (signature) DO NOTHING`,
+        args: [orphan.signature, orphan.presale_id, orphan.wallet, orphan.status, orphan.created_at, JSON.stringify(orphan)],
+      });
+      return result.rowsAffected > 0;
+    },
+
+    async updateOrphanedDeposit(orphan: OrphanedDeposit) {
+      await execute({
+        sql: 'UPDATE orphaned_deposits SET status = ?, data = ? WHERE signature = ?',
+        args: [orphan.status, JSON.stringify(orphan), orphan.signature],
+      });
+    },
+
+    async getOrphanedDeposit(signature: string) {
+      const result = await execute({
+        sql: 'SELECT data FROM orphaned_deposits WHERE signature = ?',
+        args: [signature],
+      });
+      return result.rows[0] ? rowData<OrphanedDeposit>(result.rows[0]) : null;
+    },
+
+    async listOrphanedDeposits(filter: OrphanedDepositFilter = {}) {
+      const where: string[] = [];
+      const args: string[] = [];
+
+      if (filter.status) {
+        const statuses = Array.isArray(filter.status) ? filter.status : [filter.status];
+        where.push(`status IN (${statuses.map(() => '?').join(', ')})`);
+        args.push(...statuses);
+      }
+      if (filter.wallet !== undefined) {
+        where.push('wallet = ?');
+        args.push(filter.wallet);
+      }
+      if (filter.presale_id !== undefined) {
+        where.push('presale_id = ?');
+        args.push(filter.presale_id);
+      }
+
+      let sql = 'SELECT data FROM orphaned_deposits';
+      if (where.length > 0) sql += ` WHERE ${where.join(' AND ')}`;
+      sql += ' ORDER BY created_at ASC, rowid ASC';
+
+      const result = await execute({ sql, args });
+      return result.rows.map(r => rowData<OrphanedDeposit>(r));
+    },
+
+    async insertPayoutIntent(intent: PayoutIntent) {
+      const result = await execute({
+        sql: `INSERT INTO payout_intents (signature, presale_id, wallet, status, created_at, data)
+          VALUES (?, ?, ?, ?, ?, ?) ON CONFLICT DO NOTHING`,
+        args: [intent.signature, intent.presale_id, intent.wallet, intent.status, intent.created_at, JSON.stringify(intent)],
+      });
+      return result.rowsAffected > 0;
+    },
+
+    async updatePayoutIntent(intent: PayoutIntent) {
+      await execute({
+        sql: 'UPDATE payout_intents SET status = ?, data = ? WHERE signature = ?',
+        args: [intent.status, JSON.stringify(intent), intent.signature],
+      });
+    },
+
+    async listPayoutIntents(filter: PayoutIntentFilter = {}) {
+      const where: string[] = [];
+      const args: string[] = [];
+
+      if (filter.status) {
+        const statuses = Array.isArray(filter.status) ? filter.status : [filter.status];
+        where.push(`status IN (${statuses.map(() => '?').join(', ')})`);
+        args.push(...statuses);
+      }
+      if (filter.wallet !== undefined) {
+        where.push('wallet = ?');
+        args.push(filter.wallet);
+      }
+      if (filter.presale_id !== undefined) {
+        where.push('presale_id = ?');
+        args.push(filter.presale_id);
+      }
+
+      let sql = 'SELECT data FROM payout_intents';
+      if (where.length > 0) sql += ` WHERE ${where.join(' AND ')}`;
+      sql += ' ORDER BY created_at ASC, rowid ASC';
+
+      const result = await execute({ sql, args });
+      return result.rows.map(r => rowData<PayoutIntent>(r));
+    },
+
+    async insertAuthNonce(nonce: AuthNonce) {
+      await execute({
+        sql: `INSERT INTO auth_nonces (nonce, wallet, message, created_at, expires_at)
+          VALUES (?, ?, ?, ?, ?)`,
+        args: [nonce.nonce, nonce.wallet, nonce.message, nonce.created_at, nonce.expires_at],
+      });
+    },
+
+    async takeAuthNonce(nonce: string) {
+      const result = await execute({
+        sql: `DELETE FROM auth_nonces WHERE nonce = ?
+          RETURNING nonce, wallet, message, created_at, expires_at`,
+        args: [nonce],
+      });
+      const row = result.rows[0];
+      if (!row) return null;
+      return {
+        nonce: String(row.nonce),
+        wallet: String(row.wallet),
+        message: String(row.message),
+        created_at: String(row.created_at),
+        expires_at: String(row.expires_at),
+      };
+    },
+
+    async trimAuthNonces(wallet: string, keep: number) {
+      await execute({
+        sql: `DELETE FROM auth_nonces WHERE wallet = ? AND nonce NOT IN (
+          SELECT nonce FROM auth_nonces WHERE wallet = ? ORDER BY created_at DESC LIMIT ?
+        )`,
+        args: [wallet, wallet, keep],
+      });
+    },
+
+    async insertAuthSession(session: AuthSession) {
+      await execute({
+        sql: `INSERT INTO auth_sessions (token_hash, wallet, created_at, expires_at)
+          VALUES (?, ?, ?, ?)`,
+        args: [session.token_hash, session.wallet, session.created_at, session.expires_at],
+      });
+    },
+
+    async getAuthSession(tokenHash: string) {
+      const result = await execute({
+        sql: 'SELECT token_hash, wallet, created_at, expires_at FROM auth_sessions WHERE token_hash = ?',
+        args: [tokenHash],
+      });
+      const row = result.rows[0];
+      if (!row) return null;
+      return {
+        token_hash: String(row.token_hash),
+        wallet: String(row.wallet),
+        created_at: String(row.created_at),
+        expires_at: String(row.expires_at),
+      };
+    },
+
+    async deleteAuthSession(tokenHash: string) {
+      await execute({
+        sql: 'DELETE FROM auth_sessions WHERE token_hash = ?',
+        args: [tokenHash],
+      });
+    },
+
+    async pruneAuth(now: string) {
+      await execute({ sql: 'DELETE FROM auth_nonces WHERE expires_at < ?', args: [now] });
+      await execute({ sql: 'DELETE FROM auth_sessions WHERE expires_at < ?', args: [now] });
+    },
+
+    async acquireLaunchLease(lease: LaunchLease, now: string) {
+      // Overwrites only an expired lease or the caller's own - the conflict update is atomic
+      const result = await execute({
+        sql: `INSERT INTO launch_leases (presale_id, holder, expires_at) VALUES (?, ?, ?)
+          ON CONFLICT (presale_id) DO UPDATE SET holder = excluded.holder, expires_at = excluded.expires_at
+          WHERE launch_leases.holder = excluded.holder OR launch_leases.expires_at <= ?`,
+        args: [lease.presale_id, lease.holder, lease.expires_at, now],
+      });
+      if (result.rowsAffected > 0) return null;
+
+      return readLaunchLease(lease.presale_id);
+    },
+
+    async getLaunchLease(presale_id: string) {
+      return readLaunchLease(presale_id);
+    },
+
+    async releaseLaunchLease(presale_id: string, holder: string) {
+      await execute({
+        sql: 'DELETE FROM launch_leases WHERE presale_id = ? AND holder = ?',
+        args: [presale_id, holder],
+      });
+    },
+
+    async getCursor(name: string) {
+      const result = await execute({
+        sql: 'SELECT value FROM job_cursors WHERE name = ?',
+        args: [name],
+      });
+      return result.rows[0] ? String(result.rows[0].value) : null;
+    },
+
+    async setCursor(name: string, value: string) {
+      await execute({
+        sql: `INSERT INTO job_cursors (name, value, updated_at) VALUES (?, ?, ?)
+          ON CONFLICT (name) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`,
+        args: [name, value, new Date().toISOString()],
+      });
+    },
+
+    async appendEvent(event: Omit<PresaleEvent, 'seq'>) {
+      const result = await execute({
+        sql: `INSERT INTO presale_events (
+          presale_id, type, created_at, actor_wallet, amount_lamports, data
+        ) VALUES (?, ?, ?, ?, ?, ?) RETURNING seq`,
+        args: [
+          event.presale_id,
+          event.type,
+          event.created_at,
+          event.actor_wallet ?? null,
+          event.amount_lamports ?? null,
+          JSON.stringify(event),
+        ],
+      });
+      return { seq: Number(result.rows[0].seq), ...event };
+    },
+
+    async listEvents(filter: PresaleEventFilter) {
+      const where: string[] = [];
+      const args: (string | number)[] = [];
+
+      if (filter.presale_id !== undefined) {
+        where.push('presale_id = ?');
+        args.push(filter.presale_id);
+      }
+      if (filter.actor_wallet !== undefined) {
+        where.push('actor_wallet = ?');
+        args.push(filter.actor_wallet);
+      }
+
+      let sql = 'SELECT seq, data FROM presale_events';
+      if (where.length > 0) sql += ` WHERE ${where.join(' AND ')}`;
+      sql += ' ORDER BY seq ASC LIMIT ? OFFSET ?';
+      args.push(filter.limit ?? -1, filter.offset || 0);
+
+      const result = await execute({ sql, args });
+      return result.rows.map(r => ({ seq: Number(r.seq), ...rowData<Omit<PresaleEvent, 'seq'>>(r) }));
+    },
+
+    async flush() {
+      // Every statement outside a transaction is committed as it runs
+    },
+
+    async transaction<T>(fn: () => Promise<T>): Promise<T> {
+      if (txContext.getStore()) return fn();
+      await init();
+
+      const run = txTail.catch(() => {}).then(async () => {
+        const tx = await client.transaction('write');
+        try {
+          const result = await txContext.run(tx, fn);
+          await tx.commit();
+          return result;
+        } catch (e) {
+          await tx.rollback().catch(() => {});
+          throw e;
+        } finally {
+          tx.close();
+        }
+      });
+      txTail = run;
+      return run;
+    },
+  };
+}
@@ -0,0 +1,88 @@
+// lib/presale-storage.test.ts
+// A storage transaction keeps all of its writes or none of them, on every backend
+
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Presale } from './presale-types';
+import type { PresaleStorage } from './presale-storage';
+import { createJsonPresaleStorage } from './presale-storage-json';
+import { createLibsqlPresaleStorage } from './presale-storage-libsql';
+
+const dir = mkdtempSync(join(tmpdir(), 'presale-storage-test-'));
+
+after(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const backends: [string, () => PresaleStorage][] = [
+  ['json', () => createJsonPresaleStorage(join(dir, 'presales.json'))],
+  ['libsql', () => createLibsqlPresaleStorage(`file:${join(dir, 'presales.db')}`)],
+];
+
+let presaleNum = 0;
+function presale(): Presale {
+  const now = new Date();
+  return {
+    id: `PS-TX-${++presaleNum}`,
+    creator_wallet: 'Creator'.padEnd(44, '1'),
+    token_name: 'Test',
+    token_symbol: 'TEST',
+    description: 'Test presale',
+    image_url: 'https://example.com/test.png',
+    min_sol_per_wallet: 0.05,
+    max_sol_per_wallet: 1,
+    target_participants: 2,
+    duration_minutes: 10,
+    launch_fee_paid: true,
+    status: 'active',
+    created_at: now.toISOString(),
+    expires_at: new Date(now.getTime() + 10 * 60 * 1000).toISOString(),
+    total_sol: 0,
+    participant_count: 0,
+  };
+}
+
+for (const [name, create] of backends) {
+  const storage = create();
+
+  test(`${name}: a transaction keeps every write once it completes`, async () => {
+    const p = presale();
+    await storage.transaction(async () => {
+      await storage.insertPresale(p);
+      await storage.appendEvent({ presale_id: p.id, type: 'presale_created', created_at: p.created_at });
+    });
+
+    assert.equal((await storage.getPresale(p.id))?.id, p.id);
+    assert.equal((await storage.listEvents({ presale_id: p.id })).length, 1);
+  });
+
+  test(`${name}: a transaction that throws leaves nothing behind`, async () => {
+    const p = presale();
+    await storage.insertPresale(p);
+
+    await assert.rejects(storage.transaction(async () => {
+      await storage.updatePresale({ ...p, status: 'launching', participant_count: 2 });
+      await storage.appendEvent({ presale_id: p.id, type: 'status_changed', created_at: p.created_at });
+      throw new Error('step failed');
+    }), /step failed/);
+
+    const stored = await storage.getPresale(p.id);
+    assert.equal(stored?.status, 'active');
+    assert.equal(stored?.participant_count, 0);
+    assert.deepEqual(await storage.listEvents({ presale_id: p.id }), []);
+  });
+
+  test(`${name}: a nested transaction runs as part of the outer one`, async () => {
+    const p = presale();
+
+    await assert.rejects(storage.transaction(async () => {
+      await storage.transaction(() => storage.insertPresale(p));
+      throw new Error('outer failed');
+    }), /outer failed/);
+
+    assert.equal(await storage.getPresale(p.id), null);
+  });
+}
@@ -0,0 +1,178 @@
+// lib/presale-storage.ts
+// Storage backend interface for the presale data layer
+// presale-db.ts holds the business rules; adapters only load and save rows
+
+import type {
+  Presale,
+  PresaleParticipant,
+  PresaleStatus,
+  PresaleEvent,
+  DepositSignature,
+  DepositIntent,
+  OrphanedDeposit,
+  OrphanedDepositStatus,
+  PayoutIntent,
+  PayoutIntentStatus,
+  AuthNonce,
+  AuthSession,
+  LaunchLease,
+} from './presale-types';
+import type { PresaleSort, PresaleCursor } from './presale-query';
+import { createJsonPresaleStorage } from './presale-storage-json';
+import { createLibsqlPresaleStorage } from './presale-storage-libsql';
+
+// Backend selection
+// PRESALE_STORAGE=libsql uses PRESALE_DB_URL (e.g. file:/data/presales.db or libsql://...)
+// Anything else keeps the JSON file at PRESALE_DB_PATH
+const PRESALE_STORAGE = process.env.PRESALE_STORAGE ||
+  (process.env.PRESALE_DB_URL ? 'libsql' : 'json');
+
+// Presale list query
+export interface PresaleListQuery {
+  status?: PresaleStatus | PresaleStatus[];
+  creator_wallet?: string;
+  created_after?: string; // ISO timestamp (inclusive)
+  created_before?: string; // ISO timestamp (exclusive)
+  expires_before?: string; // ISO timestamp
+  search?: string; // Token name or symbol, case-insensitive substring
+  sort?: PresaleSort; // Defaults to newest
+  cursor?: PresaleCursor; // Keyset position - rows strictly after it
+  limit?: number;
+  offset?: number;
+}
+
+// Participant lookup filter
+export interface ParticipantFilter {
+  presale_id?: string;
+  wallet?: string;
+  confirmed?: boolean;
+  active?: boolean; // true = not refunded and not withdrawn
+  signature?: string; // Matches any deposit (join or top-up), refund or withdrawal signature
+}
+
+// Audit ledger query
+export interface PresaleEventFilter {
+  presale_id?: string;
+  actor_wallet?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// Orphaned deposit lookup
+export interface OrphanedDepositFilter {
+  status?: OrphanedDepositStatus | OrphanedDepositStatus[];
+  wallet?: string;
+  presale_id?: string;
+}
+
+// Payout intent lookup
+export interface PayoutIntentFilter {
+  presale_id?: string;
+  wallet?: string;
+  status?: PayoutIntentStatus | PayoutIntentStatus[];
+}
+
+// Aggregate counts for the stats endpoints
+export interface PresaleStorageStats {
+  total: number;
+  active: number;
+  launched: number;
+  failed: number; // Includes presales that are refunding or refunded
+  cancelled: number;
+  total_sol: number; // Raised by launched presales
+}
+
+export interface PresaleStorage {
+  /** Human readable backend name for logs */
+  readonly kind: string;
+
+  /** Allocate the next sequential presale number */
+  nextPresaleNum(): Promise<number>;
+
+  insertPresale(presale: Presale): Promise<void>;
+  updatePresale(presale: Presale): Promise<void>;
+  getPresale(id: string): Promise<Presale | null>;
+  /** Ordered by query.sort (newest first by default) */
+  listPresales(query?: PresaleListQuery): Promise<Presale[]>;
+  /** Rows matching the query filters, ignoring cursor / limit / offset */
+  countPresales(query?: PresaleListQuery): Promise<number>;
+  getStats(): Promise<PresaleStorageStats>;
+
+  insertParticipant(participant: PresaleParticipant): Promise<void>;
+  updateParticipant(participant: PresaleParticipant): Promise<void>;
+  /** Oldest first (join order) */
+  listParticipants(filter: ParticipantFilter): Promise<PresaleParticipant[]>;
+
+  /** Register a deposit signature - returns the record already holding it, or null if this call claimed it */
+  claimDepositSignature(record: DepositSignature): Promise<DepositSignature | null>;
+  getDepositSignature(signature: string): Promise<DepositSignature | null>;
+
+  insertDepositIntent(intent: DepositIntent): Promise<void>;
+  updateDepositIntent(intent: DepositIntent): Promise<void>;
+  getDepositIntent(reference: string): Promise<DepositIntent | null>;
+
+  /** Returns false (and changes nothing) if the deposit is already queued */
+  insertOrphanedDeposit(orphan: OrphanedDeposit): Promise<boolean>;
+  updateOrphanedDeposit(orphan: OrphanedDeposit): Promise<void>;
+  getOrphanedDeposit(signature: string): Promise<OrphanedDeposit | null>;
+  /** Oldest first */
+  listOrphanedDeposits(filter?: OrphanedDepositFilter): Promise<OrphanedDeposit[]>;
+
+  /** Returns false (and changes nothing) if the wallet already has a 'sent' payout in this presale */
+  insertPayoutIntent(intent: PayoutIntent): Promise<boolean>;
+  updatePayoutIntent(intent: PayoutIntent): Promise<void>;
+  /** Oldest first */
+  listPayoutIntents(filter?: PayoutIntentFilter): Promise<PayoutIntent[]>;
+
+  insertAuthNonce(nonce: AuthNonce): Promise<void>;
+  /** Delete and return a nonce - each one can be redeemed only once */
+  takeAuthNonce(nonce: string): Promise<AuthNonce | null>;
+  /** Drop all but the `keep` newest nonces issued to `wallet` */
+  trimAuthNonces(wallet: string, keep: number): Promise<void>;
+  insertAuthSession(session: AuthSession): Promise<void>;
+  getAuthSession(tokenHash: string): Promise<AuthSession | null>;
+  deleteAuthSession(tokenHash: string): Promise<void>;
+  /** Drop nonces and sessions that expired before `now` (ISO timestamp) */
+  pruneAuth(now: string): Promise<void>;
+
+  /**
+   * Take a presale's launch lease unless another holder's lease is live at `now` (ISO timestamp) -
+   * returns that live lease, or null if this call holds it now (a holder re-acquiring renews it)
+   */
+  acquireLaunchLease(lease: LaunchLease, now: string): Promise<LaunchLease | null>;
+  getLaunchLease(presale_id: string): Promise<LaunchLease | null>;
+  /** Does nothing unless `holder` still holds the lease */
+  releaseLaunchLease(presale_id: string, holder: string): Promise<void>;
+
+  /** Named progress markers for background jobs (e.g. the escrow indexer's last signature) */
+  getCursor(name: string): Promise<string | null>;
+  setCursor(name: string, value: string): Promise<void>;
+
+  /** Append an audit event - events are never updated or deleted */
+  appendEvent(event: Omit<PresaleEvent, 'seq'>): Promise<PresaleEvent>;
+  /** Oldest first */
+  listEvents(filter: PresaleEventFilter): Promise<PresaleEvent[]>;
+
+  /** Durably write any buffered changes - resolves only once they survive a crash, throws otherwise */
+  flush(): Promise<void>;
+
+  /**
+   * Run `fn` as one atomic write - all of its changes are kept, or (if it throws) none are
+   * Storage calls made inside `fn` join it; a transaction started inside `fn` just runs as part of it
+   */
+  transaction<T>(fn: () => Promise<T>): Promise<T>;
+}
+
+let storage: PresaleStorage | null = null;
+
+// Get the configured storage backend (created once per process)
+export function getPresaleStorage(): PresaleStorage {
+  if (storage) return storage;
+
+  storage = PRESALE_STORAGE === 'libsql'
+    ? createLibsqlPresaleStorage()
+    : createJsonPresaleStorage();
+
+  console.log('[PresaleDB] Using storage backend:', storage.kind);
+  return storage;
+}
@@ -0,0 +1,315 @@
+// lib/presale-types.ts
+// Shared presale data types used by the data layer and storage adapters
+
+// Presale status enum
+// failed -> refunding (refund worker paying participants) -> refunded (everyone paid, terminal)
+// cancelled (by the creator, terminal) - participants are refunded tax-free like a failed presale
+// active -> launching (launch steps running) -> launched, or launch_failed until a retry resumes it
+export type PresaleStatus =
+  | 'active'
+  | 'launching'
+  | 'launch_failed'
+  | 'launched'
+  | 'failed'
+  | 'refunding'
+  | 'refunded'
+  | 'cancelled';
+
+export const PRESALE_STATUSES: PresaleStatus[] = [
+  'active',
+  'launching',
+  'launch_failed',
+  'launched',
+  'failed',
+  'refunding',
+  'refunded',
+  'cancelled',
+];
+
+// Presale interface
+export interface Presale {
+  id: string; // Unique presale ID
+  creator_wallet: string;
+  
+  // Token metadata
+  token_name: string;
+  token_symbol: string;
+  description: string;
+  image_url: string;
+  twitter?: string;
+  website?: string;
+  
+  // Presale config
+  min_sol_per_wallet: number; // Minimum SOL to join (e.g., 0.1)
+  max_sol_per_wallet: number; // Maximum SOL per wallet (e.g., 1)
+  target_participants: number; // Target: 68 (+ creator = 69)
+  duration_minutes: number; // Duration: 10, 20, or 30 minutes
+  withdrawal_tax?: WithdrawalTaxSchedule; // Chosen at creation - missing means the flat platform rate
+  launch_budget?: LaunchBudget; // Chosen at creation - missing means DEFAULT_LAUNCH_BUDGET
+  soft_cap?: SoftCap; // Chosen at creation - missing means it launches only when full
+  
+  // Launch fee tracking
+  launch_fee_paid: boolean;
+  launch_fee_signature?: string;
+  launch_fee_forfeited?: boolean; // Set on cancellation - the launch fee is non-refundable
+  
+  // Status
+  status: PresaleStatus;
+  created_at: string;
+  expires_at: string;
+  launched_at?: string;
+  cancelled_at?: string;
+  cancel_reason?: string;
+  
+  // Token info - token_mint and meteora_config_key are set by their launch step, launch_signature once launched
+  token_mint?: string;
+  launch_signature?: string;
+  meteora_config_key?: string;
+  launch_state?: PresaleLaunchState;
+  token_distribution?: TokenDistribution; // Planned once launched - the initial buy shared out to participants
+  
+  // Totals (calculated)
+  total_sol: number;
+  participant_count: number;
+}
+
+// Withdrawal tax schedule chosen by the creator (rates in bps, bounded by PRESALE_CONFIG)
+// flat: tax_bps for the whole presale / grace: no tax for the first grace_minutes, then tax_bps
+// decaying / rising: start_bps at creation moving linearly to end_bps at expiry
+export type WithdrawalTaxSchedule =
+  | { type: 'flat'; tax_bps: number }
+  | { type: 'grace'; grace_minutes: number; tax_bps: number }
+  | { type: 'decaying' | 'rising'; start_bps: number; end_bps: number };
+
+// Minimum a presale must reach by expires_at to launch with whoever joined (bounded by its own limits)
+// participants: at least min_participants joined / sol: at least min_sol raised
+// Below it (or without one) an unfilled presale fails at expiry and is refunded
+export type SoftCap =
+  | { type: 'participants'; min_participants: number }
+  | { type: 'sol'; min_sol: number };
+
+// Launch steps in order - a retry skips every step already in completed_steps
+export type LaunchStep = 'metadata' | 'fee_share' | 'config_txs' | 'fund' | 'launch_tx';
+
+// A BAGS tx the launcher signs - the signed copy is saved before it is sent,
+// so a retry can tell whether it landed instead of sending another
+export interface LaunchTx {
+  unsigned: string; // base58, as BAGS returned it
+  signed?: string; // base58 signed copy last sent
+  signature?: string;
+  blockhash?: string; // The signed copy can no longer land once this is invalid
+  confirmed?: boolean;
+}
+
+// Output of each launch step, persisted as soon as it exists
+export interface PresaleLaunchState {
+  completed_steps: LaunchStep[];
+  token_metadata?: string; // metadata: IPFS uri the launch tx is built with (token_mint is on the presale)
+  config_txs?: LaunchTx[]; // fee_share: txs that initialize the config (meteora_config_key is on the presale)
+  allocation?: LaunchAllocation; // Fixed when the first attempt starts
+  fee_shares?: { wallet: string; bps: number }[]; // Claimers, from the participants frozen when the first attempt started
+  fund_tx?: LaunchTx; // fund: escrow pays the launcher its buckets and the treasury the platform fee
+  launch_tx?: LaunchTx; // launch_tx: replaced only after an earlier one can no longer land
+  attempts: number;
+  failed_step?: LaunchStep;
+  error?: string;
+  updated_at: string;
+}
+
+// The launcher's initial-buy tokens, split pro rata by contribution (amounts in raw token units, u64 as strings)
+// Each participant's share is tracked on the participant (distribution_*) and retried until it lands
+export interface TokenDistribution {
+  status: 'distributing' | 'distributed';
+  total_amount: string; // Launcher's token balance when the split was planned
+  decimals: number;
+  token_program: string; // SPL Token or Token-2022, whichever owns the mint
+  return_lamports: number; // The participant-return bucket, split the same way
+  planned_at: string;
+  completed_at?: string;
+}
+
+// Durable lease making a presale's launch single-flight across requests and processes
+// The holder renews it while it runs; once expires_at passes, another launch may take over and resume
+export interface LaunchLease {
+  presale_id: string;
+  holder: string; // Unique per launch run
+  expires_at: string;
+}
+
+// How the SOL a presale raises is spent at launch, chosen at creation (bps of the total, summing to 10000)
+export interface LaunchBudget {
+  initial_buy_bps: number; // The launcher buys the new token with it
+  participant_return_bps: number; // Sent back to participants pro rata, alongside their tokens
+  platform_fee_bps: number; // To TREASURY_WALLET
+  network_reserve_bps: number; // To the launcher for tx fees and participants' token account rent
+}
+
+// A launch budget resolved to lamports when the launch starts - every raised lamport is in exactly one bucket
+export interface LaunchAllocation {
+  total_lamports: number;
+  initial_buy_lamports: number;
+  participant_return_lamports: number; // Takes the rounding remainder
+  platform_fee_lamports: number;
+  network_reserve_lamports: number;
+}
+
+// Participant interface
+export interface PresaleParticipant {
+  id: string;
+  presale_id: string;
+  wallet: string;
+  amount_sol: number; // Combined contribution: every deposit, less partial withdrawals
+  fee_share_bps: number; // Calculated based on contribution
+  joined_at: string;
+  tx_signature: string; // The joining deposit
+  deposits?: ParticipantDeposit[]; // Every credited deposit, the joining one first (missing on records from before top-ups)
+  confirmed: boolean;
+  refunded: boolean;
+  refund_signature?: string;
+  
+  // Withdrawal tracking (during active presale) - withdrawn is only set when all of it is withdrawn
+  withdrawn: boolean;
+  withdraw_signature?: string; // Latest withdrawal, partial or full
+  withdraw_tax_paid?: number; // Tax amount in SOL, summed over all withdrawals
+  withdrawn_sol?: number; // Contribution taken out by partial withdrawals (amount_sol is what remains)
+  
+  // Refund tracking (failed presales) - refund_signature is set while 'sent'
+  refund_status?: ParticipantRefundStatus; // Missing means pending
+  refund_lamports?: number; // Deposit minus its share of the network fee
+  refund_attempts?: number;
+  refund_next_attempt_at?: string; // Backoff - a failed refund is not retried before this
+  refund_last_valid_block_height?: number; // A sent refund tx can no longer land after this height
+  refund_error?: string;
+  
+  // Token distribution (launched presales) - distribution_signature is set while 'sent'
+  distribution_status?: ParticipantRefundStatus; // Missing until the distribution is planned
+  distribution_amount?: string; // Raw token units
+  distribution_return_lamports?: number; // SOL share of the participant-return bucket, sent in the same tx
+  distribution_signature?: string;
+  distribution_attempts?: number;
+  distribution_next_attempt_at?: string; // Backoff - a failed transfer is not retried before this
+  distribution_last_valid_block_height?: number;
+  distribution_error?: string;
+}
+
+// One verified deposit credited to a participant - the join or a later top-up
+export interface ParticipantDeposit {
+  signature: string;
+  lamports: number;
+  credited_at: string;
+  intent_reference?: string;
+}
+
+// pending -> sent -> confirmed, or failed (retried with backoff)
+export type ParticipantRefundStatus = 'pending' | 'sent' | 'confirmed' | 'failed';
+
+// Consumed deposit signature - one on-chain transfer can fund at most one participant
+export interface DepositSignature {
+  signature: string;
+  presale_id: string;
+  wallet: string;
+  lamports: number;
+  consumed_at: string;
+  use?: 'participant' | 'refund'; // What the deposit went to (participant when missing)
+}
+
+// Deposit that reached escrow but could not be credited - refunded by the orphan refund queue
+export type OrphanedDepositStatus = 'queued' | 'refunding' | 'refunded' | 'failed';
+
+export interface OrphanedDeposit {
+  signature: string; // Deposit signature
+  presale_id: string; // Presale named by the deposit memo
+  wallet: string; // Signer that sent the SOL (refund destination)
+  lamports: number;
+  reason: string;
+  status: OrphanedDepositStatus;
+  created_at: string;
+  updated_at: string;
+  attempts: number;
+  refund_lamports?: number;
+  refund_signature?: string;
+  refund_last_valid_block_height?: number; // Refund tx can no longer land after this height
+  last_error?: string;
+}
+
+// Escrow payout (withdrawal) signed and recorded before it is sent
+// While it can still land the same tx is resent as-is, so however often it is retried it pays at most once
+export type PayoutIntentStatus = 'sent' | 'confirmed' | 'failed' | 'expired';
+
+export interface PayoutIntent {
+  signature: string; // Of the signed tx - known before it is sent
+  presale_id: string;
+  wallet: string;
+  amount_lamports?: number; // Contribution withdrawn - missing means all of it
+  lamports: number; // Paid to the wallet
+  tax_lamports: number; // Paid to TAX_WALLET in the same tx
+  fee_lamports?: number; // Network fee the tx was priced at
+  blockhash: string;
+  last_valid_block_height: number; // The tx can no longer land after this height
+  transaction: string; // Signed tx, base64
+  status: PayoutIntentStatus;
+  created_at: string;
+  updated_at: string;
+  error?: string;
+}
+
+// Server-issued deposit intent - the unsigned tx carries `reference` as a read-only key
+export type DepositIntentStatus = 'open' | 'used';
+
+export interface DepositIntent {
+  reference: string; // Unique public key (no private key exists)
+  presale_id: string;
+  wallet: string;
+  amount_lamports: number;
+  status: DepositIntentStatus;
+  created_at: string;
+  expires_at: string; // Deposits landing after this are not credited
+  signature?: string; // Set once a deposit consumed the intent
+}
+
+// Sign-in challenge - the exact message the wallet must sign, usable once
+export interface AuthNonce {
+  nonce: string;
+  wallet: string;
+  message: string;
+  created_at: string;
+  expires_at: string;
+}
+
+// Signed-in wallet session (only a hash of the bearer token is stored)
+export interface AuthSession {
+  token_hash: string;
+  wallet: string;
+  created_at: string;
+  expires_at: string;
+}
+
+// Audit ledger event types
+export type PresaleEventType =
+  | 'presale_created'
+  | 'deposit_verified'
+  | 'participant_confirmed'
+  | 'participant_topped_up'
+  | 'withdrawn'
+  | 'refunded'
+  | 'status_changed'
+  | 'launch_step'
+  | 'launched'
+  | 'deposit_orphaned'
+  | 'orphan_refunded'
+  | 'presale_cancelled'
+  | 'distribution_planned'
+  | 'tokens_distributed';
+
+// Append-only audit ledger entry
+export interface PresaleEvent {
+  seq: number; // Monotonic, assigned by storage
+  presale_id: string;
+  type: PresaleEventType;
+  created_at: string;
+  actor_wallet?: string; // Wallet that triggered the event (or whose SOL moved)
+  amount_lamports?: number;
+  tax_lamports?: number;
+  tx_signatures?: string[];
+  details?: Record<string, unknown>;
+}
@@ -0,0 +1,357 @@
+// lib/token-distribution.ts
+// Distribution worker for launched presales - shares the launcher's initial-buy tokens and the budget's
+// participant-return SOL out pro rata by contribution, in batches that create each recipient's token account if needed
+// Each batch is claimed with its signature before it is sent, so a crash or a concurrent run never pays anyone twice
+
+import { Connection, Keypair, PublicKey, SystemProgram, Transaction } from '@solana/web3.js';
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
+import bs58 from 'bs58';
+import {
+  getPresaleById,
+  getPresaleParticipants,
+  planTokenDistribution,
+  getUndistributedParticipants,
+  beginParticipantDistributions,
+  failParticipantDistributions,
+  markParticipantsDistributed,
+  completeTokenDistribution,
+  type Presale,
+  type PresaleParticipant,
+} from './presale-db';
+import { getPresaleStorage } from './presale-storage';
+import { solToLamports } from './presale-events';
+import { estimatePriorityFee, computeBudgetInstructions, sendTransaction } from './tx-sender';
+
+const SOLANA_RPC_URL = process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com';
+const LAUNCHER_PRIVATE_KEY = process.env.LAUNCHER_PRIVATE_KEY;
+
+// Recipients per tx - each adds an idempotent token account create, a token transfer and a SOL return
+const DISTRIBUTION_BATCH_SIZE = 5;
+
+// An idempotent token account create, a token transfer and a SOL return - the limit leaves headroom for Token-2022
+const DISTRIBUTION_COMPUTE_UNITS_BASE = 1000;
+const DISTRIBUTION_COMPUTE_UNITS_PER_RECIPIENT = 50_000;
+
+// Failed transfers are retried after 30s, 1m, 2m... then every 30m until they land
+const DISTRIBUTION_BACKOFF_BASE_MS = 30 * 1000;
+const DISTRIBUTION_BACKOFF_MAX_MS = 30 * 60 * 1000;
+
+export type DistributionBatchOutcome =
+  | 'confirmed' // Landed - participants marked distributed
+  | 'failed' // Tx failed or was rejected - participants retried with backoff
+  | 'in_flight' // Sent, outcome unknown - settled on a later run
+  | 'skipped'; // Another run already holds one of the participants
+
+export interface TokenDistributionRunResult {
+  presales: number;
+  distributed: number; // Participants confirmed this run
+  failed: number;
+  in_flight: number;
+  completed: string[]; // Presales whose distribution finished
+}
+
+let running: Promise<TokenDistributionRunResult> | null = null;
+
+function retryAt(attempts: number): string {
+  const delay = Math.min(DISTRIBUTION_BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1), DISTRIBUTION_BACKOFF_MAX_MS);
+  return new Date(Date.now() + delay).toISOString();
+}
+
+function isDue(participant: PresaleParticipant, now: Date): boolean {
+  if (participant.distribution_status === 'pending') return true;
+  if (participant.distribution_status !== 'failed') return false;
+  return !participant.distribution_next_attempt_at || new Date(participant.distribution_next_attempt_at) <= now;
+}
+
+function loadLauncherKeypair(): Keypair {
+  if (!LAUNCHER_PRIVATE_KEY) throw new Error('LAUNCHER_PRIVATE_KEY is not set');
+  return Keypair.fromSecretKey(bs58.decode(LAUNCHER_PRIVATE_KEY));
+}
+
+// ============ PLANNING ============
+
+// Split `total` by contribution - the weights calculateFeeShares uses, with the rounding remainder to the last participant
+function splitProRata(total: bigint, participants: PresaleParticipant[]): { wallet: string; amount: string }[] {
+  const weights = participants.map(p => BigInt(solToLamports(p.amount_sol)));
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0n);
+  if (totalWeight === 0n) return [];
+
+  const amounts = weights.map(w => (total * w) / totalWeight);
+  amounts[amounts.length - 1] += total - amounts.reduce((sum, a) => sum + a, 0n);
+
+  return participants.map((p, i) => ({ wallet: p.wallet, amount: amounts[i].toString() }));
+}
+
+// Read the launcher's balance of the new token and record every participant's share of it and of the SOL return
+async function planDistribution(connection: Connection, launcher: PublicKey, presale: Presale): Promise<boolean> {
+  const mint = new PublicKey(presale.token_mint!);
+  const mintAccount = await connection.getAccountInfo(mint, 'confirmed');
+  if (!mintAccount) {
+    console.error('[TokenDistribution] Mint not found yet for', presale.id, presale.token_mint);
+    return false;
+  }
+
+  // The mint's owner is the token program (SPL Token or Token-2022) every transfer must go through
+  const tokenProgram = mintAccount.owner;
+  const source = getAssociatedTokenAddressSync(mint, launcher, false, tokenProgram);
+
+  let balance: { amount: string; decimals: number };
+  try {
+    ({ value: balance } = await connection.getTokenAccountBalance(source, 'confirmed'));
+  } catch (e: any) {
+    console.error('[TokenDistribution] Launcher has no token account for', presale.id, e.message);
+    return false;
+  }
+  if (BigInt(balance.amount) === 0n) {
+    console.error('[TokenDistribution] Launcher holds none of', presale.token_mint, 'for', presale.id);
+    return false;
+  }
+
+  // Presales launched before launch budgets returned no SOL
+  const returnLamports = presale.launch_state?.allocation?.participant_return_lamports || 0;
+
+  const participants = await getPresaleParticipants(presale.id);
+  const tokenShares = splitProRata(BigInt(balance.amount), participants);
+  if (tokenShares.length === 0) return false;
+  const returnShares = splitProRata(BigInt(returnLamports), participants);
+
+  return planTokenDistribution(presale.id, {
+    total_amount: balance.amount,
+    decimals: balance.decimals,
+    token_program: tokenProgram.toBase58(),
+    return_lamports: returnLamports,
+    shares: tokenShares.map((share, i) => ({ ...share, return_lamports: Number(returnShares[i].amount) })),
+  });
+}
+
+// ============ BATCHES ============
+
+// Resolve distribution txs sent by an earlier run (or a crashed one)
+async function settleSentDistributions(
+  connection: Connection,
+  presaleId: string,
+  participants: PresaleParticipant[]
+): Promise<void> {
+  const bySignature = new Map<string, PresaleParticipant[]>();
+  for (const p of participants) {
+    if (p.distribution_status !== 'sent' || !p.distribution_signature) continue;
+    bySignature.set(p.distribution_signature, [...(bySignature.get(p.distribution_signature) || []), p]);
+  }
+  if (bySignature.size === 0) return;
+
+  const signatures = Array.from(bySignature.keys());
+  const { value: statuses } = await connection.getSignatureStatuses(signatures, { searchTransactionHistory: true });
+  let blockHeight: number | null = null;
+
+  for (const [i, signature] of signatures.entries()) {
+    const batch = bySignature.get(signature)!;
+    const wallets = batch.map(p => p.wallet);
+    const status = statuses[i];
+
+    if (status && !status.err && status.confirmationStatus !== 'processed') {
+      await markParticipantsDistributed(presaleId, wallets, signature);
+      continue;
+    }
+
+    if (status?.err) {
+      await failParticipantDistributions(presaleId, wallets,
+        `Distribution tx failed: ${JSON.stringify(status.err)}`, retryAt(batch[0].distribution_attempts || 1));
+      continue;
+    }
+
+    const lastValid = batch[0].distribution_last_valid_block_height;
+    if (!status && lastValid !== undefined) {
+      blockHeight ??= await connection.getBlockHeight('confirmed');
+      if (blockHeight > lastValid) {
+        // Blockhash expired without the tx landing - it can never land now
+        await failParticipantDistributions(presaleId, wallets,
+          'Distribution tx expired before landing', retryAt(batch[0].distribution_attempts || 1));
+      }
+    }
+  }
+}
+
+// Sign, claim, then send one tx paying up to DISTRIBUTION_BATCH_SIZE participants their tokens and SOL return
+async function sendDistributionBatch(
+  connection: Connection,
+  launcherKeypair: Keypair,
+  presale: Presale,
+  batch: PresaleParticipant[]
+): Promise<DistributionBatchOutcome> {
+  const distribution = presale.token_distribution!;
+  const mint = new PublicKey(presale.token_mint!);
+  const tokenProgram = new PublicKey(distribution.token_program);
+  const source = getAssociatedTokenAddressSync(mint, launcherKeypair.publicKey, false, tokenProgram);
+
+  const priorityFee = await estimatePriorityFee(connection, [launcherKeypair.publicKey]);
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+  const transaction = new Transaction({
+    feePayer: launcherKeypair.publicKey,
+    blockhash,
+    lastValidBlockHeight,
+  }).add(...computeBudgetInstructions(
+    DISTRIBUTION_COMPUTE_UNITS_BASE + DISTRIBUTION_COMPUTE_UNITS_PER_RECIPIENT * batch.length,
+    priorityFee
+  ));
+  for (const participant of batch) {
+    const owner = new PublicKey(participant.wallet);
+    const amount = BigInt(participant.distribution_amount!);
+    if (amount > 0n) {
+      const destination = getAssociatedTokenAddressSync(mint, owner, true, tokenProgram);
+      transaction.add(
+        createAssociatedTokenAccountIdempotentInstruction(
+          launcherKeypair.publicKey, destination, owner, mint, tokenProgram
+        ),
+        createTransferCheckedInstruction(
+          source, mint, destination, launcherKeypair.publicKey,
+          amount, distribution.decimals, [], tokenProgram
+        )
+      );
+    }
+    if (participant.distribution_return_lamports) {
+      transaction.add(SystemProgram.transfer({
+        fromPubkey: launcherKeypair.publicKey,
+        toPubkey: owner,
+        lamports: participant.distribution_return_lamports,
+      }));
+    }
+  }
+  transaction.sign(launcherKeypair);
+
+  // The signature exists before the tx is sent - record it first so a crash can be resolved later
+  const signature = bs58.encode(transaction.signature!);
+  const wallets = batch.map(p => p.wallet);
+  if (!(await beginParticipantDistributions(presale.id, wallets, signature, lastValidBlockHeight))) {
+    return 'skipped';
+  }
+
+  const attempts = Math.max(...batch.map(p => p.distribution_attempts || 0)) + 1;
+
+  const sent = await sendTransaction(connection, {
+    serialized: transaction.serialize(),
+    signature,
+    blockhash,
+    last_valid_block_height: lastValidBlockHeight,
+  });
+
+  switch (sent.outcome) {
+    case 'confirmed':
+      break;
+
+    case 'failed':
+    case 'expired':
+    case 'insufficient_funds': {
+      // Nothing moved - retried with backoff (the launcher's network reserve may need topping up)
+      const error = sent.outcome === 'insufficient_funds' ? `Launcher cannot cover the batch: ${sent.error}` : sent.error!;
+      await failParticipantDistributions(presale.id, wallets, error, retryAt(attempts));
+      return 'failed';
+    }
+
+    case 'unknown':
+      // Stays 'sent' until settleSentDistributions can tell
+      console.error('[TokenDistribution] Outcome unknown for', signature, sent.error);
+      return 'in_flight';
+  }
+
+  await markParticipantsDistributed(presale.id, wallets, signature);
+  console.log('[TokenDistribution] Sent tokens to', wallets.length, 'participants of', presale.id, 'in', signature);
+  return 'confirmed';
+}
+
+// ============ WORKER ============
+
+async function distributePresale(
+  connection: Connection,
+  launcherKeypair: Keypair,
+  presale: Presale,
+  result: TokenDistributionRunResult
+): Promise<void> {
+  if (!presale.token_distribution) {
+    if (!(await planDistribution(connection, launcherKeypair.publicKey, presale))) return;
+    presale = (await getPresaleById(presale.id))!;
+  }
+
+  await settleSentDistributions(connection, presale.id, await getUndistributedParticipants(presale.id));
+
+  const now = new Date();
+  const due = (await getUndistributedParticipants(presale.id)).filter(p => isDue(p, now));
+
+  for (let i = 0; i < due.length; i += DISTRIBUTION_BATCH_SIZE) {
+    const batch = due.slice(i, i + DISTRIBUTION_BATCH_SIZE);
+    const outcome = await sendDistributionBatch(connection, launcherKeypair, presale, batch);
+
+    if (outcome === 'confirmed') result.distributed += batch.length;
+    else if (outcome === 'failed') result.failed += batch.length;
+    else if (outcome === 'in_flight') result.in_flight += batch.length;
+  }
+
+  if (await completeTokenDistribution(presale.id)) {
+    result.completed.push(presale.id);
+  }
+}
+
+async function processDistributions(): Promise<TokenDistributionRunResult> {
+  const result: TokenDistributionRunResult = { presales: 0, distributed: 0, failed: 0, in_flight: 0, completed: [] };
+
+  // Presales launched before launches were persisted (no launch_state) predate distribution - their tokens are left alone
+  const presales = (await getPresaleStorage().listPresales({ status: 'launched' }))
+    .filter(p => p.token_mint && p.launch_state && p.token_distribution?.status !== 'distributed');
+  if (presales.length === 0) return result;
+
+  if (!LAUNCHER_PRIVATE_KEY) {
+    console.error('[TokenDistribution]', presales.length, 'launched presales waiting, but LAUNCHER_PRIVATE_KEY is not set');
+    return result;
+  }
+
+  const connection = new Connection(SOLANA_RPC_URL, 'confirmed');
+  const launcherKeypair = loadLauncherKeypair();
+
+  for (const presale of presales) {
+    result.presales++;
+    try {
+      await distributePresale(connection, launcherKeypair, presale, result);
+    } catch (e: any) {
+      // One presale's RPC error must not hold up the others - it is picked up again next run
+      console.error('[TokenDistribution] Distribution failed for', presale.id, e.message);
+    }
+  }
+
+  if (result.distributed > 0 || result.failed > 0 || result.completed.length > 0) {
+    console.log('[TokenDistribution] Distributed to', result.distributed, '| failed', result.failed,
+      '| in flight', result.in_flight, '| completed', result.completed.length);
+  }
+  return result;
+}
+
+// Process every launched presale with tokens still to distribute (concurrent callers share the same run)
+export async function runTokenDistributions(): Promise<TokenDistributionRunResult> {
+  if (running) return running;
+
+  running = processDistributions().finally(() => {
+    running = null;
+  });
+
+  return running;
+}
+
+// ============ SCHEDULED JOB ============
+
+let jobTimer: NodeJS.Timeout | null = null;
+
+// Distribute launched presales' tokens every TOKEN_DISTRIBUTION_INTERVAL_SECONDS (default 30, 0 disables)
+export function startTokenDistributionJob(): void {
+  const seconds = parseInt(process.env.TOKEN_DISTRIBUTION_INTERVAL_SECONDS || '30');
+  if (!seconds || jobTimer) return;
+
+  console.log('[TokenDistribution] Distributing launched presales every', seconds, 'seconds');
+  jobTimer = setInterval(() => {
+    runTokenDistributions().catch((e) => {
+      console.error('[TokenDistribution] Run failed:', e.message);
+    });
+  }, seconds * 1000);
+  jobTimer.unref?.();
+}
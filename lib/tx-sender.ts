@@ -0,0 +1,185 @@
+// lib/tx-sender.ts
+// Shared transaction sender - rebroadcasts a signed tx until it lands or its blockhash expires,
+// and reports a structured outcome instead of a thrown error
+// Also prices and injects the compute-budget priority fee for txs we build ourselves
+
+import {
+  ComputeBudgetProgram,
+  Connection,
+  type PublicKey,
+  type TransactionError,
+  type TransactionInstruction,
+} from '@solana/web3.js';
+
+export type SendOutcome =
+  | 'confirmed' // Landed without error
+  | 'failed' // Rejected at preflight or failed on chain - nothing moved
+  | 'insufficient_funds' // Failed because the payer or a sender could not cover it - nothing moved
+  | 'expired' // Blockhash expired without the tx landing - it can never land now
+  | 'unknown'; // Sent, but the RPC could not tell us the outcome in time - settle it later by signature
+
+export interface SendableTransaction {
+  serialized: Uint8Array; // Fully signed
+  signature: string;
+  blockhash: string;
+  last_valid_block_height?: number; // Missing for txs built elsewhere - expiry is then checked with isBlockhashValid
+}
+
+export interface SendOptions {
+  skipPreflight?: boolean; // Resends of a tx that may already be in flight must skip it
+  rebroadcastMs?: number;
+  timeoutMs?: number;
+}
+
+export interface SendResult {
+  outcome: SendOutcome;
+  signature: string;
+  error?: string;
+  slot?: number;
+  broadcasts: number;
+}
+
+// The RPC's own retry queue is disabled (maxRetries: 0) - we rebroadcast on this interval instead
+const REBROADCAST_MS = 2000;
+
+// A blockhash is valid for ~60-90s - give up (outcome unknown) if the RPC cannot tell us for longer than this
+const SEND_TIMEOUT_MS = 120 * 1000;
+
+// Priority fee: this percentile of what recently landed txs paid to write-lock the same accounts
+const PRIORITY_FEE_PERCENTILE = 75;
+const PRIORITY_FEE_MAX_MICRO_LAMPORTS = parseInt(process.env.PAYOUT_MAX_PRIORITY_FEE_MICRO_LAMPORTS || '') || 1_000_000;
+
+// ============ PRIORITY FEES ============
+
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+}
+
+// Priority fee (micro-lamports per compute unit) for a tx write-locking `accounts`
+export async function estimatePriorityFee(connection: Connection, accounts: PublicKey[]): Promise<number> {
+  const recent = await connection.getRecentPrioritizationFees({ lockedWritableAccounts: accounts });
+  return Math.min(
+    percentile(recent.map(f => f.prioritizationFee), PRIORITY_FEE_PERCENTILE),
+    PRIORITY_FEE_MAX_MICRO_LAMPORTS
+  );
+}
+
+// Compute budget instructions a tx must start with to pay `microLamports` per unit on `units` units
+export function computeBudgetInstructions(units: number, microLamports: number): TransactionInstruction[] {
+  return [
+    ComputeBudgetProgram.setComputeUnitLimit({ units }),
+    ComputeBudgetProgram.setComputeUnitPrice({ microLamports }),
+  ];
+}
+
+// ============ SENDING ============
+
+const INSUFFICIENT_FUNDS = /insufficient (funds|lamports)|InsufficientFunds|no record of a prior credit/i;
+
+function classifyTxError(err: TransactionError | string): SendOutcome {
+  const detail = typeof err === 'string' ? err : JSON.stringify(err);
+  return INSUFFICIENT_FUNDS.test(detail) ? 'insufficient_funds' : 'failed';
+}
+
+function sendErrorDetail(e: any): string {
+  return [e.message, ...(e.logs || [])].join(' ');
+}
+
+async function broadcast(connection: Connection, tx: SendableTransaction, skipPreflight: boolean): Promise<void> {
+  await connection.sendRawTransaction(tx.serialized, {
+    skipPreflight,
+    preflightCommitment: 'confirmed',
+    maxRetries: 0,
+  });
+}
+
+async function hasExpired(connection: Connection, tx: SendableTransaction): Promise<boolean> {
+  if (tx.last_valid_block_height !== undefined) {
+    return (await connection.getBlockHeight('confirmed')) > tx.last_valid_block_height;
+  }
+  const { value: valid } = await connection.isBlockhashValid(tx.blockhash, { commitment: 'confirmed' });
+  return !valid;
+}
+
+// Where the tx stands right now - null while it has not landed
+async function landedResult(
+  connection: Connection,
+  tx: SendableTransaction,
+  broadcasts: number,
+  searchHistory: boolean
+): Promise<SendResult | null> {
+  const { value: [status] } = await connection.getSignatureStatuses(
+    [tx.signature],
+    { searchTransactionHistory: searchHistory }
+  );
+  if (!status || status.confirmationStatus === 'processed') return null;
+
+  if (status.err) {
+    return {
+      outcome: classifyTxError(status.err),
+      signature: tx.signature,
+      error: `Tx ${tx.signature} failed: ${JSON.stringify(status.err)}`,
+      slot: status.slot,
+      broadcasts,
+    };
+  }
+  return { outcome: 'confirmed', signature: tx.signature, slot: status.slot, broadcasts };
+}
+
+// Send a signed tx and keep rebroadcasting the same bytes until it lands or its blockhash expires
+// Only a preflight rejection or an on-chain error counts as failed - anything else is retried until the chain decides
+export async function sendTransaction(
+  connection: Connection,
+  tx: SendableTransaction,
+  options: SendOptions = {}
+): Promise<SendResult> {
+  const rebroadcastMs = options.rebroadcastMs ?? REBROADCAST_MS;
+  const deadline = Date.now() + (options.timeoutMs ?? SEND_TIMEOUT_MS);
+  let broadcasts = 0;
+
+  try {
+    await broadcast(connection, tx, !!options.skipPreflight);
+    broadcasts++;
+  } catch (e: any) {
+    const detail = sendErrorDetail(e);
+    // Preflight rejections never reach the chain (a copy that already landed reports as processed instead)
+    if (detail.includes('Simulation failed') && !/already been processed/i.test(detail)) {
+      return { outcome: classifyTxError(detail), signature: tx.signature, error: e.message, broadcasts };
+    }
+    // Anything else (timeouts, rate limits, a lagging node) may still have reached a leader - keep going
+    console.error('[TxSender] Send failed for', tx.signature, e.message);
+  }
+
+  while (Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, rebroadcastMs));
+
+    try {
+      const landed = await landedResult(connection, tx, broadcasts, false);
+      if (landed) return landed;
+
+      if (await hasExpired(connection, tx)) {
+        // One last look through history - it may have landed just before the blockhash expired
+        return await landedResult(connection, tx, broadcasts, true) || {
+          outcome: 'expired',
+          signature: tx.signature,
+          error: `Tx ${tx.signature} expired before landing`,
+          broadcasts,
+        };
+      }
+
+      await broadcast(connection, tx, true);
+      broadcasts++;
+    } catch (e: any) {
+      console.error('[TxSender] Rebroadcast check failed for', tx.signature, e.message);
+    }
+  }
+
+  return {
+    outcome: 'unknown',
+    signature: tx.signature,
+    error: `Tx ${tx.signature} outcome unknown after ${broadcasts} broadcasts`,
+    broadcasts,
+  };
+}
@@ -0,0 +1,223 @@
+// lib/wallet-auth.ts
+// Sign-In-With-Solana style wallet auth - the wallet signs a one-time nonce message and gets a short-lived session
+// Wallet-scoped routes (join, refund/withdraw, creator actions) require a session for the wallet they act on
+
+import { createHash, createPublicKey, randomBytes, verify } from 'crypto';
+import { PublicKey } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { getPresaleStorage } from './presale-storage';
+
+// A challenge must be signed within this window
+const AUTH_NONCE_TTL_MS = 5 * 60 * 1000;
+
+// Challenges are stored for anyone who asks - cap how fast one client can ask, and how many one wallet holds
+// (issuing past the cap drops that wallet's oldest, so spamming a wallet cannot lock its owner out)
+const AUTH_NONCE_RATE_WINDOW_MS = 60 * 1000;
+const AUTH_NONCE_RATE_LIMIT = parseInt(process.env.AUTH_NONCE_RATE_LIMIT || '') || 10; // Per client per window
+const AUTH_MAX_OPEN_NONCES = 3;
+
+// Sessions are short-lived - signing in again only costs a wallet popup
+const AUTH_SESSION_TTL_MS = (parseInt(process.env.AUTH_SESSION_TTL_MINUTES || '') || 30) * 60 * 1000;
+
+const AUTH_STATEMENT = 'Sign in to BAGS69 to manage your presale deposits. ' +
+  'This request will not trigger a blockchain transaction or cost any fees.';
+
+export interface SignInChallenge {
+  nonce: string;
+  message: string;
+  expires_at: string;
+}
+
+export interface SignInResult {
+  success: boolean;
+  token?: string; // Bearer token - only returned once, never stored
+  wallet?: string;
+  expires_at?: string;
+  error?: string;
+}
+
+export interface WalletAuthResult {
+  success: boolean;
+  wallet?: string;
+  error?: string;
+  status?: number; // 401 (no valid session) or 403 (session for another wallet)
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// SIWS message text (same field layout as Sign-In-With-Ethereum)
+function buildSignInMessage(data: {
+  domain: string;
+  uri: string;
+  wallet: string;
+  nonce: string;
+  issued_at: string;
+  expires_at: string;
+}): string {
+  return [
+    `${data.domain} wants you to sign in with your Solana account:`,
+    data.wallet,
+    '',
+    AUTH_STATEMENT,
+    '',
+    `URI: ${data.uri}`,
+    'Version: 1',
+    'Chain ID: mainnet',
+    `Nonce: ${data.nonce}`,
+    `Issued At: ${data.issued_at}`,
+    `Expiration Time: ${data.expires_at}`,
+  ].join('\n');
+}
+
+// Ed25519 check of a detached signature over `message` by `wallet`
+function verifyWalletSignature(wallet: string, message: string, signature: Uint8Array): boolean {
+  try {
+    const key = createPublicKey({
+      key: { kty: 'OKP', crv: 'Ed25519', x: Buffer.from(new PublicKey(wallet).toBytes()).toString('base64url') },
+      format: 'jwk',
+    });
+    return verify(null, Buffer.from(message, 'utf-8'), key, signature);
+  } catch {
+    return false;
+  }
+}
+
+// ============ SIGN IN ============
+
+// Challenges issued per client in the current window (per process)
+let nonceWindowStart = 0;
+const noncesByClient = new Map<string, number>();
+
+// Client address as reported by the proxy in front of the app
+export function clientAddress(req: Request): string {
+  const forwarded = req.headers.get('x-forwarded-for');
+  return forwarded?.split(',')[0].trim() || req.headers.get('x-real-ip') || 'unknown';
+}
+
+// Count a challenge request from `client` - false once it is over AUTH_NONCE_RATE_LIMIT this window
+export function allowSignInChallenge(client: string): boolean {
+  const now = Date.now();
+  if (now - nonceWindowStart >= AUTH_NONCE_RATE_WINDOW_MS) {
+    nonceWindowStart = now;
+    noncesByClient.clear();
+  }
+
+  const count = (noncesByClient.get(client) || 0) + 1;
+  noncesByClient.set(client, count);
+  return count <= AUTH_NONCE_RATE_LIMIT;
+}
+
+// Issue a one-time message for `wallet` to sign
+export async function createSignInChallenge(wallet: string, origin: string): Promise<SignInChallenge> {
+  new PublicKey(wallet); // Throws on an invalid address
+
+  const storage = getPresaleStorage();
+  const now = new Date();
+  await storage.pruneAuth(now.toISOString());
+
+  const nonce = bs58.encode(randomBytes(16));
+  const expiresAt = new Date(now.getTime() + AUTH_NONCE_TTL_MS).toISOString();
+  const message = buildSignInMessage({
+    domain: new URL(origin).host,
+    uri: origin,
+    wallet,
+    nonce,
+    issued_at: now.toISOString(),
+    expires_at: expiresAt,
+  });
+
+  await storage.insertAuthNonce({
+    nonce,
+    wallet,
+    message,
+    created_at: now.toISOString(),
+    expires_at: expiresAt,
+  });
+  await storage.trimAuthNonces(wallet, AUTH_MAX_OPEN_NONCES);
+
+  return { nonce, message, expires_at: expiresAt };
+}
+
+// Redeem a signed challenge for a session (the nonce is spent whether or not the signature checks out)
+export async function completeSignIn(data: {
+  wallet: string;
+  nonce: string;
+  signature: string; // base58
+}): Promise<SignInResult> {
+  const storage = getPresaleStorage();
+  const challenge = await storage.takeAuthNonce(data.nonce);
+
+  if (!challenge || challenge.wallet !== data.wallet) {
+    return { success: false, error: 'Unknown or already used sign-in nonce' };
+  }
+
+  if (new Date(challenge.expires_at) < new Date()) {
+    return { success: false, error: 'Sign-in message expired, please try again' };
+  }
+
+  let signature: Uint8Array;
+  try {
+    signature = bs58.decode(data.signature);
+  } catch {
+    return { success: false, error: 'Invalid signature encoding' };
+  }
+
+  if (signature.length !== 64 || !verifyWalletSignature(data.wallet, challenge.message, signature)) {
+    return { success: false, error: 'Signature does not match the wallet' };
+  }
+
+  const token = randomBytes(32).toString('base64url');
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + AUTH_SESSION_TTL_MS).toISOString();
+
+  await storage.insertAuthSession({
+    token_hash: hashToken(token),
+    wallet: data.wallet,
+    created_at: now.toISOString(),
+    expires_at: expiresAt,
+  });
+
+  console.log('[WalletAuth] Signed in:', data.wallet);
+  return { success: true, token, wallet: data.wallet, expires_at: expiresAt };
+}
+
+// ============ SESSIONS ============
+
+function bearerToken(req: Request): string | null {
+  const header = req.headers.get('authorization') || '';
+  const match = header.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+// Wallet of the request's session, if it has a live one
+export async function getSessionWallet(req: Request): Promise<string | null> {
+  const token = bearerToken(req);
+  if (!token) return null;
+
+  const session = await getPresaleStorage().getAuthSession(hashToken(token));
+  if (!session || new Date(session.expires_at) < new Date()) return null;
+
+  return session.wallet;
+}
+
+// The request must carry a session signed by `wallet`
+export async function requireWalletSession(req: Request, wallet: string): Promise<WalletAuthResult> {
+  const sessionWallet = await getSessionWallet(req);
+
+  if (!sessionWallet) {
+    return { success: false, status: 401, error: 'Sign in with your wallet to continue' };
+  }
+
+  if (sessionWallet !== wallet) {
+    return { success: false, status: 403, error: 'Signed-in wallet does not match the requested wallet' };
+  }
+
+  return { success: true, wallet: sessionWallet };
+}
+
+export async function endWalletSession(req: Request): Promise<void> {
+  const token = bearerToken(req);
+  if (token) await getPresaleStorage().deleteAuthSession(hashToken(token));
+}
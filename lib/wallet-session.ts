@@ -0,0 +1,83 @@
+// lib/wallet-session.ts
+// Browser side of wallet sign-in - signs the server's challenge once and reuses the session until it expires
+// Sessions live in sessionStorage, so closing the tab signs the wallet out
+
+import bs58 from 'bs58';
+
+const STORAGE_PREFIX = 'bags69:session:';
+
+// Re-sign slightly before the server would reject the token
+const EXPIRY_MARGIN_MS = 30 * 1000;
+
+interface StoredSession {
+  token: string;
+  expires_at: string;
+}
+
+type SignMessage = (message: Uint8Array) => Promise<Uint8Array>;
+
+function readSession(wallet: string): StoredSession | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const session: StoredSession | null = JSON.parse(sessionStorage.getItem(STORAGE_PREFIX + wallet) || 'null');
+    if (!session || new Date(session.expires_at).getTime() - EXPIRY_MARGIN_MS < Date.now()) return null;
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+// Session token for `wallet` if one is already live (never prompts the wallet)
+export function getStoredSessionToken(wallet: string): string | null {
+  return readSession(wallet)?.token ?? null;
+}
+
+export function clearWalletSession(wallet: string): void {
+  if (typeof window !== 'undefined') sessionStorage.removeItem(STORAGE_PREFIX + wallet);
+}
+
+// Session token for `wallet`, asking the wallet to sign a sign-in message if needed
+export async function getWalletSession(wallet: string, signMessage?: SignMessage): Promise<string> {
+  const existing = readSession(wallet);
+  if (existing) return existing.token;
+
+  if (!signMessage) {
+    throw new Error('Wallet does not support message signing');
+  }
+
+  const nonceRes = await fetch('/api/auth/nonce', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ wallet }),
+  });
+  const challenge = await nonceRes.json();
+  if (!challenge.success) {
+    throw new Error(challenge.error || 'Failed to start sign-in');
+  }
+
+  const signature = await signMessage(new TextEncoder().encode(challenge.message));
+
+  const sessionRes = await fetch('/api/auth/session', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ wallet, nonce: challenge.nonce, signature: bs58.encode(signature) }),
+  });
+  const session = await sessionRes.json();
+  if (!session.success) {
+    throw new Error(session.error || 'Sign-in failed');
+  }
+
+  sessionStorage.setItem(STORAGE_PREFIX + wallet, JSON.stringify({
+    token: session.token,
+    expires_at: session.expires_at,
+  }));
+  return session.token;
+}
+
+// Headers for a JSON request made on behalf of a signed-in wallet
+export function authHeaders(token: string): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${token}`,
+  };
+}
@@ -1 +1,8 @@
-export default { };
+export default {
+  experimental: {
+    // Background jobs are started from instrumentation.ts
+    instrumentationHook: true,
+    // libsql ships a native SQLite binding that must not be bundled
+    serverComponentsExternalPackages: ['@libsql/client', 'libsql'],
+  },
+};